@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  animateToPreset,
+  animateVariables,
+  cancelVariableAnimations,
+  getPresetValues,
+} from "../shared/animation";
+import type { UnicornStudioScene, UnicornVariables } from "../shared/types";
+
+/** Creates a scene that stores the values set on it. */
+function createScene(initialValues: UnicornVariables) {
+  const values = { ...initialValues };
+  const scene: UnicornStudioScene = {
+    element: document.createElement("div"),
+    destroy: vi.fn(),
+    getVariables: () => ({ ...values }),
+    setVariables: vi.fn((nextValues) => {
+      Object.assign(values, nextValues);
+      return scene;
+    }),
+    setPreset: vi.fn(() => scene),
+  };
+
+  return { scene, values };
+}
+
+describe("animateVariables", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: [
+        "setTimeout",
+        "requestAnimationFrame",
+        "cancelAnimationFrame",
+        "performance",
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("interpolates numbers over the duration", async () => {
+    const { scene, values } = createScene({ intensity: 0 });
+
+    const finished = animateVariables(
+      scene,
+      { intensity: 1 },
+      { duration: 100, easing: "linear" },
+    );
+
+    vi.advanceTimersByTime(50);
+    expect(values.intensity).toBeGreaterThan(0.3);
+    expect(values.intensity).toBeLessThan(0.7);
+
+    vi.advanceTimersByTime(100);
+    expect(values.intensity).toBe(1);
+    await expect(finished).resolves.toBeUndefined();
+  });
+
+  it("interpolates vectors component-wise", () => {
+    const { scene, values } = createScene({
+      offset: { type: "Vec3", x: 0, y: 0, z: 0 },
+    });
+
+    animateVariables(
+      scene,
+      { offset: { type: "Vec3", x: 2, y: 4, z: -2 } },
+      { duration: 100, easing: (progress) => (progress < 1 ? 0.5 : 1) },
+    );
+    vi.advanceTimersByTime(50);
+
+    expect(values.offset).toEqual({ type: "Vec3", x: 1, y: 2, z: -1 });
+  });
+
+  it("interpolates hex colors in OKLab", () => {
+    const { scene, values } = createScene({ tint: "#0000ff" });
+
+    animateVariables(
+      scene,
+      { tint: "#ffffff" },
+      { duration: 100, easing: (progress) => (progress < 1 ? 0.5 : 1) },
+    );
+    vi.advanceTimersByTime(50);
+
+    // Linear sRGB interpolation would give #8080ff; OKLab keeps the midpoint
+    // perceptually halfway and free of a purple cast
+    expect(values.tint).toMatch(/^#[0-9a-f]{6}$/);
+    expect(values.tint).not.toBe("#8080ff");
+
+    vi.advanceTimersByTime(100);
+    expect(values.tint).toBe("#ffffff");
+  });
+
+  it("keeps the alpha channel of 8-digit colors", () => {
+    const { scene, values } = createScene({ tint: "#00000000" });
+
+    animateVariables(
+      scene,
+      { tint: "#000000ff" },
+      { duration: 100, easing: (progress) => (progress < 1 ? 0.5 : 1) },
+    );
+    vi.advanceTimersByTime(50);
+
+    expect(values.tint).toBe("#00000080");
+  });
+
+  it("sets values that can't be interpolated immediately", () => {
+    const { scene, values } = createScene({ grain: false, headline: "Hi" });
+
+    animateVariables(
+      scene,
+      { grain: true, headline: "Hello", brandNew: 1 },
+      { duration: 100 },
+    );
+
+    expect(scene.setVariables).toHaveBeenCalledWith({
+      grain: true,
+      headline: "Hello",
+      brandNew: 1,
+    });
+    expect(values.grain).toBe(true);
+  });
+
+  it("sets values immediately with a zero duration", () => {
+    const { scene, values } = createScene({ intensity: 0 });
+
+    animateVariables(scene, { intensity: 1 }, { duration: 0 });
+
+    expect(values.intensity).toBe(1);
+  });
+
+  it("continues from the current value when retargeted", () => {
+    const { scene, values } = createScene({ intensity: 0 });
+
+    animateVariables(
+      scene,
+      { intensity: 1 },
+      { duration: 100, easing: "linear" },
+    );
+    vi.advanceTimersByTime(48);
+    const retargetedFrom = values.intensity as number;
+
+    const setVariables = vi.mocked(scene.setVariables!);
+    setVariables.mockClear();
+    animateVariables(
+      scene,
+      { intensity: 0 },
+      { duration: 100, easing: "linear" },
+    );
+    vi.advanceTimersByTime(16);
+
+    const [firstFrame] = setVariables.mock.calls[0];
+    expect(firstFrame.intensity).toBeLessThanOrEqual(retargetedFrom);
+    expect(firstFrame.intensity).toBeGreaterThan(retargetedFrom - 0.25);
+
+    vi.advanceTimersByTime(200);
+    expect(values.intensity).toBe(0);
+  });
+
+  it("applies every running animation in one setVariables call per frame", () => {
+    const { scene } = createScene({ a: 0, b: 0 });
+
+    animateVariables(scene, { a: 1 }, { duration: 100 });
+    animateVariables(scene, { b: 1 }, { duration: 100 });
+    vi.mocked(scene.setVariables!).mockClear();
+    vi.advanceTimersByTime(16);
+
+    expect(scene.setVariables).toHaveBeenCalledTimes(1);
+    expect(scene.setVariables).toHaveBeenCalledWith({
+      a: expect.any(Number),
+      b: expect.any(Number),
+    });
+  });
+
+  it("stops animating when cancelled", async () => {
+    const { scene, values } = createScene({ intensity: 0 });
+
+    const finished = animateVariables(
+      scene,
+      { intensity: 1 },
+      { duration: 100, easing: "linear" },
+    );
+    vi.advanceTimersByTime(32);
+    cancelVariableAnimations(scene);
+    const stoppedAt = values.intensity;
+    vi.advanceTimersByTime(200);
+
+    expect(values.intensity).toBe(stoppedAt);
+    await expect(finished).resolves.toBeUndefined();
+  });
+});
+
+describe("animateToPreset", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: [
+        "setTimeout",
+        "requestAnimationFrame",
+        "cancelAnimationFrame",
+        "performance",
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("switches values that can't be interpolated halfway through", async () => {
+    const { scene, values } = createScene({
+      intensity: 0,
+      grain: false,
+      image: "/a.png",
+    });
+
+    const finished = animateToPreset(
+      scene,
+      "Night",
+      { intensity: 1, grain: true, image: "/b.png" },
+      { duration: 100, easing: "linear" },
+    );
+    expect(values).toEqual({ intensity: 0, grain: false, image: "/a.png" });
+
+    vi.advanceTimersByTime(40);
+    expect(values.grain).toBe(false);
+    expect(values.image).toBe("/a.png");
+
+    vi.advanceTimersByTime(30);
+    expect(values.grain).toBe(true);
+    expect(values.image).toBe("/b.png");
+    expect(values.intensity).toBeGreaterThan(0.4);
+    expect(values.intensity).toBeLessThan(0.8);
+
+    vi.advanceTimersByTime(100);
+    expect(values).toEqual({ intensity: 1, grain: true, image: "/b.png" });
+    await expect(finished).resolves.toBeUndefined();
+    expect(scene.setPreset).toHaveBeenCalledWith("Night");
+  });
+
+  it("sets switched values only once", () => {
+    const { scene } = createScene({ grain: false });
+
+    animateToPreset(scene, "Night", { grain: true }, { duration: 100 });
+    vi.advanceTimersByTime(200);
+
+    expect(scene.setVariables).toHaveBeenCalledTimes(1);
+    expect(scene.setVariables).toHaveBeenCalledWith({ grain: true });
+  });
+
+  it("continues from the current values when interrupted", async () => {
+    const { scene, values } = createScene({ intensity: 0, grain: false });
+
+    const interrupted = animateToPreset(
+      scene,
+      "Night",
+      { intensity: 1, grain: true },
+      { duration: 100, easing: "linear" },
+    );
+    vi.advanceTimersByTime(64);
+    const interruptedAt = values.intensity as number;
+    expect(values.grain).toBe(true);
+
+    const finished = animateToPreset(
+      scene,
+      "Day",
+      { intensity: 0, grain: false },
+      { duration: 100, easing: "linear" },
+    );
+    vi.advanceTimersByTime(16);
+    expect(values.intensity).toBeLessThanOrEqual(interruptedAt);
+    expect(values.intensity).toBeGreaterThan(interruptedAt - 0.25);
+    expect(values.grain).toBe(true);
+
+    vi.advanceTimersByTime(200);
+    expect(values).toEqual({ intensity: 0, grain: false });
+
+    // Only the preset that was reached becomes active
+    await Promise.all([interrupted, finished]);
+    expect(scene.setPreset).toHaveBeenCalledTimes(1);
+    expect(scene.setPreset).toHaveBeenCalledWith("Day");
+  });
+});
+
+describe("getPresetValues", () => {
+  const preset = {
+    id: "p1",
+    name: "Night",
+    values: { v1: 0.2, brandColor: "#000000", v9: 1 },
+  };
+
+  it("resolves variable IDs to names", () => {
+    const { scene } = createScene({});
+    scene.getPreset = vi.fn(() => preset);
+    scene.getVariableDefinitions = () => [
+      { id: "v1", name: "intensity", type: "number" },
+      { id: "v2", name: "brandColor", type: "color" },
+    ];
+
+    expect(getPresetValues(scene, "Night")).toEqual({
+      intensity: 0.2,
+      brandColor: "#000000",
+    });
+    expect(scene.getPreset).toHaveBeenCalledWith("Night");
+  });
+
+  it("returns the values as authored without definitions", () => {
+    const { scene } = createScene({});
+    scene.getPreset = () => preset;
+
+    expect(getPresetValues(scene, "p1")).toEqual(preset.values);
+  });
+
+  it("returns null for unknown presets", () => {
+    const { scene } = createScene({});
+
+    expect(getPresetValues(scene, "Night")).toBeNull();
+    scene.getPreset = () => null;
+    expect(getPresetValues(scene, "Night")).toBeNull();
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useUnicornAudio } from "../shared/audio";
+import type {
+  UnicornAudioMappings,
+  UnicornAudioOptions,
+  UnicornAudioSource,
+  UnicornStudioScene,
+  UnicornVariableDefinition,
+} from "../shared/types";
+
+// ---------------------------------------------------------------------------
+// Web Audio mocks
+// ---------------------------------------------------------------------------
+
+/** Levels the mocked analyser reports, from 0 to 255 per frequency bin */
+let spectrum: (bin: number) => number;
+/** The constant sample value of the mocked waveform, i.e. its RMS level */
+let waveform: number;
+
+class MockAnalyserNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  connect = vi.fn();
+  disconnect = vi.fn();
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(data: Uint8Array) {
+    data.forEach((_, bin) => (data[bin] = spectrum(bin)));
+  }
+
+  getFloatTimeDomainData(data: Float32Array) {
+    data.fill(waveform);
+  }
+}
+
+function createSourceNode(context: MockAudioContext) {
+  return { context, connect: vi.fn(), disconnect: vi.fn() };
+}
+
+class MockAudioContext extends EventTarget {
+  // With an FFT size of 64, each of the 32 bins is 500 Hz wide
+  sampleRate = 32000;
+  state: AudioContextState = "suspended";
+  destination = {};
+  analysers: MockAnalyserNode[] = [];
+
+  createAnalyser = vi.fn(() => {
+    const analyser = new MockAnalyserNode();
+    this.analysers.push(analyser);
+    return analyser;
+  });
+  createMediaElementSource = vi.fn(() => createSourceNode(this));
+  createMediaStreamSource = vi.fn(() => createSourceNode(this));
+  resume = vi.fn(async () => {
+    this.state = "running";
+    this.dispatchEvent(new Event("statechange"));
+  });
+}
+
+function createScene(definitions?: UnicornVariableDefinition[]) {
+  const scene: UnicornStudioScene = {
+    element: document.createElement("div"),
+    destroy: vi.fn(),
+    setVariables: vi.fn(() => scene),
+    getVariableDefinitions: definitions ? () => definitions : undefined,
+  };
+  return scene;
+}
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+describe("useUnicornAudio", () => {
+  let context: MockAudioContext;
+  let audio: HTMLAudioElement;
+
+  function renderAudioHook(
+    scene: UnicornStudioScene,
+    mappings: UnicornAudioMappings,
+    options: UnicornAudioOptions = {},
+    source: UnicornAudioSource = audio,
+  ) {
+    return renderHook(() =>
+      useUnicornAudio({ current: scene }, source, mappings, {
+        audioContext: context as unknown as AudioContext,
+        fftSize: 64,
+        smoothing: 0,
+        ...options,
+      }),
+    );
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ["setInterval", "clearInterval", "performance"],
+    });
+    spectrum = () => 0;
+    waveform = 0;
+    context = new MockAudioContext();
+    audio = document.createElement("audio");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("maps levels onto variables at the update interval", () => {
+    const scene = createScene();
+    spectrum = (bin) => (bin === 0 ? 255 : 0);
+    waveform = 0.5;
+
+    renderAudioHook(scene, {
+      glow: "bass",
+      level: "rms",
+      tint: { feature: "treble", range: ["#000000", "#ffffff"] },
+      band: { feature: [0, 1000], range: [0, 10] },
+    });
+    expect(scene.setVariables).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(33);
+
+    expect(context.analysers[0].fftSize).toBe(64);
+    expect(scene.setVariables).toHaveBeenCalledWith({
+      glow: 1,
+      level: 0.5,
+      tint: "#000000",
+      band: 5,
+    });
+  });
+
+  it("smooths levels between updates", () => {
+    const scene = createScene();
+    spectrum = () => 255;
+
+    renderAudioHook(scene, { glow: "bass" }, { smoothing: 0.5 });
+    vi.advanceTimersByTime(33);
+    expect(scene.setVariables).toHaveBeenLastCalledWith({ glow: 1 });
+
+    spectrum = () => 0;
+    vi.advanceTimersByTime(33);
+    expect(scene.setVariables).toHaveBeenLastCalledWith({ glow: 0.5 });
+  });
+
+  it("doesn't re-apply unchanged values", () => {
+    const scene = createScene();
+
+    renderAudioHook(scene, { glow: "bass" });
+    vi.advanceTimersByTime(33 * 3);
+
+    expect(scene.setVariables).toHaveBeenCalledTimes(1);
+  });
+
+  it("pulses on beats and decays in between", () => {
+    const scene = createScene();
+    spectrum = () => 25;
+
+    renderAudioHook(scene, { pulse: "beat" }, { updateInterval: 50 });
+    vi.advanceTimersByTime(250);
+    expect(scene.setVariables).toHaveBeenLastCalledWith({ pulse: 0 });
+
+    spectrum = () => 255;
+    vi.advanceTimersByTime(50);
+    expect(scene.setVariables).toHaveBeenLastCalledWith({ pulse: 1 });
+
+    // Still loud, but within the cooldown
+    vi.advanceTimersByTime(50);
+    expect(scene.setVariables).toHaveBeenLastCalledWith({ pulse: 0.8 });
+  });
+
+  it("validates ranges against the variable definitions", () => {
+    const scene = createScene([
+      {
+        id: "v1",
+        name: "glow",
+        type: "number",
+        validation: { min: 0, max: 0.5 },
+      },
+      { id: "v2", name: "tint", type: "color" },
+    ]);
+    const onVariableViolation = vi.fn();
+    spectrum = () => 255;
+
+    renderAudioHook(
+      scene,
+      { glow: "bass", tint: { feature: "mid", range: [0, 1] }, missing: "rms" },
+      { onVariableViolation },
+    );
+    vi.advanceTimersByTime(33);
+
+    expect(onVariableViolation).toHaveBeenCalledTimes(1);
+    expect(
+      onVariableViolation.mock.calls[0][0].map(
+        ({ name, reason }: { name: string; reason: string }) => [name, reason],
+      ),
+    ).toEqual([
+      ["glow", "range"],
+      ["tint", "type"],
+      ["missing", "unknown"],
+    ]);
+    expect(scene.setVariables).toHaveBeenCalledWith({ glow: 0.5 });
+  });
+
+  it("warns about violations without a callback", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const scene = createScene([]);
+
+    renderAudioHook(scene, { glow: "bass" });
+    vi.advanceTimersByTime(33);
+
+    expect(warn).toHaveBeenCalledWith(
+      '[unicornstudio-react] Unknown variable "glow"',
+    );
+    expect(scene.setVariables).not.toHaveBeenCalled();
+  });
+
+  it("keeps media elements audible and reuses their source node", () => {
+    const scene = createScene();
+
+    const { unmount } = renderAudioHook(scene, { glow: "bass" });
+    const [sourceNode] = context.createMediaElementSource.mock.results.map(
+      (result) => result.value,
+    );
+    expect(sourceNode.connect).toHaveBeenCalledWith(context.destination);
+    expect(sourceNode.connect).toHaveBeenCalledWith(context.analysers[0]);
+
+    unmount();
+    expect(sourceNode.disconnect).toHaveBeenCalledWith(context.analysers[0]);
+    vi.advanceTimersByTime(100);
+    expect(scene.setVariables).not.toHaveBeenCalled();
+
+    renderAudioHook(scene, { glow: "bass" });
+    expect(context.createMediaElementSource).toHaveBeenCalledTimes(1);
+    expect(sourceNode.connect).toHaveBeenCalledWith(context.analysers[1]);
+  });
+
+  it("shares the source node between bindings to the same element", () => {
+    renderAudioHook(createScene(), { glow: "bass" });
+    renderAudioHook(createScene(), { glow: "treble" });
+
+    const [sourceNode] = context.createMediaElementSource.mock.results.map(
+      (result) => result.value,
+    );
+    expect(context.createMediaElementSource).toHaveBeenCalledTimes(1);
+    expect(sourceNode.connect).toHaveBeenCalledWith(context.analysers[0]);
+    expect(sourceNode.connect).toHaveBeenCalledWith(context.analysers[1]);
+  });
+
+  it("reports an element already routed through another context", () => {
+    const scene = createScene();
+    const onError = vi.fn();
+    renderAudioHook(scene, { glow: "bass" });
+
+    const otherContext = new MockAudioContext();
+    const routedError = Object.assign(new Error("Already connected"), {
+      name: "InvalidStateError",
+    });
+    otherContext.createMediaElementSource.mockImplementation(() => {
+      throw routedError;
+    });
+    const { result } = renderAudioHook(
+      scene,
+      { glow: "bass" },
+      { audioContext: otherContext as unknown as AudioContext, onError },
+    );
+
+    expect(onError).toHaveBeenCalledWith(routedError);
+    expect(result.current.error).toBe(routedError);
+    expect(otherContext.analysers[0].disconnect).not.toHaveBeenCalled();
+  });
+
+  it("analyses streams without playing them", () => {
+    const scene = createScene();
+    const stream = { getTracks: () => [] } as unknown as MediaStream;
+
+    renderAudioHook(scene, { glow: "bass" }, {}, stream);
+
+    const [sourceNode] = context.createMediaStreamSource.mock.results.map(
+      (result) => result.value,
+    );
+    expect(sourceNode.connect).toHaveBeenCalledTimes(1);
+    expect(sourceNode.connect).toHaveBeenCalledWith(context.analysers[0]);
+  });
+
+  it("resumes the context when the media element plays", async () => {
+    const { result } = renderAudioHook(createScene(), { glow: "bass" });
+    expect(result.current.running).toBe(false);
+
+    await act(async () => {
+      audio.dispatchEvent(new Event("play"));
+    });
+
+    expect(context.resume).toHaveBeenCalled();
+    expect(result.current.running).toBe(true);
+  });
+
+  it("resumes the context on demand", async () => {
+    const { result } = renderAudioHook(createScene(), { glow: "bass" });
+
+    await act(() => result.current.resume());
+
+    expect(result.current.running).toBe(true);
+  });
+
+  it("does nothing without a source", () => {
+    const scene = createScene();
+
+    renderHook(() =>
+      useUnicornAudio(
+        { current: scene },
+        null,
+        { glow: "bass" },
+        {
+          audioContext: context as unknown as AudioContext,
+        },
+      ),
+    );
+    vi.advanceTimersByTime(100);
+
+    expect(context.createAnalyser).not.toHaveBeenCalled();
+    expect(scene.setVariables).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { generateSceneTypes, readSceneSchema } from "../codegen";
+import { getTypeNameFromPath, runCli } from "../codegen/cli";
+
+const SCENE_JSON = {
+  options: {},
+  history: [
+    { id: "layer-1", layerName: "Background", layerType: "effect" },
+    { id: "layer-2", name: "Title", layerType: "text" },
+    { id: "layer-3", publicId: "abc123", layerType: "effect" },
+  ],
+  variables: {
+    definitions: [
+      { id: "v1", name: "brandColor", type: "color", defaultValue: "#7c3aed" },
+      { id: "v2", name: "intensity", type: "number", defaultValue: 0.5 },
+      { id: "v3", name: "show grain", defaultValue: true },
+      {
+        id: "v4",
+        name: "offset",
+        defaultValue: { type: "Vec2", x: 0, y: 0 },
+      },
+    ],
+    bindings: [],
+    presets: [
+      { id: "p1", name: "Day", values: {} },
+      { id: "p2", name: "Night", values: {} },
+    ],
+  },
+};
+
+describe("readSceneSchema", () => {
+  it("reads variables, presets, and layers", () => {
+    expect(readSceneSchema(SCENE_JSON)).toEqual({
+      variables: [
+        { name: "brandColor", type: "string" },
+        { name: "intensity", type: "number" },
+        { name: "show grain", type: "boolean" },
+        { name: "offset", type: "UnicornVec2" },
+      ],
+      presets: ["Day", "Night"],
+      layers: ["Background", "Title", "abc123"],
+    });
+  });
+
+  it("reads scenes without variables", () => {
+    expect(readSceneSchema({ options: {}, layers: [] })).toEqual({
+      variables: [],
+      presets: [],
+      layers: [],
+    });
+  });
+
+  it("skips duplicate and unnamed entries", () => {
+    const schema = readSceneSchema({
+      history: [{ layerName: "Blur" }, { layerName: "Blur" }, {}],
+      variables: {
+        definitions: [
+          { name: "speed", type: "number" },
+          { name: "speed", type: "string" },
+          { type: "number" },
+        ],
+        presets: [{ values: {} }],
+      },
+    });
+
+    expect(schema).toEqual({
+      variables: [{ name: "speed", type: "number" }],
+      presets: [],
+      layers: ["Blur"],
+    });
+  });
+
+  it("falls back to UnicornVariableValue for unknown types", () => {
+    const schema = readSceneSchema({
+      history: [],
+      variables: { definitions: [{ name: "mixed", type: "value" }] },
+    });
+
+    expect(schema.variables).toEqual([
+      { name: "mixed", type: "UnicornVariableValue" },
+    ]);
+  });
+
+  it.each([null, [], "scene", { options: {} }])(
+    "throws for invalid scene JSON: %j",
+    (sceneJson) => {
+      expect(() => readSceneSchema(sceneJson)).toThrow(TypeError);
+    },
+  );
+});
+
+describe("generateSceneTypes", () => {
+  it("generates the schema types", () => {
+    expect(generateSceneTypes(SCENE_JSON, { typeName: "HeroScene" })).toBe(`/**
+ * Generated by \`unicornstudio-types\`.
+ * Do not edit this file manually.
+ */
+import type { UnicornVec2 } from "unicornstudio-react";
+
+export type HeroSceneVariables = {
+  brandColor: string;
+  intensity: number;
+  "show grain": boolean;
+  offset: UnicornVec2;
+};
+
+export type HeroScenePreset =
+  | "Day"
+  | "Night";
+
+export type HeroSceneLayer =
+  | "Background"
+  | "Title"
+  | "abc123";
+
+export type HeroScene = {
+  variables: HeroSceneVariables;
+  presets: HeroScenePreset;
+  layers: HeroSceneLayer;
+};
+`);
+  });
+
+  it("uses never for scenes without presets or layers", () => {
+    const source = generateSceneTypes({ layers: [] });
+
+    expect(source).not.toContain("import type");
+    expect(source).toContain("export type SceneVariables = {};");
+    expect(source).toContain("export type ScenePreset = never;");
+    expect(source).toContain("export type SceneLayer = never;");
+  });
+
+  it("imports the vector types from a custom module", () => {
+    const source = generateSceneTypes(SCENE_JSON, {
+      importSource: "@acme/scenes",
+    });
+
+    expect(source).toContain(
+      'import type { UnicornVec2 } from "@acme/scenes";',
+    );
+  });
+
+  it("rejects type names that aren't identifiers", () => {
+    expect(() =>
+      generateSceneTypes(SCENE_JSON, { typeName: "hero-scene" }),
+    ).toThrow(TypeError);
+  });
+});
+
+describe("getTypeNameFromPath", () => {
+  it.each([
+    ["scenes/hero.json", "HeroScene"],
+    ["pricing-bg.json", "PricingBgScene"],
+    ["landing_scene.json", "LandingScene"],
+    ["3d-logo.json", "_3dLogoScene"],
+  ])("derives a type name from %s", (filePath, typeName) => {
+    expect(getTypeNameFromPath(filePath)).toBe(typeName);
+  });
+});
+
+describe("runCli", () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (tmpDir) await fs.rm(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  async function writeScene(fileName: string, content: string) {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "unicorn-codegen-"));
+    const filePath = path.join(tmpDir, fileName);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  }
+
+  it("prints the types to stdout", async () => {
+    const stdout = vi.spyOn(process.stdout, "write").mockReturnValue(true);
+    const input = await writeScene("hero.json", JSON.stringify(SCENE_JSON));
+
+    expect(await runCli([input])).toBe(0);
+    expect(stdout).toHaveBeenCalledWith(
+      generateSceneTypes(SCENE_JSON, { typeName: "HeroScene" }),
+    );
+  });
+
+  it("writes the types to --out with a custom --name", async () => {
+    vi.spyOn(process.stdout, "write").mockReturnValue(true);
+    const input = await writeScene("hero.json", JSON.stringify(SCENE_JSON));
+    const out = path.join(path.dirname(input), "types", "hero.ts");
+
+    expect(await runCli([input, "--out", out, "--name", "Hero"])).toBe(0);
+    expect(await fs.readFile(out, "utf8")).toBe(
+      generateSceneTypes(SCENE_JSON, { typeName: "Hero" }),
+    );
+  });
+
+  it("prints the usage with --help", async () => {
+    const stdout = vi.spyOn(process.stdout, "write").mockReturnValue(true);
+
+    expect(await runCli(["--help"])).toBe(0);
+    expect(stdout).toHaveBeenCalledWith(expect.stringContaining("Usage:"));
+  });
+
+  it.each([
+    [[], "Usage:"],
+    [["--out"], "Missing value for --out"],
+    [["scene.json", "--watch"], "Unknown option: --watch"],
+    [["a.json", "b.json"], "Unexpected argument: b.json"],
+  ])("fails for the arguments %j", async (args, message) => {
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+
+    expect(await runCli(args)).toBe(1);
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining(message));
+  });
+
+  it("fails for files that aren't scene JSON", async () => {
+    const stderr = vi.spyOn(process.stderr, "write").mockReturnValue(true);
+    const input = await writeScene("broken.json", '{"options": {}}');
+
+    expect(await runCli([input])).toBe(1);
+    expect(stderr).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid scene JSON"),
+    );
+  });
+});
@@ -77,5 +77,6 @@ describe("constants", () => {
     expect(DEFAULT_VALUES.lazyLoad).toBe(true);
     expect(DEFAULT_VALUES.production).toBe(true);
     expect(DEFAULT_VALUES.paused).toBe(false);
+    expect(DEFAULT_VALUES.reducedMotion).toBe("pause");
   });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  UnicornSceneError,
+  UnicornSceneInitError,
+  UnicornSdkLoadError,
+  toUnicornSceneError,
+} from "../shared/errors";
+
+describe("UnicornSceneError", () => {
+  it("keeps code, phase and cause", () => {
+    const cause = new Error("original");
+    const error = new UnicornSceneError("Loading timeout", {
+      code: "TIMEOUT",
+      phase: "scene-init",
+      cause,
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("UnicornSceneError");
+    expect(error.code).toBe("TIMEOUT");
+    expect(error.phase).toBe("scene-init");
+    expect(error.cause).toBe(cause);
+  });
+
+  it("sets the phase from the subclass", () => {
+    const sdkError = new UnicornSdkLoadError("missing", "SDK_MISSING");
+    const initError = new UnicornSceneInitError("bad", "INVALID_PARAMS");
+
+    expect(sdkError).toBeInstanceOf(UnicornSceneError);
+    expect(sdkError.phase).toBe("sdk-load");
+    expect(sdkError.name).toBe("UnicornSdkLoadError");
+    expect(initError).toBeInstanceOf(UnicornSceneError);
+    expect(initError.phase).toBe("scene-init");
+    expect(initError.name).toBe("UnicornSceneInitError");
+  });
+});
+
+describe("toUnicornSceneError", () => {
+  it.each([
+    ["404 not found", "NOT_FOUND", "Resource not found"],
+    ["Failed to fetch", "NETWORK", "Network error occurred"],
+    [
+      "Error fetching data for project id 'x'",
+      "NETWORK",
+      "Error fetching data for project id 'x'",
+    ],
+    ["Network failure", "NETWORK", "Network error occurred"],
+    ["Scene initialization timeout", "TIMEOUT", "Loading timeout"],
+    ["WebGL context could not be created", "WEBGL_UNSUPPORTED", undefined],
+    ["Something odd", "UNKNOWN", "Something odd"],
+  ])("classifies %j as %s", (message, code, sanitized) => {
+    const error = toUnicornSceneError(new Error(message), "scene-init");
+
+    expect(error).toBeInstanceOf(UnicornSceneInitError);
+    expect(error.code).toBe(code);
+    expect(error.message).toBe(sanitized ?? message);
+  });
+
+  it("redacts URLs and file paths from the message", () => {
+    const error = toUnicornSceneError(
+      new Error("Could not parse https://example.com/scene.json at C:\\app"),
+      "scene-init",
+    );
+
+    expect(error.message).toBe("Could not parse [redacted] at [redacted]");
+    expect((error.cause as Error).message).toContain("https://example.com");
+  });
+
+  it("uses the sdk-load phase when requested", () => {
+    const error = toUnicornSceneError(new Error("boom"), "sdk-load");
+
+    expect(error).toBeInstanceOf(UnicornSdkLoadError);
+    expect(error.phase).toBe("sdk-load");
+  });
+
+  it("wraps non-Error values", () => {
+    const error = toUnicornSceneError("string error", "scene-init");
+
+    expect(error.message).toBe("Unknown error");
+    expect(error.code).toBe("UNKNOWN");
+    expect(error.cause).toBe("string error");
+  });
+
+  it("returns existing UnicornSceneErrors unchanged", () => {
+    const original = new UnicornSdkLoadError("missing", "SDK_MISSING");
+
+    expect(toUnicornSceneError(original, "scene-init")).toBe(original);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  moveScenePointer,
+  getTilt,
+  whenOrientationPermitted,
+} from "../shared/gyroscope";
+import type { UnicornStudioScene } from "../shared/types";
+
+const NEUTRAL = { beta: 45, gamma: 0 };
+
+function setScreenAngle(angle: number | undefined) {
+  Object.defineProperty(window, "orientation", {
+    value: angle,
+    configurable: true,
+  });
+}
+
+describe("getTilt", () => {
+  afterEach(() => {
+    setScreenAngle(undefined);
+  });
+
+  it("measures the tilt from the neutral orientation", () => {
+    expect(getTilt({ beta: 60, gamma: -15 }, NEUTRAL, 30)).toEqual({
+      x: -0.5,
+      y: 0.5,
+    });
+  });
+
+  it("clamps tilts beyond the range", () => {
+    expect(getTilt({ beta: 0, gamma: 80 }, NEUTRAL, 30)).toEqual({
+      x: 1,
+      y: -1,
+    });
+  });
+
+  it("measures across the wrap-around of beta", () => {
+    const tilt = getTilt({ beta: -175, gamma: 0 }, { beta: 175, gamma: 0 }, 20);
+
+    expect(tilt.y).toBeCloseTo(0.5);
+  });
+
+  it.each([
+    [90, { x: 0.5, y: -0.25 }],
+    [-90, { x: -0.5, y: 0.25 }],
+    [180, { x: -0.25, y: -0.5 }],
+  ])("rotates into a screen angle of %d", (angle, expected) => {
+    setScreenAngle(angle);
+
+    expect(getTilt({ beta: 60, gamma: 7.5 }, NEUTRAL, 30)).toEqual(expected);
+  });
+});
+
+describe("moveScenePointer", () => {
+  function createScene(isFixed = false) {
+    const element = document.createElement("div");
+    vi.spyOn(element, "getBoundingClientRect").mockReturnValue({
+      left: 100,
+      top: 200,
+      width: 400,
+      height: 300,
+    } as DOMRect);
+    const mouse = {
+      page: { x: 0, y: 0 },
+      movePos: { x: 0.5, y: 0.5 },
+      movedInView: false,
+    };
+    const scene = Object.assign(
+      { element, destroy: vi.fn() },
+      { isFixed, mouse },
+    ) as UnicornStudioScene;
+    return { scene, mouse };
+  }
+
+  beforeEach(() => {
+    window.scrollY = 50;
+  });
+
+  afterEach(() => {
+    window.scrollY = 0;
+    vi.restoreAllMocks();
+  });
+
+  it("moves the scene's pointer as its own listeners would", () => {
+    const { scene, mouse } = createScene();
+
+    moveScenePointer(scene, { x: 0.5, y: -1 });
+
+    expect(mouse).toEqual({
+      page: { x: 400, y: 250 },
+      movePos: { x: 150, y: 0 },
+      movedInView: true,
+    });
+  });
+
+  it("measures fixed scenes against the viewport", () => {
+    const { scene, mouse } = createScene(true);
+
+    moveScenePointer(scene, { x: 0, y: 0 });
+
+    expect(mouse.page).toEqual({ x: 300, y: 350 });
+    expect(mouse.movePos).toEqual({ x: 100, y: 75 });
+  });
+
+  it("dispatches no pointer events", () => {
+    const { scene } = createScene();
+    const listener = vi.fn();
+    window.addEventListener("mousemove", listener);
+    window.addEventListener("touchmove", listener);
+
+    moveScenePointer(scene, { x: 0, y: 0 });
+    window.removeEventListener("mousemove", listener);
+    window.removeEventListener("touchmove", listener);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("whenOrientationPermitted", () => {
+  let whenPermitted: typeof whenOrientationPermitted;
+
+  // Granted permission is kept for the module's lifetime
+  beforeEach(async () => {
+    vi.resetModules();
+    ({ whenOrientationPermitted: whenPermitted } =
+      await import("../shared/gyroscope"));
+  });
+
+  afterEach(() => {
+    delete (window as Record<string, unknown>).DeviceOrientationEvent;
+  });
+
+  function stubPermissionApi(requestPermission: () => Promise<string>) {
+    (window as Record<string, unknown>).DeviceOrientationEvent = class extends (
+      Event
+    ) {
+      static requestPermission = requestPermission;
+    };
+  }
+
+  it("starts right away without a permission API", () => {
+    (window as Record<string, unknown>).DeviceOrientationEvent = class extends (
+      Event
+    ) {};
+    const onGranted = vi.fn();
+
+    whenPermitted(onGranted);
+
+    expect(onGranted).toHaveBeenCalled();
+  });
+
+  it("requests permission on the next tap", async () => {
+    const requestPermission = vi
+      .fn()
+      .mockResolvedValueOnce("denied")
+      .mockResolvedValueOnce("granted");
+    stubPermissionApi(requestPermission);
+    const onGranted = vi.fn();
+
+    whenPermitted(onGranted);
+    expect(requestPermission).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event("touchend"));
+    await vi.waitFor(() => expect(requestPermission).toHaveBeenCalled());
+    expect(onGranted).not.toHaveBeenCalled();
+
+    whenPermitted(onGranted);
+    window.dispatchEvent(new Event("click"));
+    await vi.waitFor(() => expect(onGranted).toHaveBeenCalledTimes(1));
+
+    // Granted permission lasts for the page's lifetime
+    whenPermitted(onGranted);
+    expect(onGranted).toHaveBeenCalledTimes(2);
+    expect(requestPermission).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting when cancelled", () => {
+    const requestPermission = vi.fn().mockResolvedValue("granted");
+    stubPermissionApi(requestPermission);
+
+    whenPermitted(vi.fn())();
+    window.dispatchEvent(new Event("click"));
+
+    expect(requestPermission).not.toHaveBeenCalled();
+  });
+});
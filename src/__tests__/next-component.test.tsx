@@ -15,7 +15,6 @@ vi.mock("next/image", () => ({
 // Mock hooks at the paths the Next.js component imports from
 const mockUseUnicornStudioScript = vi.fn();
 const mockUseUnicornScene = vi.fn();
-const mockIsWebGLSupported = vi.fn();
 
 vi.mock("../next/hooks", () => ({
   useUnicornStudioScript: (...args: unknown[]) =>
@@ -23,11 +22,6 @@ vi.mock("../next/hooks", () => ({
   useUnicornScene: (...args: unknown[]) => mockUseUnicornScene(...args),
 }));
 
-vi.mock("../shared/utils", () => ({
-  isWebGLSupported: () => mockIsWebGLSupported(),
-  validateParameters: () => null,
-}));
-
 import { UnicornScene } from "../next";
 
 beforeEach(() => {
@@ -38,8 +32,7 @@ beforeEach(() => {
     handleScriptLoad: vi.fn(),
     handleScriptError: vi.fn(),
   });
-  mockUseUnicornScene.mockReturnValue({ error: null });
-  mockIsWebGLSupported.mockReturnValue(true);
+  mockUseUnicornScene.mockReturnValue({ error: null, status: "idle" });
 });
 
 describe("UnicornScene (Next.js)", () => {
@@ -57,12 +50,16 @@ describe("UnicornScene (Next.js)", () => {
     );
     expect(mockUseUnicornStudioScript).toHaveBeenCalledWith(
       "https://custom-cdn.example.com/sdk.js",
+      { timeout: undefined, signal: undefined },
     );
   });
 
   it("uses the bundled SDK loader when sdkUrl is omitted", () => {
     render(<UnicornScene projectId="test-id" />);
-    expect(mockUseUnicornStudioScript).toHaveBeenCalledWith(undefined);
+    expect(mockUseUnicornStudioScript).toHaveBeenCalledWith(undefined, {
+      timeout: undefined,
+      signal: undefined,
+    });
   });
 
   it("applies custom className", () => {
@@ -99,6 +96,7 @@ describe("UnicornScene (Next.js)", () => {
     });
     mockUseUnicornScene.mockReturnValue({
       error: new Error("Scene failed"),
+      status: "error",
     });
 
     render(<UnicornScene projectId="test-id" />);
@@ -113,7 +111,7 @@ describe("UnicornScene (Next.js)", () => {
       handleScriptLoad: vi.fn(),
       handleScriptError: vi.fn(),
     });
-    mockUseUnicornScene.mockReturnValue({ error: null });
+    mockUseUnicornScene.mockReturnValue({ error: null, status: "idle" });
 
     render(<UnicornScene projectId="test-id" />);
     expect(screen.getByText("Error loading scene")).toBeInTheDocument();
@@ -178,6 +176,7 @@ describe("UnicornScene (Next.js)", () => {
   it("hides error display when placeholder is present on error", () => {
     mockUseUnicornScene.mockReturnValue({
       error: new Error("Scene failed"),
+      status: "error",
     });
 
     render(
@@ -244,4 +243,344 @@ describe("UnicornScene (Next.js)", () => {
       }),
     );
   });
+
+  it("reports status changes through onStatusChange", () => {
+    const onStatusChange = vi.fn();
+    const { rerender } = render(
+      <UnicornScene projectId="test-id" onStatusChange={onStatusChange} />,
+    );
+    expect(onStatusChange).toHaveBeenLastCalledWith("idle");
+
+    mockUseUnicornScene.mockReturnValue({ error: null, status: "ready" });
+    rerender(
+      <UnicornScene projectId="test-id" onStatusChange={onStatusChange} />,
+    );
+    expect(onStatusChange).toHaveBeenLastCalledWith("ready");
+    expect(onStatusChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a script load failure as the error status", () => {
+    mockUseUnicornStudioScript.mockReturnValue({
+      isLoaded: false,
+      error: new Error("Script load failed"),
+      handleScriptLoad: vi.fn(),
+      handleScriptError: vi.fn(),
+    });
+    const onStatusChange = vi.fn();
+
+    render(
+      <UnicornScene projectId="test-id" onStatusChange={onStatusChange} />,
+    );
+    expect(onStatusChange).toHaveBeenCalledWith("error");
+  });
+
+  it("renders children as a function of the scene status", () => {
+    mockUseUnicornScene.mockReturnValue({
+      error: null,
+      status: "initializing",
+    });
+
+    render(
+      <UnicornScene projectId="test-id">
+        {({ status }) => <span data-testid="status">{status}</span>}
+      </UnicornScene>,
+    );
+    expect(screen.getByTestId("status")).toHaveTextContent("initializing");
+  });
+
+  it("hides the loading placeholder once the scene is ready", () => {
+    mockUseUnicornScene.mockReturnValue({ error: null, status: "ready" });
+
+    render(<UnicornScene projectId="test-id" placeholder="/loading.png" />);
+    expect(screen.queryByAltText("Scene")).not.toBeInTheDocument();
+  });
+
+  it("keeps the placeholder hidden while transitioning between scenes", () => {
+    mockUseUnicornScene.mockReturnValue({
+      error: null,
+      status: "initializing",
+      transitioning: true,
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        placeholder="/loading.png"
+        transition="crossfade"
+      />,
+    );
+
+    expect(screen.queryByAltText("Scene")).not.toBeInTheDocument();
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ transition: "crossfade" }),
+    );
+  });
+
+  it("renders errorFallback with a retry callback", () => {
+    const retry = vi.fn();
+    mockUseUnicornScene.mockReturnValue({
+      error: new Error("Scene failed"),
+      status: "error",
+      retry,
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        errorFallback={(error, onRetry) => (
+          <button onClick={onRetry}>Retry: {error.message}</button>
+        )}
+      />,
+    );
+
+    expect(screen.queryByText("Error loading scene")).not.toBeInTheDocument();
+    screen.getByText("Retry: Scene failed").click();
+    expect(retry).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries the SDK load when the script failed", () => {
+    const retryScript = vi.fn();
+    mockUseUnicornStudioScript.mockReturnValue({
+      isLoaded: false,
+      error: new Error("Script load failed"),
+      handleScriptLoad: vi.fn(),
+      handleScriptError: vi.fn(),
+      retry: retryScript,
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        errorFallback={(_error, onRetry) => (
+          <button onClick={onRetry}>Retry</button>
+        )}
+      />,
+    );
+
+    screen.getByText("Retry").click();
+    expect(retryScript).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the retry policy to useUnicornScene", () => {
+    render(<UnicornScene projectId="test-id" retry={{ attempts: 2 }} />);
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ retry: { attempts: 2 } }),
+    );
+  });
+
+  it("passes adaptive quality options to useUnicornScene", () => {
+    const onQualityChange = vi.fn();
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        adaptiveQuality={{ cooldown: 5000 }}
+        onQualityChange={onQualityChange}
+      />,
+    );
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({
+        adaptiveQuality: { cooldown: 5000 },
+        onQualityChange,
+      }),
+    );
+  });
+
+  it("passes pauseWhenOffscreen to useUnicornScene", () => {
+    render(
+      <UnicornScene
+        projectId="test-id"
+        pauseWhenOffscreen={{ threshold: 0.5 }}
+      />,
+    );
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paused: false,
+        pauseWhenOffscreen: { threshold: 0.5 },
+      }),
+    );
+  });
+
+  it("pauses for reduced motion by default", () => {
+    render(<UnicornScene projectId="test-id" />);
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ reducedMotion: "pause" }),
+    );
+  });
+
+  it("shows the placeholder instead of the scene for reduced motion", () => {
+    mockUseUnicornScene.mockReturnValue({
+      error: null,
+      status: "idle",
+      prefersReducedMotion: true,
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        placeholder="/still.png"
+        showPlaceholderWhileLoading={false}
+        reducedMotion="placeholder"
+      />,
+    );
+
+    expect(screen.getByAltText("Scene")).toBeInTheDocument();
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ reducedMotion: "placeholder" }),
+    );
+  });
+
+  it("falls back to pausing for reduced motion without a placeholder", () => {
+    render(<UnicornScene projectId="test-id" reducedMotion="placeholder" />);
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ reducedMotion: "pause" }),
+    );
+  });
+
+  it("shows the placeholder while the scheduler suspends the scene", () => {
+    mockUseUnicornScene.mockReturnValue({
+      error: null,
+      status: "idle",
+      suspended: true,
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        placeholder="/still.png"
+        showPlaceholderWhileLoading={false}
+        priority={2}
+      />,
+    );
+
+    expect(screen.getByAltText("Scene")).toBeInTheDocument();
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ priority: 2 }),
+    );
+  });
+
+  it("shows the placeholder on devices below minCapabilities", () => {
+    const minCapabilities = { webgl2: true };
+    mockUseUnicornScene.mockReturnValue({
+      error: null,
+      status: "idle",
+      unsupported: true,
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        placeholder="/still.png"
+        showPlaceholderWhileLoading={false}
+        minCapabilities={minCapabilities}
+      />,
+    );
+
+    expect(screen.getByAltText("Scene")).toBeInTheDocument();
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ minCapabilities }),
+    );
+  });
+
+  it("portals a fixed scene to document.body as a backdrop", () => {
+    const { container } = render(<UnicornScene projectId="test-id" fixed />);
+
+    const backdrop = document.body.lastElementChild as HTMLElement;
+    expect(container.firstElementChild).toBeNull();
+    expect(backdrop.style.position).toBe("fixed");
+    expect(backdrop.style.zIndex).toBe("-1");
+    expect(backdrop.style.pointerEvents).toBe("none");
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ fixed: true }),
+    );
+  });
+
+  it("applies the zIndex of a fixed scene", () => {
+    render(<UnicornScene projectId="test-id" fixed={{ zIndex: 5 }} />);
+
+    const backdrop = document.body.lastElementChild as HTMLElement;
+    expect(backdrop.style.zIndex).toBe("5");
+  });
+
+  it("keeps the fallback and children of a fixed scene interactive", () => {
+    mockUseUnicornScene.mockReturnValue({
+      error: new Error("Scene failed"),
+      status: "error",
+      retry: vi.fn(),
+    });
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        fixed
+        errorFallback={(_error, onRetry) => (
+          <button onClick={onRetry}>Retry</button>
+        )}
+      >
+        <p>Overlay</p>
+      </UnicornScene>,
+    );
+
+    const backdrop = document.body.lastElementChild as HTMLElement;
+    const content = screen.getByText("Retry").parentElement as HTMLElement;
+    expect(backdrop.style.pointerEvents).toBe("none");
+    expect(content.style.pointerEvents).toBe("auto");
+    expect(screen.getByText("Overlay").parentElement).toBe(content);
+  });
+
+  it("passes interactivity to useUnicornScene", () => {
+    const interactivity = { mouse: { disabled: true } };
+
+    render(<UnicornScene projectId="test-id" interactivity={interactivity} />);
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ interactivity }),
+    );
+  });
+
+  it("passes controls to useUnicornScene", () => {
+    const controls = { title: "Hero", force: true };
+
+    render(<UnicornScene projectId="test-id" controls={controls} />);
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ controls }),
+    );
+  });
+
+  it("passes onContextLost to useUnicornScene", () => {
+    const onContextLost = vi.fn();
+
+    render(<UnicornScene projectId="test-id" onContextLost={onContextLost} />);
+
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ onContextLost }),
+    );
+  });
+
+  it("splits per-phase init timeouts between the SDK and scene hooks", () => {
+    const controller = new AbortController();
+    const initTimeout = { sdkLoad: 5000, addScene: 8000 };
+
+    render(
+      <UnicornScene
+        projectId="test-id"
+        initTimeout={initTimeout}
+        signal={controller.signal}
+      />,
+    );
+
+    expect(mockUseUnicornStudioScript).toHaveBeenCalledWith(undefined, {
+      timeout: 5000,
+      signal: controller.signal,
+    });
+    expect(mockUseUnicornScene).toHaveBeenCalledWith(
+      expect.objectContaining({ initTimeout, signal: controller.signal }),
+    );
+  });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getDefinitionsVersion,
+  readPersistedState,
+  removePersistedState,
+  resolvePersistStorage,
+  writePersistedState,
+} from "../shared/persist";
+import type {
+  UnicornPersistStorage,
+  UnicornStudioScene,
+  UnicornVariableDefinition,
+} from "../shared/types";
+
+function createScene(definitions: UnicornVariableDefinition[]) {
+  const scene: UnicornStudioScene = {
+    element: document.createElement("div"),
+    destroy: vi.fn(),
+    getVariableDefinitions: () => definitions,
+  };
+  return scene;
+}
+
+describe("getDefinitionsVersion", () => {
+  const intensity = { id: "v1", name: "intensity", type: "number" };
+  const tint = { id: "v2", name: "tint", type: "color" };
+
+  it("ignores the order and everything but IDs, names, and types", () => {
+    expect(getDefinitionsVersion(createScene([intensity, tint]))).toBe(
+      getDefinitionsVersion(
+        createScene([tint, { ...intensity, defaultValue: 1 }]),
+      ),
+    );
+  });
+
+  it("changes with the variables", () => {
+    const version = getDefinitionsVersion(createScene([intensity, tint]));
+
+    expect(getDefinitionsVersion(createScene([intensity]))).not.toBe(version);
+    expect(
+      getDefinitionsVersion(
+        createScene([intensity, { ...tint, type: "vec3" }]),
+      ),
+    ).not.toBe(version);
+  });
+});
+
+describe("readPersistedState / writePersistedState", () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("round-trips the state", () => {
+    const state = {
+      version: "abc",
+      preset: "Night",
+      variables: { intensity: 0.8, offset: { type: "Vec2", x: 1, y: 0 } },
+    } as const;
+
+    writePersistedState(localStorage, "hero", state);
+
+    expect(readPersistedState(localStorage, "hero")).toEqual(state);
+    removePersistedState(localStorage, "hero");
+    expect(readPersistedState(localStorage, "hero")).toBeNull();
+  });
+
+  it("ignores entries it can't read", () => {
+    localStorage.setItem("invalid", "{");
+    localStorage.setItem("foreign", JSON.stringify({ theme: "dark" }));
+
+    expect(readPersistedState(localStorage, "invalid")).toBeNull();
+    expect(readPersistedState(localStorage, "foreign")).toBeNull();
+  });
+
+  it("ignores storage failures", () => {
+    const storage: UnicornPersistStorage = {
+      getItem: () => {
+        throw new Error("SecurityError");
+      },
+      setItem: () => {
+        throw new Error("QuotaExceededError");
+      },
+      removeItem: vi.fn(),
+    };
+
+    expect(readPersistedState(storage, "hero")).toBeNull();
+    expect(() =>
+      writePersistedState(storage, "hero", { version: "", variables: {} }),
+    ).not.toThrow();
+  });
+});
+
+describe("resolvePersistStorage", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("resolves the web storages and custom adapters", () => {
+    const adapter: UnicornPersistStorage = {
+      getItem: () => null,
+      setItem: vi.fn(),
+      removeItem: vi.fn(),
+    };
+
+    expect(resolvePersistStorage()).toBe(localStorage);
+    expect(resolvePersistStorage("session")).toBe(sessionStorage);
+    expect(resolvePersistStorage(adapter)).toBe(adapter);
+  });
+
+  it("resolves nothing where the browser blocks storage", () => {
+    vi.spyOn(window, "localStorage", "get").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+
+    expect(resolvePersistStorage("local")).toBeNull();
+  });
+});
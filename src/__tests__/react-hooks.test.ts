@@ -80,4 +80,64 @@ describe("useUnicornStudioScript (React)", () => {
     expect(typeof result.current.handleScriptLoad).toBe("function");
     expect(typeof result.current.handleScriptError).toBe("function");
   });
+
+  it("retries loading after a failure", async () => {
+    mockLoadUnicornStudioSdk.mockRejectedValueOnce(new Error("Load failed"));
+    const { result } = renderHook(() => useUnicornStudioScript());
+
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(result.current.error).toBeInstanceOf(Error);
+
+    await act(async () => {
+      result.current.retry();
+      await Promise.resolve();
+    });
+
+    expect(mockLoadUnicornStudioSdk).toHaveBeenCalledTimes(2);
+    expect(result.current.isLoaded).toBe(true);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("rejects with a timeout when the SDK takes too long", async () => {
+    vi.useFakeTimers();
+    try {
+      mockLoadUnicornStudioSdk.mockReturnValue(new Promise(() => {}));
+      const { result } = renderHook(() =>
+        useUnicornStudioScript(undefined, { timeout: 1000 }),
+      );
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(1000);
+      });
+
+      expect(result.current.isLoaded).toBe(false);
+      expect(result.current.error?.message).toContain("timeout");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("stops waiting for the SDK when the signal aborts", async () => {
+    let resolveLoad!: () => void;
+    mockLoadUnicornStudioSdk.mockReturnValue(
+      new Promise<void>((resolve) => {
+        resolveLoad = resolve;
+      }),
+    );
+    const controller = new AbortController();
+
+    const { result } = renderHook(() =>
+      useUnicornStudioScript(undefined, { signal: controller.signal }),
+    );
+
+    controller.abort();
+    await act(async () => {
+      resolveLoad();
+    });
+
+    expect(result.current.isLoaded).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
 });
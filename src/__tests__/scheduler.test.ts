@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  configureSceneScheduler,
+  getMaxActiveScenes,
+  registerScene,
+  subscribeSceneScheduler,
+  type SceneRegistration,
+} from "../shared/scheduler";
+
+describe("scene scheduler", () => {
+  const registrations: SceneRegistration[] = [];
+
+  function register(priority = 0, onActiveChange = vi.fn()) {
+    const registration = registerScene(priority, onActiveChange);
+    registrations.push(registration);
+    return registration;
+  }
+
+  afterEach(() => {
+    registrations.splice(0).forEach((registration) => {
+      registration.unregister();
+    });
+    configureSceneScheduler({ maxActiveScenes: Infinity });
+  });
+
+  it("keeps every scene active without a budget", () => {
+    const scenes = [register(), register(), register()];
+
+    expect(scenes.every((scene) => scene.active)).toBe(true);
+  });
+
+  it("suspends the scenes over the budget", () => {
+    configureSceneScheduler({ maxActiveScenes: 2 });
+    const [first, second, third] = [register(), register(), register()];
+
+    expect(first.active).toBe(true);
+    expect(second.active).toBe(true);
+    expect(third.active).toBe(false);
+  });
+
+  it("keeps higher priority scenes first", () => {
+    configureSceneScheduler({ maxActiveScenes: 1 });
+    const onLowChange = vi.fn();
+    const low = register(0, onLowChange);
+    const high = register(10);
+
+    expect(high.active).toBe(true);
+    expect(low.active).toBe(false);
+    expect(onLowChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it("prefers visible scenes, then the most recently visible", () => {
+    configureSceneScheduler({ maxActiveScenes: 1 });
+    const first = register();
+    const second = register();
+
+    second.setVisible(true);
+    expect(second.active).toBe(true);
+    expect(first.active).toBe(false);
+
+    first.setVisible(true);
+    second.setVisible(false);
+    expect(first.active).toBe(true);
+
+    first.setVisible(false);
+    expect(first.active).toBe(true);
+    expect(second.active).toBe(false);
+  });
+
+  it("re-activates a suspended scene when a slot frees up", () => {
+    configureSceneScheduler({ maxActiveScenes: 1 });
+    const first = register();
+    const onSecondChange = vi.fn();
+    const second = register(0, onSecondChange);
+
+    first.unregister();
+
+    expect(second.active).toBe(true);
+    expect(onSecondChange).toHaveBeenLastCalledWith(true);
+  });
+
+  it("notifies suspended scenes before activated ones", () => {
+    configureSceneScheduler({ maxActiveScenes: 1 });
+    const calls: string[] = [];
+    const first = register(0, (active) => calls.push(`first:${active}`));
+    register(0, (active) => calls.push(`second:${active}`));
+    calls.length = 0;
+
+    first.setPriority(-1);
+
+    expect(calls).toEqual(["first:false", "second:true"]);
+  });
+
+  it("applies a new budget immediately and notifies subscribers", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeSceneScheduler(listener);
+    const [first, second] = [register(), register()];
+
+    configureSceneScheduler({ maxActiveScenes: 1 });
+
+    expect(getMaxActiveScenes()).toBe(1);
+    expect(first.active).toBe(true);
+    expect(second.active).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("rejects a negative budget", () => {
+    expect(() => configureSceneScheduler({ maxActiveScenes: -1 })).toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getScrollProgress,
+  resolveScrollContainer,
+  sampleScrollVariables,
+} from "../shared/scroll";
+
+function mockRect(element: Element, top: number, height: number) {
+  vi.spyOn(element, "getBoundingClientRect").mockReturnValue({
+    top,
+    height,
+  } as DOMRect);
+}
+
+describe("sampleScrollVariables", () => {
+  it("interpolates numbers between keyframes", () => {
+    expect(
+      sampleScrollVariables(
+        {
+          intensity: [
+            [0, 0.5],
+            [1, 1],
+          ],
+        },
+        0.5,
+      ),
+    ).toEqual({ intensity: 0.75 });
+  });
+
+  it("interpolates hex colors and vectors", () => {
+    const values = sampleScrollVariables(
+      {
+        tint: [
+          [0, "#000000"],
+          [1, "#ffffff"],
+        ],
+        offset: [
+          [0, { type: "Vec2", x: 0, y: 0 }],
+          [1, { type: "Vec2", x: 2, y: -2 }],
+        ],
+      },
+      0.5,
+    );
+
+    expect(values.tint).toMatch(/^#[0-9a-f]{6}$/);
+    expect(values.offset).toEqual({ type: "Vec2", x: 1, y: -1 });
+  });
+
+  it("samples the segment containing the progress, in any keyframe order", () => {
+    const timeline = {
+      intensity: [
+        [1, 0],
+        [0, 0],
+        [0.5, 1],
+      ] as [number, number][],
+    };
+
+    expect(sampleScrollVariables(timeline, 0.25)).toEqual({ intensity: 0.5 });
+    expect(sampleScrollVariables(timeline, 0.75)).toEqual({ intensity: 0.5 });
+  });
+
+  it("holds values that can't be interpolated until the next keyframe", () => {
+    const timeline = {
+      grain: [
+        [0, false],
+        [0.5, true],
+      ] as [number, boolean][],
+    };
+
+    expect(sampleScrollVariables(timeline, 0.49)).toEqual({ grain: false });
+    expect(sampleScrollVariables(timeline, 0.5)).toEqual({ grain: true });
+  });
+
+  it("clamps to the first and last keyframes by default", () => {
+    const timeline = {
+      intensity: [
+        [0.2, 0],
+        [0.8, 1],
+      ] as [number, number][],
+    };
+
+    expect(sampleScrollVariables(timeline, -1)).toEqual({ intensity: 0 });
+    expect(sampleScrollVariables(timeline, 2)).toEqual({ intensity: 1 });
+  });
+
+  it("extrapolates the nearest segment without clamping", () => {
+    const timeline = {
+      intensity: [
+        [0, 0],
+        [1, 1],
+      ] as [number, number][],
+    };
+
+    expect(sampleScrollVariables(timeline, 1.5, { clamp: false })).toEqual({
+      intensity: 1.5,
+    });
+    expect(sampleScrollVariables(timeline, -0.5, { clamp: false })).toEqual({
+      intensity: -0.5,
+    });
+  });
+
+  it("eases within segments, with per-track easing taking precedence", () => {
+    const values = sampleScrollVariables(
+      {
+        a: [
+          [0, 0],
+          [1, 1],
+        ],
+        b: {
+          keyframes: [
+            [0, 0],
+            [1, 1],
+          ],
+          easing: "linear",
+        },
+      },
+      0.25,
+      { easing: "ease-in" },
+    );
+
+    expect(values).toEqual({ a: 0.25 ** 3, b: 0.25 });
+  });
+
+  it("skips variables without keyframes", () => {
+    expect(sampleScrollVariables({ intensity: [] }, 0.5)).toEqual({});
+  });
+});
+
+describe("getScrollProgress", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("measures the container passing through the window", () => {
+    const element = document.createElement("div");
+    vi.spyOn(window, "innerHeight", "get").mockReturnValue(800);
+
+    mockRect(element, 800, 200);
+    expect(getScrollProgress(element, "container", null)).toBe(0);
+
+    mockRect(element, 300, 200);
+    expect(getScrollProgress(element, "container", null)).toBe(0.5);
+
+    mockRect(element, -200, 200);
+    expect(getScrollProgress(element, "container", null)).toBe(1);
+  });
+
+  it("measures the container against a scroll container", () => {
+    const element = document.createElement("div");
+    const scrollContainer = document.createElement("div");
+    mockRect(scrollContainer, 100, 400);
+    mockRect(element, 200, 200);
+
+    expect(getScrollProgress(element, "container", scrollContainer)).toBe(0.5);
+  });
+
+  it("measures the scroll position of the page", () => {
+    const scrollContainer = document.createElement("div");
+    Object.defineProperties(scrollContainer, {
+      scrollTop: { value: 250 },
+      scrollHeight: { value: 1500 },
+      clientHeight: { value: 500 },
+    });
+
+    expect(
+      getScrollProgress(document.createElement("div"), "page", scrollContainer),
+    ).toBe(0.25);
+  });
+
+  it("reports no progress for a page that can't scroll", () => {
+    expect(getScrollProgress(document.createElement("div"), "page", null)).toBe(
+      0,
+    );
+  });
+});
+
+describe("resolveScrollContainer", () => {
+  it("resolves refs and elements, and the window otherwise", () => {
+    const element = document.createElement("div");
+
+    expect(resolveScrollContainer({ current: element })).toBe(element);
+    expect(resolveScrollContainer(element)).toBe(element);
+    expect(resolveScrollContainer(undefined)).toBeNull();
+  });
+});
@@ -155,4 +155,14 @@ describe("loadUnicornStudioSdk", () => {
       document.querySelector('script[src="https://cdn.example.com/sdk.js"]'),
     ).not.toBeNull();
   });
+
+  it("rejects with an SDK_MISSING error when bundled files are unavailable", async () => {
+    mockBundledSdk.available = false;
+
+    await expect(loadBundledSdk()).rejects.toMatchObject({
+      name: "UnicornSdkLoadError",
+      code: "SDK_MISSING",
+      phase: "sdk-load",
+    });
+  });
 });
@@ -35,4 +35,48 @@ class MockResizeObserver {
 
 vi.stubGlobal("ResizeObserver", MockResizeObserver);
 
-export { MockResizeObserver };
+// jsdom does not provide IntersectionObserver either — the mock records its
+// options and lets tests simulate the container entering or leaving view.
+type IntersectionCallback = (entries: IntersectionObserverEntry[]) => void;
+
+class MockIntersectionObserver {
+  static instances: MockIntersectionObserver[] = [];
+
+  callback: IntersectionCallback;
+  options: IntersectionObserverInit;
+  elements: Set<Element> = new Set();
+
+  constructor(
+    callback: IntersectionCallback,
+    options: IntersectionObserverInit = {},
+  ) {
+    this.callback = callback;
+    this.options = options;
+    MockIntersectionObserver.instances.push(this);
+  }
+
+  observe(target: Element) {
+    this.elements.add(target);
+  }
+  unobserve(target: Element) {
+    this.elements.delete(target);
+  }
+  takeRecords() {
+    return [];
+  }
+  disconnect = vi.fn(() => {
+    this.elements.clear();
+  });
+
+  /** Test helper: fire the callback with a minimal entry for `target`. */
+  simulateIntersection(
+    target: Element,
+    entry: Partial<IntersectionObserverEntry> & { isVisible?: boolean },
+  ) {
+    this.callback([{ target, ...entry } as IntersectionObserverEntry]);
+  }
+}
+
+vi.stubGlobal("IntersectionObserver", MockIntersectionObserver);
+
+export { MockResizeObserver, MockIntersectionObserver };
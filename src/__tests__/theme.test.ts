@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  normalizeThemeValue,
+  parseCssColor,
+  parseThemeSource,
+  readThemeBindings,
+} from "../shared/theme";
+
+describe("parseThemeSource", () => {
+  it("parses custom properties, with fallbacks", () => {
+    expect(parseThemeSource("var(--brand-500)")).toEqual({
+      kind: "property",
+      name: "--brand-500",
+    });
+    expect(parseThemeSource("var( --brand , rgb(0, 0, 0) )")).toEqual({
+      kind: "property",
+      name: "--brand",
+      fallback: "rgb(0, 0, 0)",
+    });
+  });
+
+  it("parses media queries", () => {
+    expect(parseThemeSource("prefers-color-scheme")).toEqual({
+      kind: "media",
+      query: "(prefers-color-scheme: dark)",
+    });
+    expect(parseThemeSource("(prefers-contrast: more)")).toEqual({
+      kind: "media",
+      query: "(prefers-contrast: more)",
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseThemeSource("--brand" as "var(--brand)")).toBeNull();
+  });
+});
+
+describe("parseCssColor", () => {
+  it.each([
+    ["#7C3AED", "#7c3aed"],
+    ["#fa0", "#ffaa00"],
+    ["#ff000080", "#ff000080"],
+    ["rgb(124, 58, 237)", "#7c3aed"],
+    ["rgb(100% 0% 0% / 50%)", "#ff000080"],
+    ["rgba(0, 0, 255, 1)", "#0000ff"],
+    ["hsl(120deg 100% 25%)", "#008000"],
+    ["hsla(0, 100%, 50%, 0.5)", "#ff000080"],
+    ["oklab(1 0 0)", "#ffffff"],
+    ["oklch(0% 0 0)", "#000000"],
+    ["oklch(0.628 0.2577 29.23)", "#ff0000"],
+  ])("converts %s", (text, hex) => {
+    expect(parseCssColor(text)).toBe(hex);
+  });
+
+  it("rejects values that aren't colors", () => {
+    expect(parseCssColor("#12345")).toBeNull();
+    expect(parseCssColor("rgb(1, 2)")).toBeNull();
+    expect(parseCssColor("lab(50 0 0)")).toBeNull();
+    expect(parseCssColor("12px")).toBeNull();
+  });
+});
+
+describe("normalizeThemeValue", () => {
+  it("converts to the variable's type", () => {
+    expect(normalizeThemeValue(" 12px", "number")).toBe(12);
+    expect(normalizeThemeValue("50%", "number")).toBe(0.5);
+    expect(normalizeThemeValue("1", "boolean")).toBe(true);
+    expect(normalizeThemeValue(true, "number")).toBe(1);
+    expect(normalizeThemeValue("0.5, -1", "vec2")).toEqual({
+      type: "Vec2",
+      x: 0.5,
+      y: -1,
+    });
+    expect(normalizeThemeValue('url("/a.png")', "texture")).toBe("/a.png");
+    expect(normalizeThemeValue("'Inter'", "string")).toBe("Inter");
+  });
+
+  it("rejects values of another type", () => {
+    expect(normalizeThemeValue("bold", "number")).toBeNull();
+    expect(normalizeThemeValue("1 2 3", "vec2")).toBeNull();
+    expect(normalizeThemeValue(true, "color")).toBeNull();
+  });
+
+  it("infers the type without a definition", () => {
+    expect(normalizeThemeValue("true")).toBe(true);
+    expect(normalizeThemeValue("0.8")).toBe(0.8);
+    expect(normalizeThemeValue("1 2 3")).toEqual({
+      type: "Vec3",
+      x: 1,
+      y: 2,
+      z: 3,
+    });
+    expect(normalizeThemeValue("hsl(0 100% 50%)")).toBe("#ff0000");
+    expect(normalizeThemeValue("Inter")).toBe("Inter");
+  });
+});
+
+describe("readThemeBindings", () => {
+  afterEach(() => {
+    delete (window as Partial<Window>).matchMedia;
+  });
+
+  it("reads custom properties and media queries on the element", () => {
+    const element = document.createElement("div");
+    element.style.setProperty("--brand", "rgb(124, 58, 237)");
+    element.style.setProperty("--radius", "0.25");
+    window.matchMedia = vi.fn((query: string) => ({
+      matches: query === "(prefers-color-scheme: dark)",
+    })) as unknown as typeof window.matchMedia;
+
+    expect(
+      readThemeBindings(
+        element,
+        {
+          brandColor: "var(--brand)",
+          radius: "var(--radius)",
+          darkMode: "prefers-color-scheme",
+          contrast: "(prefers-contrast: more)",
+          accent: "var(--accent, #000)",
+          missing: "var(--missing)",
+        },
+        [{ id: "v1", name: "radius", type: "string" }],
+      ),
+    ).toEqual({
+      brandColor: "#7c3aed",
+      radius: "0.25",
+      darkMode: true,
+      contrast: false,
+      accent: "#000000",
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  decodeVariableValue,
+  encodeVariableValue,
+  getChangedVariables,
+  readUrlState,
+  writeUrlState,
+} from "../shared/url-state";
+import type { UnicornStudioScene, UnicornVariables } from "../shared/types";
+
+describe("encodeVariableValue / decodeVariableValue", () => {
+  it.each([
+    [0.35, "0.35"],
+    [-2, "-2"],
+    [true, "t"],
+    [false, "f"],
+    ["#7c3aed", "x7c3aed"],
+    ["https://example.com/a.png", "shttps://example.com/a.png"],
+    ["t", "st"],
+    [{ type: "Vec2", x: 0.5, y: -1 }, "0.5_-1"],
+    [{ type: "Vec3", x: 1, y: 0, z: -0.25 }, "1_0_-0.25"],
+  ] as const)("round-trips %j as %s", (value, text) => {
+    expect(encodeVariableValue(value)).toBe(text);
+    expect(decodeVariableValue(text)).toEqual(value);
+  });
+
+  it("leaves out values that can't be restored", () => {
+    expect(encodeVariableValue(NaN)).toBeNull();
+    expect(encodeVariableValue({ type: "Vec2", x: Infinity, y: 0 })).toBeNull();
+  });
+
+  it("rejects invalid encodings", () => {
+    expect(decodeVariableValue("xnothex")).toBeNull();
+    expect(decodeVariableValue("1_a")).toBeNull();
+    expect(decodeVariableValue("1_2_3_4")).toBeNull();
+    expect(decodeVariableValue("unknown")).toBeNull();
+    expect(decodeVariableValue("")).toBeNull();
+  });
+});
+
+describe("readUrlState / writeUrlState", () => {
+  it("writes the state under its parameter and keeps the others", () => {
+    const query = writeUrlState("?ref=home&scene.old=1", "scene", {
+      preset: "Night",
+      variables: { intensity: 0.8, tint: "#7c3aed" },
+    });
+
+    expect(query).toBe(
+      "ref=home&scene=Night&scene.intensity=0.8&scene.tint=x7c3aed",
+    );
+    expect(readUrlState(`?${query}`, "scene")).toEqual({
+      preset: "Night",
+      variables: { intensity: 0.8, tint: "#7c3aed" },
+    });
+  });
+
+  it("reads only the listed variables and skips invalid values", () => {
+    expect(
+      readUrlState(
+        "?scene.intensity=0.8&scene.tint=xzz&scene.grain=t",
+        "scene",
+        ["intensity", "tint"],
+      ),
+    ).toEqual({ variables: { intensity: 0.8 } });
+  });
+});
+
+describe("getChangedVariables", () => {
+  function createScene(values: UnicornVariables): UnicornStudioScene {
+    return {
+      element: document.createElement("div"),
+      destroy: vi.fn(),
+      getVariables: () => values,
+      getVariableDefinitions: () => [
+        { id: "v1", name: "intensity", type: "number", defaultValue: 0.5 },
+        {
+          id: "v2",
+          name: "offset",
+          type: "vec2",
+          defaultValue: { type: "Vec2", x: 0, y: 0 },
+        },
+        { id: "v3", name: "grain", type: "boolean" },
+      ],
+      getPreset: (name) =>
+        name === "Night" ? { id: "p1", name, values: { v1: 0.9 } } : null,
+    };
+  }
+
+  it("compares values to the defaults", () => {
+    const scene = createScene({
+      intensity: 0.5,
+      offset: { type: "Vec2", x: 1, y: 0 },
+      grain: false,
+    });
+
+    expect(getChangedVariables(scene, undefined)).toEqual({
+      offset: { type: "Vec2", x: 1, y: 0 },
+      grain: false,
+    });
+    expect(getChangedVariables(scene, undefined, ["intensity"])).toEqual({});
+  });
+
+  it("compares values to the preset's", () => {
+    const scene = createScene({
+      intensity: 0.9,
+      offset: { type: "Vec2", x: 0, y: 0 },
+    });
+
+    expect(getChangedVariables(scene, "Night")).toEqual({});
+    expect(getChangedVariables(scene, undefined)).toEqual({ intensity: 0.9 });
+  });
+});
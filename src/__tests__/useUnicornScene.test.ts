@@ -1,8 +1,37 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useUnicornScene } from "../shared/hooks";
-import type { UnicornStudioScene } from "../shared/types";
-import { MockResizeObserver } from "./setup";
+import type {
+  UnicornStudioScene,
+  UnicornVariableChangeCallback,
+  UnicornVariableDefinition,
+  UnicornVariables,
+} from "../shared/types";
+import { UnicornSceneError } from "../shared/errors";
+import { configureSceneScheduler } from "../shared/scheduler";
+import { useUnicornVariables } from "../shared/variables";
+import { getDefinitionsVersion } from "../shared/persist";
+import { MockIntersectionObserver, MockResizeObserver } from "./setup";
+
+// jsdom has no WebGL, so the capability probe reports a capable device
+const { mockGetWebGLCapabilities } = vi.hoisted(() => ({
+  mockGetWebGLCapabilities: vi.fn(),
+}));
+
+vi.mock("../shared/utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../shared/utils")>()),
+  getWebGLCapabilities: () => mockGetWebGLCapabilities(),
+}));
+
+const WEBGL_CAPABILITIES = {
+  supported: true,
+  webgl2: true,
+  maxTextureSize: 8192,
+  floatRenderTarget: true,
+  halfFloatRenderTarget: true,
+  renderer: "Test GPU",
+  majorPerformanceCaveat: false,
+};
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -36,6 +65,38 @@ function defaultProps(
   };
 }
 
+const LIVE_DEFINITIONS: UnicornVariableDefinition[] = [
+  { id: "v1", name: "intensity", type: "number", defaultValue: 0.5 },
+  { id: "v2", name: "tint", type: "color", defaultValue: "#000000" },
+];
+const LIVE_PRESETS = [{ id: "p1", name: "Night", values: { v1: 0.9 } }];
+
+/** A scene that keeps its values and notifies about changes */
+function createLiveScene(
+  values: UnicornVariables,
+  definitions: UnicornVariableDefinition[] = LIVE_DEFINITIONS,
+): UnicornStudioScene {
+  const callbacks: UnicornVariableChangeCallback[] = [];
+  const scene = createMockScene({
+    getVariables: () => ({ ...values }),
+    getVariableDefinitions: () => definitions,
+    getPreset: (name) => LIVE_PRESETS.find((p) => p.name === name) ?? null,
+    setVariables: vi.fn((changes: UnicornVariables) => {
+      Object.entries(changes).forEach(([name, value]) => {
+        values[name] = value;
+        callbacks.forEach((callback) => callback(name, value, { ...values }));
+      });
+      return scene;
+    }),
+    setPreset: vi.fn(() => scene),
+    onVariableChange: (callback) => {
+      callbacks.push(callback);
+      return () => callbacks.splice(callbacks.indexOf(callback), 1);
+    },
+  });
+  return scene;
+}
+
 // ---------------------------------------------------------------------------
 // Suite
 // ---------------------------------------------------------------------------
@@ -46,6 +107,7 @@ describe("useUnicornScene", () => {
   let elementRef: { current: HTMLDivElement | null };
 
   beforeEach(() => {
+    mockGetWebGLCapabilities.mockReturnValue(WEBGL_CAPABILITIES);
     addSceneMock = vi.fn();
     (window as Record<string, unknown>).UnicornStudio = {
       addScene: addSceneMock,
@@ -64,6 +126,7 @@ describe("useUnicornScene", () => {
     delete (window as Record<string, unknown>).UnicornStudio;
     containerEl.remove();
     MockResizeObserver.instances.length = 0;
+    MockIntersectionObserver.instances.length = 0;
   });
 
   // -----------------------------------------------------------------------
@@ -127,401 +190,2696 @@ describe("useUnicornScene", () => {
   });
 
   // -----------------------------------------------------------------------
-  // Callback identity stability – changing onLoad/onError should NOT
-  // re-trigger addScene because the hook stores them in stable refs.
+  // Lifecycle status
   // -----------------------------------------------------------------------
 
-  it("does not re-initialize when only onLoad/onError identities change", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValue(scene);
-
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: { ...defaultProps(elementRef), onLoad: () => {} },
-    });
-
-    await act(async () => {});
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
+  it("reports loading-sdk while the script is not loaded", async () => {
+    const { result } = renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), isScriptLoaded: false }),
+    );
 
-    // Rerender with a brand-new onLoad function reference
-    rerender({ ...defaultProps(elementRef), onLoad: () => {} });
     await act(async () => {});
 
-    // addScene should still have been called only once
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe("loading-sdk");
   });
 
-  // -----------------------------------------------------------------------
-  // Re-initialization on config changes
-  // -----------------------------------------------------------------------
-
-  it("re-initializes when projectId changes", async () => {
-    const scene1 = createMockScene();
-    const scene2 = createMockScene();
-    addSceneMock.mockResolvedValueOnce(scene1).mockResolvedValueOnce(scene2);
-
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: defaultProps(elementRef),
-    });
+  it("moves through initializing to ready", async () => {
+    let resolveAddScene!: (s: UnicornStudioScene) => void;
+    addSceneMock.mockImplementationOnce(
+      () =>
+        new Promise<UnicornStudioScene>((r) => {
+          resolveAddScene = r;
+        }),
+    );
 
-    await act(async () => {});
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
+    const { result } = renderHook(() =>
+      useUnicornScene(defaultProps(elementRef)),
+    );
 
-    rerender({ ...defaultProps(elementRef), projectId: "different-project" });
     await act(async () => {});
+    expect(result.current.status).toBe("initializing");
 
-    expect(addSceneMock).toHaveBeenCalledTimes(2);
-    // The first scene should have been destroyed during re-init
-    expect(scene1.destroy).toHaveBeenCalled();
+    await act(async () => {
+      resolveAddScene(createMockScene());
+    });
+    expect(result.current.status).toBe("ready");
   });
 
-  // -----------------------------------------------------------------------
-  // Cleanup on unmount
-  // -----------------------------------------------------------------------
-
-  it("destroys the scene on unmount", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValueOnce(scene);
+  it("reports the error status on initialization failure", async () => {
+    addSceneMock.mockRejectedValueOnce(new Error("boom"));
 
-    const { unmount } = renderHook(() =>
+    const { result } = renderHook(() =>
       useUnicornScene(defaultProps(elementRef)),
     );
 
     await act(async () => {});
-    expect(scene.destroy).not.toHaveBeenCalled();
 
-    unmount();
-    expect(scene.destroy).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe("error");
   });
 
-  // -----------------------------------------------------------------------
-  // Concurrent initialization guard
-  // -----------------------------------------------------------------------
+  it("reports the error status for invalid parameters", async () => {
+    const { result } = renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), fps: 45 as 60 }),
+    );
 
-  it("re-initializes when config deps change while init is in-flight", async () => {
-    // When effect deps change, React cleans up the old effect (resetting the
-    // guard via destroyScene) and runs a new one — so a second addScene is
-    // expected and correct.
-    let resolveFirst!: (s: UnicornStudioScene) => void;
-    addSceneMock
-      .mockImplementationOnce(
-        () =>
-          new Promise<UnicornStudioScene>((r) => {
-            resolveFirst = r;
-          }),
-      )
-      .mockResolvedValueOnce(createMockScene());
+    await act(async () => {});
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
+    expect(result.current.status).toBe("error");
+  });
+
+  it("reports destroyed when the scene is torn down", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const { result, rerender } = renderHook((props) => useUnicornScene(props), {
       initialProps: defaultProps(elementRef),
     });
 
     await act(async () => {});
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe("ready");
 
-    // Change config → effect cleanup + new effect
-    rerender({ ...defaultProps(elementRef), fps: 30 as const });
+    // The container goes away, so the scene is destroyed and not re-created
+    rerender(defaultProps({ current: null }));
     await act(async () => {});
 
-    expect(addSceneMock).toHaveBeenCalledTimes(2);
-
-    // Resolve the first (its ignore flag is set, so the scene gets destroyed)
-    const lateScene = createMockScene();
-    await act(async () => {
-      resolveFirst(lateScene);
-    });
-    expect(lateScene.destroy).toHaveBeenCalled();
+    expect(scene.destroy).toHaveBeenCalled();
+    expect(result.current.status).toBe("destroyed");
   });
 
   // -----------------------------------------------------------------------
-  // sceneRef forwarding
+  // Retry
   // -----------------------------------------------------------------------
 
-  it("assigns scene to a callback sceneRef", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValueOnce(scene);
+  describe("retry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
 
-    const sceneRefCallback = vi.fn();
+    afterEach(() => {
+      vi.useRealTimers();
+    });
 
-    renderHook(() =>
-      useUnicornScene({
-        ...defaultProps(elementRef),
-        sceneRef: sceneRefCallback,
-      }),
-    );
+    it("retries network failures with exponential backoff", async () => {
+      const scene = createMockScene();
+      addSceneMock
+        .mockRejectedValueOnce(new Error("Network failure"))
+        .mockRejectedValueOnce(new Error("Network failure"))
+        .mockResolvedValueOnce(scene);
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          retry: { attempts: 3, delay: 100 },
+          onError,
+        }),
+      );
 
-    await act(async () => {});
+      await act(async () => {});
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("initializing");
+      expect(result.current.error).toBeNull();
 
-    expect(sceneRefCallback).toHaveBeenCalledWith(scene);
-  });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+      });
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
 
-  it("assigns scene to an object sceneRef", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValueOnce(scene);
+      // Second retry waits twice as long
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+      });
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
 
-    const sceneObjRef: { current: UnicornStudioScene | null } = {
-      current: null,
-    };
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+      });
+      expect(addSceneMock).toHaveBeenCalledTimes(3);
+      expect(result.current.status).toBe("ready");
+      expect(onError).not.toHaveBeenCalled();
+    });
 
-    renderHook(() =>
-      useUnicornScene({
-        ...defaultProps(elementRef),
-        sceneRef: sceneObjRef,
-      }),
-    );
+    it("reports the error once retries are exhausted", async () => {
+      addSceneMock.mockRejectedValue(new Error("Network failure"));
+      const onError = vi.fn();
 
-    await act(async () => {});
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          retry: { attempts: 1, delay: 50, backoff: "fixed" },
+          onError,
+        }),
+      );
 
-    expect(sceneObjRef.current).toBe(scene);
-  });
+      await act(async () => {});
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(50);
+      });
 
-  it("rerender-with-new-ref: nulls old ref and assigns scene to new ref", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValue(scene);
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("error");
+      expect(result.current.error?.message).toBe("Network error occurred");
+    });
 
-    const oldRef: { current: UnicornStudioScene | null } = { current: null };
-    const newRef: { current: UnicornStudioScene | null } = { current: null };
+    it("retries failed project fetches by default", async () => {
+      addSceneMock
+        .mockRejectedValueOnce(
+          new Error("Error fetching data for project id x"),
+        )
+        .mockResolvedValueOnce(createMockScene());
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: {
-        ...defaultProps(elementRef),
-        sceneRef: oldRef,
-      },
+      const { result } = renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), retry: true }),
+      );
+
+      await act(async () => {});
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(1000);
+      });
+
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+      expect(result.current.status).toBe("ready");
     });
 
-    await act(async () => {});
-    expect(oldRef.current).toBe(scene);
+    it("does not retry failures outside retryOn", async () => {
+      addSceneMock.mockRejectedValue(new Error("404 not found"));
 
-    // Replace sceneRef prop with a new ref
-    rerender({ ...defaultProps(elementRef), sceneRef: newRef });
+      const { result } = renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), retry: true }),
+      );
 
-    // Old ref should be nulled, new ref should receive the scene
-    expect(oldRef.current).toBeNull();
-    expect(newRef.current).toBe(scene);
-  });
+      await act(async () => {});
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(60000);
+      });
 
-  it("rerender-with-new-callback-ref: nulls old and assigns to new", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValue(scene);
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("error");
+    });
 
-    const oldRefFn = vi.fn();
-    const newRefFn = vi.fn();
+    it("accepts a retryOn predicate", async () => {
+      addSceneMock
+        .mockRejectedValueOnce(new Error("boom"))
+        .mockResolvedValueOnce(createMockScene());
+      const retryOn = vi.fn(() => true);
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: {
-        ...defaultProps(elementRef),
-        sceneRef: oldRefFn,
-      },
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          retry: { delay: 10, retryOn },
+        }),
+      );
+
+      await act(async () => {});
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10);
+      });
+
+      expect(retryOn).toHaveBeenCalledWith(expect.any(Error), 1);
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
     });
 
-    await act(async () => {});
-    expect(oldRefFn).toHaveBeenCalledWith(scene);
+    it("cancels a pending retry on unmount", async () => {
+      addSceneMock.mockRejectedValue(new Error("Network failure"));
 
-    // Replace with new callback ref
-    rerender({ ...defaultProps(elementRef), sceneRef: newRefFn });
+      const { unmount } = renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), retry: true }),
+      );
 
-    // Old callback should have been called with null
-    expect(oldRefFn).toHaveBeenCalledWith(null);
-    // New callback should receive the current scene
-    expect(newRefFn).toHaveBeenCalledWith(scene);
+      await act(async () => {});
+      unmount();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+    });
   });
 
   // -----------------------------------------------------------------------
-  // Paused state synchronization
+  // Timeouts and cancellation
   // -----------------------------------------------------------------------
 
-  it("syncs paused state with the scene", async () => {
-    const scene = createMockScene({ paused: false });
-    addSceneMock.mockResolvedValueOnce(scene);
+  it("applies a custom initTimeout to addScene", async () => {
+    vi.useFakeTimers();
+    try {
+      addSceneMock.mockReturnValue(new Promise(() => {}));
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          initTimeout: 500,
+          onError,
+        }),
+      );
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: { ...defaultProps(elementRef), paused: false },
-    });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(499);
+      });
+      expect(onError).not.toHaveBeenCalled();
 
-    await act(async () => {});
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(1);
+      });
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(result.current.error?.message).toBe("Loading timeout");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 
-    rerender({ ...defaultProps(elementRef), paused: true });
-    expect(scene.paused).toBe(true);
+  it("uses the addScene phase of a per-phase initTimeout", async () => {
+    vi.useFakeTimers();
+    try {
+      addSceneMock.mockReturnValue(new Promise(() => {}));
+      const onError = vi.fn();
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          initTimeout: { sdkLoad: 100, addScene: 300 },
+          onError,
+        }),
+      );
 
-    rerender({ ...defaultProps(elementRef), paused: false });
-    expect(scene.paused).toBe(false);
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(300);
+      });
+      expect(onError).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
   });
 
-  // -----------------------------------------------------------------------
-  // Variables and presets
-  // -----------------------------------------------------------------------
-
-  it("passes variables and preset to addScene as initial values", async () => {
-    const scene = createMockScene();
-    addSceneMock.mockResolvedValueOnce(scene);
+  it("does not initialize with an already-aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
 
-    renderHook(() =>
+    const { result } = renderHook(() =>
       useUnicornScene({
         ...defaultProps(elementRef),
-        variables: { brandColor: "#7c3aed", intensity: 0.65 },
-        preset: "Dark Theme",
+        signal: controller.signal,
       }),
     );
 
     await act(async () => {});
 
-    const config = addSceneMock.mock.calls[0][0];
-    expect(config.initialVariables).toEqual({
-      brandColor: "#7c3aed",
-      intensity: 0.65,
-    });
-    expect(config.initialPreset).toBe("Dark Theme");
+    expect(addSceneMock).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
   });
 
-  it("syncs variable changes via setVariables without re-initializing", async () => {
-    const setVariables = vi.fn();
-    const scene = createMockScene({ setVariables });
-    addSceneMock.mockResolvedValue(scene);
-
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: {
-        ...defaultProps(elementRef),
+  it("cancels a pending initialization on abort and destroys the late scene", async () => {
+    const controller = new AbortController();
+    const scene = createMockScene();
+    let resolveAddScene!: (s: UnicornStudioScene) => void;
+    addSceneMock.mockImplementationOnce(
+      () =>
+        new Promise<UnicornStudioScene>((r) => {
+          resolveAddScene = r;
+        }),
+    );
+    const onLoad = vi.fn();
+
+    const { result } = renderHook(() =>
+      useUnicornScene({
+        ...defaultProps(elementRef),
+        signal: controller.signal,
+        onLoad,
+      }),
+    );
+
+    await act(async () => {});
+    expect(result.current.status).toBe("initializing");
+
+    act(() => {
+      controller.abort();
+    });
+    expect(result.current.status).toBe("idle");
+
+    await act(async () => {
+      resolveAddScene(scene);
+    });
+
+    expect(scene.destroy).toHaveBeenCalled();
+    expect(onLoad).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+  });
+
+  it("cancels a pending initialization on abort while the SDK loads", async () => {
+    const controller = new AbortController();
+
+    const { result, rerender } = renderHook(
+      ({ isScriptLoaded }) =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          isScriptLoaded,
+          signal: controller.signal,
+        }),
+      { initialProps: { isScriptLoaded: false } },
+    );
+
+    await act(async () => {});
+    expect(result.current.status).toBe("loading-sdk");
+
+    act(() => {
+      controller.abort();
+    });
+    expect(result.current.status).toBe("idle");
+
+    rerender({ isScriptLoaded: true });
+    await act(async () => {});
+
+    expect(addSceneMock).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+  });
+
+  it("leaves a ready scene untouched when the signal aborts", async () => {
+    const controller = new AbortController();
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const { result } = renderHook(() =>
+      useUnicornScene({
+        ...defaultProps(elementRef),
+        signal: controller.signal,
+      }),
+    );
+
+    await act(async () => {});
+
+    act(() => {
+      controller.abort();
+    });
+
+    expect(scene.destroy).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("ready");
+  });
+
+  it("re-initializes after a failure when retry() is called", async () => {
+    const scene = createMockScene();
+    addSceneMock
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce(scene);
+
+    const { result } = renderHook(() =>
+      useUnicornScene(defaultProps(elementRef)),
+    );
+
+    await act(async () => {});
+    expect(result.current.status).toBe("error");
+
+    await act(async () => {
+      result.current.retry();
+    });
+
+    expect(addSceneMock).toHaveBeenCalledTimes(2);
+    expect(result.current.status).toBe("ready");
+    expect(result.current.error).toBeNull();
+  });
+
+  // -----------------------------------------------------------------------
+  // Callback identity stability – changing onLoad/onError should NOT
+  // re-trigger addScene because the hook stores them in stable refs.
+  // -----------------------------------------------------------------------
+
+  it("does not re-initialize when only onLoad/onError identities change", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValue(scene);
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: { ...defaultProps(elementRef), onLoad: () => {} },
+    });
+
+    await act(async () => {});
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+
+    // Rerender with a brand-new onLoad function reference
+    rerender({ ...defaultProps(elementRef), onLoad: () => {} });
+    await act(async () => {});
+
+    // addScene should still have been called only once
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+  });
+
+  // -----------------------------------------------------------------------
+  // Re-initialization on config changes
+  // -----------------------------------------------------------------------
+
+  it("re-initializes when projectId changes", async () => {
+    const scene1 = createMockScene();
+    const scene2 = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene1).mockResolvedValueOnce(scene2);
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: defaultProps(elementRef),
+    });
+
+    await act(async () => {});
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+
+    rerender({ ...defaultProps(elementRef), projectId: "different-project" });
+    await act(async () => {});
+
+    expect(addSceneMock).toHaveBeenCalledTimes(2);
+    // The first scene should have been destroyed during re-init
+    expect(scene1.destroy).toHaveBeenCalled();
+  });
+
+  it("passes fixed to the scene config", async () => {
+    addSceneMock.mockResolvedValue(createMockScene());
+
+    renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), fixed: true }),
+    );
+    await act(async () => {});
+
+    expect(addSceneMock).toHaveBeenCalledWith(
+      expect.objectContaining({ fixed: true }),
+    );
+  });
+
+  describe("interactivity", () => {
+    beforeEach(() => {
+      addSceneMock.mockImplementation(() => Promise.resolve(createMockScene()));
+    });
+
+    it("passes interactivity to the scene config", async () => {
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          interactivity: { mouse: { disabled: true, disableMobile: true } },
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          interactivity: { mouse: { disabled: true, disableMobile: true } },
+        }),
+      );
+    });
+
+    it("re-initializes when interactivity changes", async () => {
+      const { rerender } = renderHook(
+        ({ disabled }) =>
+          useUnicornScene({
+            ...defaultProps(elementRef),
+            interactivity: { mouse: { disabled } },
+          }),
+        { initialProps: { disabled: false } },
+      );
+      await act(async () => {});
+
+      rerender({ disabled: false });
+      await act(async () => {});
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+
+      rerender({ disabled: true });
+      await act(async () => {});
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+      expect(addSceneMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          interactivity: { mouse: { disabled: true } },
+        }),
+      );
+    });
+  });
+
+  describe("controls", () => {
+    beforeEach(() => {
+      addSceneMock.mockImplementation(() => Promise.resolve(createMockScene()));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    async function renderWithControls(
+      controls: Parameters<typeof useUnicornScene>[0]["controls"],
+    ) {
+      renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), controls }),
+      );
+      await act(async () => {});
+      return addSceneMock.mock.calls[0][0];
+    }
+
+    it("enables the controls panel with its options", async () => {
+      const config = await renderWithControls({
+        title: "Hero",
+        draggable: false,
+        src: "/controls.js",
+      });
+
+      expect(config.controls).toEqual({
+        enabled: true,
+        title: "Hero",
+        draggable: false,
+        src: "/controls.js",
+      });
+    });
+
+    it("disables the panel for controls={false}", async () => {
+      const config = await renderWithControls(false);
+
+      expect(config.controls).toBe(false);
+    });
+
+    it("leaves the panel out of production builds", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+
+      const config = await renderWithControls(true);
+
+      expect(config).not.toHaveProperty("controls");
+    });
+
+    it("shows the panel in production builds when forced", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+
+      const config = await renderWithControls({ force: true });
+
+      expect(config.controls).toEqual({ enabled: true });
+    });
+  });
+
+  describe("transition", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("renders each scene into its own host element", async () => {
+      addSceneMock.mockResolvedValueOnce(createMockScene());
+
+      renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), transition: "cut" }),
+      );
+
+      await act(async () => {});
+
+      const host = containerEl.firstElementChild as HTMLDivElement;
+      expect(addSceneMock).toHaveBeenCalledWith(
+        expect.objectContaining({ elementId: host.id }),
+      );
+      expect(host.id).not.toBe(containerEl.id);
+      expect(host.style.opacity).toBe("1");
+    });
+
+    it("keeps the old scene until the new one is ready, then crossfades", async () => {
+      const scene1 = createMockScene();
+      const scene2 = createMockScene();
+      let resolveScene2: (scene: UnicornStudioScene) => void = () => {};
+      addSceneMock.mockResolvedValueOnce(scene1).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveScene2 = resolve;
+        }),
+      );
+      const props = {
+        ...defaultProps(elementRef),
+        transition: { type: "crossfade", duration: 200 } as const,
+      };
+
+      const { result, rerender } = renderHook((p) => useUnicornScene(p), {
+        initialProps: props,
+      });
+      await act(async () => {});
+
+      rerender({ ...props, projectId: "different-project" });
+      await act(async () => {});
+
+      expect(scene1.destroy).not.toHaveBeenCalled();
+      expect(result.current.status).toBe("initializing");
+      expect(result.current.transitioning).toBe(true);
+      expect(containerEl.children).toHaveLength(2);
+
+      await act(async () => {
+        resolveScene2(scene2);
+      });
+
+      const newHost = containerEl.children[1] as HTMLDivElement;
+      expect(result.current.status).toBe("ready");
+      expect(newHost.style.opacity).toBe("1");
+      expect(newHost.style.transition).toContain("200ms");
+      expect(scene1.destroy).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(200);
+      });
+
+      expect(scene1.destroy).toHaveBeenCalledTimes(1);
+      expect(result.current.transitioning).toBe(false);
+      expect(containerEl.children).toHaveLength(1);
+      expect(scene2.destroy).not.toHaveBeenCalled();
+    });
+
+    it("destroys the old scene as soon as the new one is ready with a cut", async () => {
+      const scene1 = createMockScene();
+      addSceneMock
+        .mockResolvedValueOnce(scene1)
+        .mockResolvedValueOnce(createMockScene());
+      const props = { ...defaultProps(elementRef), transition: "cut" as const };
+
+      const { result, rerender } = renderHook((p) => useUnicornScene(p), {
+        initialProps: props,
+      });
+      await act(async () => {});
+
+      rerender({ ...props, projectId: "different-project" });
+      await act(async () => {});
+
+      expect(scene1.destroy).toHaveBeenCalledTimes(1);
+      expect(result.current.transitioning).toBe(false);
+      expect(containerEl.children).toHaveLength(1);
+    });
+
+    it("destroys the old scene when the new one fails", async () => {
+      const scene1 = createMockScene();
+      addSceneMock
+        .mockResolvedValueOnce(scene1)
+        .mockRejectedValueOnce(new Error("boom"));
+      const props = { ...defaultProps(elementRef), transition: "cut" as const };
+
+      const { result, rerender } = renderHook((p) => useUnicornScene(p), {
+        initialProps: props,
+      });
+      await act(async () => {});
+
+      rerender({ ...props, projectId: "different-project" });
+      await act(async () => {});
+
+      expect(result.current.status).toBe("error");
+      expect(scene1.destroy).toHaveBeenCalledTimes(1);
+      expect(result.current.transitioning).toBe(false);
+    });
+
+    it("destroys both scenes on unmount mid-transition", async () => {
+      const scene1 = createMockScene();
+      addSceneMock
+        .mockResolvedValueOnce(scene1)
+        .mockReturnValueOnce(new Promise(() => {}));
+      const props = { ...defaultProps(elementRef), transition: "cut" as const };
+
+      const { rerender, unmount } = renderHook((p) => useUnicornScene(p), {
+        initialProps: props,
+      });
+      await act(async () => {});
+
+      rerender({ ...props, projectId: "different-project" });
+      await act(async () => {});
+      unmount();
+
+      expect(scene1.destroy).toHaveBeenCalledTimes(1);
+      expect(containerEl.children).toHaveLength(0);
+    });
+  });
+
+  describe("adaptive quality", () => {
+    const tiers = [
+      { scale: 1, dpi: 1.5, fps: 60 },
+      { scale: 0.5, dpi: 1, fps: 30 },
+      { scale: 0.25, dpi: 1, fps: 24 },
+    ] as const;
+
+    let frameCallbacks: Map<number, FrameRequestCallback>;
+    let nextFrameId: number;
+    let now: number;
+
+    beforeEach(() => {
+      frameCallbacks = new Map();
+      nextFrameId = 1;
+      now = 0;
+      vi.spyOn(window, "requestAnimationFrame").mockImplementation((cb) => {
+        frameCallbacks.set(nextFrameId, cb);
+        return nextFrameId++;
+      });
+      vi.spyOn(window, "cancelAnimationFrame").mockImplementation((id) => {
+        frameCallbacks.delete(id);
+      });
+      addSceneMock.mockImplementation(() => Promise.resolve(createMockScene()));
+    });
+
+    /** Renders frames `frameTime` ms apart for `duration` ms. */
+    function runFrames(frameTime: number, duration: number) {
+      act(() => {
+        for (let elapsed = 0; elapsed < duration; elapsed += frameTime) {
+          now += frameTime;
+          const callbacks = [...frameCallbacks.values()];
+          frameCallbacks.clear();
+          callbacks.forEach((cb) => cb(now));
+        }
+      });
+    }
+
+    function qualityProps(overrides = {}) {
+      return {
+        ...defaultProps(elementRef),
+        adaptiveQuality: {
+          tiers: [...tiers],
+          sampleDuration: 1000,
+          cooldown: 0,
+          ...overrides,
+        },
+      };
+    }
+
+    it("steps down a tier when frames are dropped", async () => {
+      const onQualityChange = vi.fn();
+
+      renderHook(() => useUnicornScene({ ...qualityProps(), onQualityChange }));
+      await act(async () => {});
+
+      // The first sample is discarded as warm-up
+      runFrames(50, 2100);
+      await act(async () => {});
+
+      expect(onQualityChange).toHaveBeenCalledWith({
+        tier: tiers[1],
+        tierIndex: 1,
+        previousTierIndex: 0,
+        measuredFps: 20,
+      });
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+      expect(addSceneMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({ scale: 0.5, dpi: 1, fps: 30 }),
+      );
+    });
+
+    it("never raises the dpi or fps of the props in the default tiers", async () => {
+      const onQualityChange = vi.fn();
+
+      renderHook(() =>
+        useUnicornScene({
+          ...qualityProps({ tiers: undefined }),
+          dpi: 1,
+          fps: 30,
+          onQualityChange,
+        }),
+      );
+      await act(async () => {});
+
+      runFrames(50, 2100);
+      await act(async () => {});
+
+      expect(onQualityChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tier: { scale: 0.75, dpi: 1, fps: 30 },
+          tierIndex: 1,
+        }),
+      );
+      expect(addSceneMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({ scale: 0.75, dpi: 1, fps: 30 }),
+      );
+    });
+
+    it("steps back up when there is headroom", async () => {
+      const onQualityChange = vi.fn();
+
+      renderHook(() => useUnicornScene({ ...qualityProps(), onQualityChange }));
+      await act(async () => {});
+
+      runFrames(50, 2100);
+      await act(async () => {});
+      runFrames(16, 2100);
+      await act(async () => {});
+
+      expect(onQualityChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ tierIndex: 0, previousTierIndex: 1 }),
+      );
+      expect(addSceneMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({ scale: 1, dpi: 1.5, fps: 60 }),
+      );
+    });
+
+    it("waits for the cooldown between tier changes", async () => {
+      const onQualityChange = vi.fn();
+
+      renderHook(() =>
+        useUnicornScene({
+          ...qualityProps({ cooldown: 60000 }),
+          onQualityChange,
+        }),
+      );
+      await act(async () => {});
+
+      runFrames(50, 2100);
+      await act(async () => {});
+      runFrames(50, 2100);
+      await act(async () => {});
+
+      expect(onQualityChange).toHaveBeenCalledTimes(1);
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops stepping up to a tier that was left twice", async () => {
+      const onQualityChange = vi.fn();
+
+      renderHook(() => useUnicornScene({ ...qualityProps(), onQualityChange }));
+      await act(async () => {});
+
+      for (const frameTime of [50, 16, 50, 16]) {
+        runFrames(frameTime, 2100);
+        await act(async () => {});
+      }
+
+      expect(onQualityChange).toHaveBeenCalledTimes(3);
+      expect(onQualityChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ tierIndex: 1 }),
+      );
+    });
+
+    it("does not sample while the scene is paused", async () => {
+      const onQualityChange = vi.fn();
+
+      renderHook(() =>
+        useUnicornScene({ ...qualityProps(), paused: true, onQualityChange }),
+      );
+      await act(async () => {});
+
+      runFrames(50, 2100);
+      await act(async () => {});
+
+      expect(onQualityChange).not.toHaveBeenCalled();
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports invalid tiers with the INVALID_PARAMS code", async () => {
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...qualityProps({ tiers: [{ scale: 2, dpi: 1, fps: 60 }] }),
+          onError,
+        }),
+      );
+      await act(async () => {});
+
+      expect(result.current.error?.code).toBe("INVALID_PARAMS");
+      expect(result.current.error?.message).toBe(
+        "Invalid quality tier 0: Invalid scale: 2. Scale must be between 0.25 and 1.0",
+      );
+      expect(addSceneMock).not.toHaveBeenCalled();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Cleanup on unmount
+  // -----------------------------------------------------------------------
+
+  it("destroys the scene on unmount", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const { unmount } = renderHook(() =>
+      useUnicornScene(defaultProps(elementRef)),
+    );
+
+    await act(async () => {});
+    expect(scene.destroy).not.toHaveBeenCalled();
+
+    unmount();
+    expect(scene.destroy).toHaveBeenCalledTimes(1);
+  });
+
+  // -----------------------------------------------------------------------
+  // Concurrent initialization guard
+  // -----------------------------------------------------------------------
+
+  it("re-initializes when config deps change while init is in-flight", async () => {
+    // When effect deps change, React cleans up the old effect (resetting the
+    // guard via destroyScene) and runs a new one — so a second addScene is
+    // expected and correct.
+    let resolveFirst!: (s: UnicornStudioScene) => void;
+    addSceneMock
+      .mockImplementationOnce(
+        () =>
+          new Promise<UnicornStudioScene>((r) => {
+            resolveFirst = r;
+          }),
+      )
+      .mockResolvedValueOnce(createMockScene());
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: defaultProps(elementRef),
+    });
+
+    await act(async () => {});
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+
+    // Change config → effect cleanup + new effect
+    rerender({ ...defaultProps(elementRef), fps: 30 as const });
+    await act(async () => {});
+
+    expect(addSceneMock).toHaveBeenCalledTimes(2);
+
+    // Resolve the first (its ignore flag is set, so the scene gets destroyed)
+    const lateScene = createMockScene();
+    await act(async () => {
+      resolveFirst(lateScene);
+    });
+    expect(lateScene.destroy).toHaveBeenCalled();
+  });
+
+  // -----------------------------------------------------------------------
+  // sceneRef forwarding
+  // -----------------------------------------------------------------------
+
+  it("assigns scene to a callback sceneRef", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const sceneRefCallback = vi.fn();
+
+    renderHook(() =>
+      useUnicornScene({
+        ...defaultProps(elementRef),
+        sceneRef: sceneRefCallback,
+      }),
+    );
+
+    await act(async () => {});
+
+    expect(sceneRefCallback).toHaveBeenCalledWith(scene);
+  });
+
+  it("assigns scene to an object sceneRef", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const sceneObjRef: { current: UnicornStudioScene | null } = {
+      current: null,
+    };
+
+    renderHook(() =>
+      useUnicornScene({
+        ...defaultProps(elementRef),
+        sceneRef: sceneObjRef,
+      }),
+    );
+
+    await act(async () => {});
+
+    expect(sceneObjRef.current).toBe(scene);
+  });
+
+  it("rerender-with-new-ref: nulls old ref and assigns scene to new ref", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValue(scene);
+
+    const oldRef: { current: UnicornStudioScene | null } = { current: null };
+    const newRef: { current: UnicornStudioScene | null } = { current: null };
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
+        sceneRef: oldRef,
+      },
+    });
+
+    await act(async () => {});
+    expect(oldRef.current).toBe(scene);
+
+    // Replace sceneRef prop with a new ref
+    rerender({ ...defaultProps(elementRef), sceneRef: newRef });
+
+    // Old ref should be nulled, new ref should receive the scene
+    expect(oldRef.current).toBeNull();
+    expect(newRef.current).toBe(scene);
+  });
+
+  it("rerender-with-new-callback-ref: nulls old and assigns to new", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValue(scene);
+
+    const oldRefFn = vi.fn();
+    const newRefFn = vi.fn();
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
+        sceneRef: oldRefFn,
+      },
+    });
+
+    await act(async () => {});
+    expect(oldRefFn).toHaveBeenCalledWith(scene);
+
+    // Replace with new callback ref
+    rerender({ ...defaultProps(elementRef), sceneRef: newRefFn });
+
+    // Old callback should have been called with null
+    expect(oldRefFn).toHaveBeenCalledWith(null);
+    // New callback should receive the current scene
+    expect(newRefFn).toHaveBeenCalledWith(scene);
+  });
+
+  // -----------------------------------------------------------------------
+  // Paused state synchronization
+  // -----------------------------------------------------------------------
+
+  it("syncs paused state with the scene", async () => {
+    const scene = createMockScene({ paused: false });
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: { ...defaultProps(elementRef), paused: false },
+    });
+
+    await act(async () => {});
+
+    rerender({ ...defaultProps(elementRef), paused: true });
+    expect(scene.paused).toBe(true);
+
+    rerender({ ...defaultProps(elementRef), paused: false });
+    expect(scene.paused).toBe(false);
+  });
+
+  it("starts a scene paused when paused is set before it is ready", async () => {
+    const scene = createMockScene({ paused: false });
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), paused: true }),
+    );
+    await act(async () => {});
+
+    expect(scene.paused).toBe(true);
+  });
+
+  describe("pauseWhenOffscreen", () => {
+    function setVisibilityState(state: DocumentVisibilityState) {
+      vi.spyOn(document, "visibilityState", "get").mockReturnValue(state);
+      document.dispatchEvent(new Event("visibilitychange"));
+    }
+
+    it("pauses while the container is out of view", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          pauseWhenOffscreen: { threshold: 0.25, rootMargin: "100px" },
+        }),
+      );
+      await act(async () => {});
+
+      const observer = MockIntersectionObserver.instances[0];
+      expect(observer.options).toEqual({
+        threshold: 0.25,
+        rootMargin: "100px",
+      });
+
+      act(() => {
+        observer.simulateIntersection(containerEl, {
+          isIntersecting: true,
+          intersectionRatio: 0.1,
+        });
+      });
+      expect(scene.paused).toBe(true);
+
+      act(() => {
+        observer.simulateIntersection(containerEl, {
+          isIntersecting: true,
+          intersectionRatio: 0.5,
+        });
+      });
+      expect(scene.paused).toBe(false);
+    });
+
+    it("pauses while the page is hidden", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          pauseWhenOffscreen: true,
+        }),
+      );
+      await act(async () => {});
+
+      act(() => setVisibilityState("hidden"));
+      expect(scene.paused).toBe(true);
+
+      act(() => setVisibilityState("visible"));
+      expect(scene.paused).toBe(false);
+    });
+
+    it("pauses while covered when trackVisibility is set", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          pauseWhenOffscreen: { trackVisibility: true },
+        }),
+      );
+      await act(async () => {});
+
+      const observer = MockIntersectionObserver.instances[0];
+      expect(observer.options).toMatchObject({
+        trackVisibility: true,
+        delay: 100,
+      });
+
+      act(() => {
+        observer.simulateIntersection(containerEl, {
+          isIntersecting: true,
+          intersectionRatio: 1,
+          isVisible: false,
+        });
+      });
+      expect(scene.paused).toBe(true);
+    });
+
+    it("keeps a scene paused by the paused prop when it comes into view", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      const { rerender } = renderHook((props) => useUnicornScene(props), {
+        initialProps: {
+          ...defaultProps(elementRef),
+          paused: true,
+          pauseWhenOffscreen: true,
+        },
+      });
+      await act(async () => {});
+
+      const observer = MockIntersectionObserver.instances[0];
+      act(() => {
+        observer.simulateIntersection(containerEl, {
+          isIntersecting: false,
+          intersectionRatio: 0,
+        });
+      });
+      act(() => {
+        observer.simulateIntersection(containerEl, {
+          isIntersecting: true,
+          intersectionRatio: 1,
+        });
+      });
+      expect(scene.paused).toBe(true);
+
+      rerender({
+        ...defaultProps(elementRef),
+        paused: false,
+        pauseWhenOffscreen: true,
+      });
+      expect(scene.paused).toBe(false);
+    });
+
+    it("starts a scene created offscreen paused", async () => {
+      let resolveScene: (scene: UnicornStudioScene) => void = () => {};
+      addSceneMock.mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveScene = resolve;
+        }),
+      );
+      const scene = createMockScene({ paused: false });
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          pauseWhenOffscreen: true,
+        }),
+      );
+
+      act(() => {
+        MockIntersectionObserver.instances[0].simulateIntersection(
+          containerEl,
+          { isIntersecting: false, intersectionRatio: 0 },
+        );
+      });
+      await act(async () => {
+        resolveScene(scene);
+      });
+
+      expect(scene.paused).toBe(true);
+    });
+
+    it("does not observe the container when disabled", async () => {
+      addSceneMock.mockResolvedValueOnce(createMockScene());
+
+      renderHook(() => useUnicornScene(defaultProps(elementRef)));
+      await act(async () => {});
+
+      expect(MockIntersectionObserver.instances).toHaveLength(0);
+    });
+
+    it("disconnects the observer on unmount", async () => {
+      addSceneMock.mockResolvedValueOnce(createMockScene());
+
+      const { unmount } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          pauseWhenOffscreen: true,
+        }),
+      );
+      await act(async () => {});
+      unmount();
+
+      expect(
+        MockIntersectionObserver.instances[0].disconnect,
+      ).toHaveBeenCalled();
+    });
+  });
+
+  describe("reducedMotion", () => {
+    let prefersReducedMotion: boolean;
+    let changeListeners: Set<() => void>;
+
+    beforeEach(() => {
+      prefersReducedMotion = true;
+      changeListeners = new Set();
+      window.matchMedia = vi.fn((query: string) => ({
+        get matches() {
+          return prefersReducedMotion;
+        },
+        media: query,
+        addEventListener: (_type: string, listener: () => void) =>
+          changeListeners.add(listener),
+        removeEventListener: (_type: string, listener: () => void) =>
+          changeListeners.delete(listener),
+      })) as unknown as typeof window.matchMedia;
+    });
+
+    afterEach(() => {
+      delete (window as Partial<Window>).matchMedia;
+    });
+
+    function setPrefersReducedMotion(value: boolean) {
+      prefersReducedMotion = value;
+      act(() => changeListeners.forEach((listener) => listener()));
+    }
+
+    it("pauses the scene by default", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      const { result } = renderHook(() =>
+        useUnicornScene(defaultProps(elementRef)),
+      );
+      await act(async () => {});
+
+      expect(window.matchMedia).toHaveBeenCalledWith(
+        "(prefers-reduced-motion: reduce)",
+      );
+      expect(result.current.prefersReducedMotion).toBe(true);
+      expect(scene.paused).toBe(true);
+    });
+
+    it("follows preference changes while mounted", async () => {
+      prefersReducedMotion = false;
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() => useUnicornScene(defaultProps(elementRef)));
+      await act(async () => {});
+      expect(scene.paused).toBe(false);
+
+      setPrefersReducedMotion(true);
+      expect(scene.paused).toBe(true);
+
+      setPrefersReducedMotion(false);
+      expect(scene.paused).toBe(false);
+    });
+
+    it("does not create the scene with the placeholder policy", async () => {
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          reducedMotion: "placeholder",
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock).not.toHaveBeenCalled();
+      expect(result.current.status).toBe("idle");
+    });
+
+    it("destroys a running scene when the placeholder policy kicks in", async () => {
+      prefersReducedMotion = false;
+      const scene = createMockScene();
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          reducedMotion: "placeholder",
+        }),
+      );
+      await act(async () => {});
+
+      setPrefersReducedMotion(true);
+
+      expect(scene.destroy).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("idle");
+    });
+
+    it("renders at a reduced frame rate with the reduced-fps policy", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          reducedMotion: "reduced-fps",
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock).toHaveBeenCalledWith(
+        expect.objectContaining({ fps: 15 }),
+      );
+      expect(scene.paused).toBe(false);
+    });
+
+    it("does not query the preference with the ignore policy", async () => {
+      const scene = createMockScene({ paused: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          reducedMotion: "ignore",
+        }),
+      );
+      await act(async () => {});
+
+      expect(window.matchMedia).not.toHaveBeenCalled();
+      expect(result.current.prefersReducedMotion).toBe(false);
+      expect(scene.paused).toBe(false);
+    });
+  });
+
+  describe("scene scheduler", () => {
+    let otherEl: HTMLDivElement;
+    let otherRef: { current: HTMLDivElement | null };
+
+    beforeEach(() => {
+      otherEl = document.createElement("div");
+      document.body.appendChild(otherEl);
+      otherRef = { current: otherEl };
+      addSceneMock.mockImplementation(() => Promise.resolve(createMockScene()));
+    });
+
+    afterEach(() => {
+      act(() => configureSceneScheduler({ maxActiveScenes: Infinity }));
+      otherEl.remove();
+    });
+
+    it("suspends scenes over maxActiveScenes", async () => {
+      configureSceneScheduler({ maxActiveScenes: 1 });
+
+      const first = renderHook(() => useUnicornScene(defaultProps(elementRef)));
+      const second = renderHook(() => useUnicornScene(defaultProps(otherRef)));
+      await act(async () => {});
+
+      expect(first.result.current.status).toBe("ready");
+      expect(second.result.current.status).toBe("idle");
+      expect(second.result.current.suspended).toBe(true);
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("re-creates a suspended scene when a slot frees up", async () => {
+      configureSceneScheduler({ maxActiveScenes: 1 });
+
+      const first = renderHook(() => useUnicornScene(defaultProps(elementRef)));
+      const second = renderHook(() => useUnicornScene(defaultProps(otherRef)));
+      await act(async () => {});
+
+      first.unmount();
+      await act(async () => {});
+
+      expect(second.result.current.status).toBe("ready");
+      expect(second.result.current.suspended).toBe(false);
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("destroys a ready scene when the budget is lowered", async () => {
+      const scene = createMockScene();
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      const { result } = renderHook(() =>
+        useUnicornScene(defaultProps(elementRef)),
+      );
+      await act(async () => {});
+
+      act(() => configureSceneScheduler({ maxActiveScenes: 0 }));
+
+      expect(scene.destroy).toHaveBeenCalledTimes(1);
+      expect(result.current.status).toBe("idle");
+      expect(result.current.suspended).toBe(true);
+    });
+
+    it("gives the slot to the scene that scrolls into view", async () => {
+      configureSceneScheduler({ maxActiveScenes: 1 });
+      const firstScene = createMockScene();
+      addSceneMock.mockResolvedValueOnce(firstScene);
+
+      renderHook(() => useUnicornScene(defaultProps(elementRef)));
+      const second = renderHook(() => useUnicornScene(defaultProps(otherRef)));
+      await act(async () => {});
+
+      const observer = MockIntersectionObserver.instances.find((instance) =>
+        instance.elements.has(otherEl),
+      );
+      act(() => {
+        observer?.simulateIntersection(otherEl, { isIntersecting: true });
+      });
+      await act(async () => {});
+
+      expect(firstScene.destroy).toHaveBeenCalledTimes(1);
+      expect(second.result.current.status).toBe("ready");
+    });
+
+    it("keeps higher priority scenes alive", async () => {
+      configureSceneScheduler({ maxActiveScenes: 1 });
+
+      const low = renderHook(() => useUnicornScene(defaultProps(elementRef)));
+      const high = renderHook(() =>
+        useUnicornScene({ ...defaultProps(otherRef), priority: 1 }),
+      );
+      await act(async () => {});
+
+      expect(low.result.current.suspended).toBe(true);
+      expect(high.result.current.status).toBe("ready");
+    });
+  });
+
+  describe("minCapabilities", () => {
+    beforeEach(() => {
+      addSceneMock.mockImplementation(() => Promise.resolve(createMockScene()));
+    });
+
+    it("creates the scene when the device meets minCapabilities", async () => {
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          minCapabilities: { webgl2: true, maxTextureSize: 4096 },
+        }),
+      );
+      await act(async () => {});
+
+      expect(result.current.status).toBe("ready");
+      expect(result.current.unsupported).toBe(false);
+    });
+
+    it("skips the scene on devices below minCapabilities", async () => {
+      const onError = vi.fn();
+      mockGetWebGLCapabilities.mockReturnValue({
+        ...WEBGL_CAPABILITIES,
+        floatRenderTarget: false,
+      });
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          minCapabilities: { floatRenderTarget: true },
+          onError,
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock).not.toHaveBeenCalled();
+      expect(result.current.status).toBe("error");
+      expect(result.current.unsupported).toBe(true);
+      expect(result.current.error).toMatchObject({
+        code: "WEBGL_UNSUPPORTED",
+        phase: "scene-init",
+        message: "Float render targets are not supported",
+      });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports missing WebGL without calling the SDK", async () => {
+      mockGetWebGLCapabilities.mockReturnValue({
+        ...WEBGL_CAPABILITIES,
+        supported: false,
+      });
+
+      const { result } = renderHook(() =>
+        useUnicornScene(defaultProps(elementRef)),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock).not.toHaveBeenCalled();
+      expect(result.current.error?.code).toBe("WEBGL_UNSUPPORTED");
+    });
+  });
+
+  describe("context loss", () => {
+    /** Creates a scene whose SDK canvas lives in the container. */
+    function sceneWithCanvas(overrides: Partial<UnicornStudioScene> = {}) {
+      const canvas = document.createElement("canvas");
+      const scene = createMockScene(overrides);
+      addSceneMock.mockImplementationOnce(async () => {
+        containerEl.appendChild(canvas);
+        return scene;
+      });
+      return { scene, canvas };
+    }
+
+    function loseContext(canvas: HTMLCanvasElement) {
+      act(() => {
+        canvas.dispatchEvent(new Event("webglcontextlost"));
+      });
+    }
+
+    it("re-creates the scene and reports the loss", async () => {
+      const { scene, canvas } = sceneWithCanvas();
+      sceneWithCanvas();
+      const onContextLost = vi.fn();
+
+      const { result } = renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), onContextLost }),
+      );
+      await act(async () => {});
+
+      loseContext(canvas);
+      await act(async () => {});
+
+      expect(onContextLost).toHaveBeenCalledWith({
+        attempt: 1,
+        willRecover: true,
+      });
+      expect(scene.destroy).toHaveBeenCalledTimes(1);
+      expect(addSceneMock).toHaveBeenCalledTimes(2);
+      expect(result.current.status).toBe("ready");
+    });
+
+    it("restores the lost scene's variables, with the props taking precedence", async () => {
+      const { canvas } = sceneWithCanvas({
+        getVariables: () => ({ intensity: 0.9, label: "Live" }),
+      });
+      const { scene: recovered } = sceneWithCanvas({
+        setVariables: vi.fn(),
+      });
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.5 },
+        }),
+      );
+      await act(async () => {});
+
+      loseContext(canvas);
+      await act(async () => {});
+
+      // Created with the values instead of jumping back to them
+      expect(addSceneMock.mock.calls[1][0].initialVariables).toEqual({
+        intensity: 0.5,
+        label: "Live",
+      });
+      expect(recovered.setVariables).not.toHaveBeenCalled();
+    });
+
+    it("reports a CONTEXT_LOST error once recoveries are exhausted", async () => {
+      const canvases = Array.from(
+        { length: 4 },
+        () => sceneWithCanvas().canvas,
+      );
+      const onContextLost = vi.fn();
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          onContextLost,
+          onError,
+        }),
+      );
+      await act(async () => {});
+
+      for (const canvas of canvases) {
+        loseContext(canvas);
+        await act(async () => {});
+      }
+
+      expect(addSceneMock).toHaveBeenCalledTimes(4);
+      expect(onContextLost).toHaveBeenLastCalledWith({
+        attempt: 4,
+        willRecover: false,
+      });
+      expect(result.current.status).toBe("error");
+      expect(result.current.error?.code).toBe("CONTEXT_LOST");
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops listening once the scene is destroyed", async () => {
+      const { canvas } = sceneWithCanvas();
+      const onContextLost = vi.fn();
+
+      const { unmount } = renderHook(() =>
+        useUnicornScene({ ...defaultProps(elementRef), onContextLost }),
+      );
+      await act(async () => {});
+      unmount();
+
+      canvas.dispatchEvent(new Event("webglcontextlost"));
+
+      expect(onContextLost).not.toHaveBeenCalled();
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Variables and presets
+  // -----------------------------------------------------------------------
+
+  it("passes variables and preset to addScene as initial values", async () => {
+    const scene = createMockScene();
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    renderHook(() =>
+      useUnicornScene({
+        ...defaultProps(elementRef),
+        variables: { brandColor: "#7c3aed", intensity: 0.65 },
+        preset: "Dark Theme",
+      }),
+    );
+
+    await act(async () => {});
+
+    const config = addSceneMock.mock.calls[0][0];
+    expect(config.initialVariables).toEqual({
+      brandColor: "#7c3aed",
+      intensity: 0.65,
+    });
+    expect(config.initialPreset).toBe("Dark Theme");
+  });
+
+  it("syncs variable changes via setVariables without re-initializing", async () => {
+    const setVariables = vi.fn();
+    const scene = createMockScene({ setVariables });
+    addSceneMock.mockResolvedValue(scene);
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
         variables: { intensity: 0.2 },
       },
     });
 
-    await act(async () => {});
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
-    // Initial values are delivered via initialVariables, not setVariables
-    expect(setVariables).not.toHaveBeenCalled();
+    await act(async () => {});
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+    // Initial values are delivered via initialVariables, not setVariables
+    expect(setVariables).not.toHaveBeenCalled();
+
+    rerender({ ...defaultProps(elementRef), variables: { intensity: 0.9 } });
+    await act(async () => {});
+
+    expect(setVariables).toHaveBeenCalledWith({ intensity: 0.9 });
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not call setVariables when a new object has identical values", async () => {
+    const setVariables = vi.fn();
+    const scene = createMockScene({ setVariables });
+    addSceneMock.mockResolvedValue(scene);
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
+        variables: { intensity: 0.5 },
+      },
+    });
+
+    await act(async () => {});
+
+    // New object reference, same values
+    rerender({ ...defaultProps(elementRef), variables: { intensity: 0.5 } });
+    await act(async () => {});
+
+    expect(setVariables).not.toHaveBeenCalled();
+  });
+
+  it("syncs preset changes via setPreset without re-initializing", async () => {
+    const setPreset = vi.fn();
+    const scene = createMockScene({ setPreset });
+    addSceneMock.mockResolvedValue(scene);
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: { ...defaultProps(elementRef), preset: "Light Theme" },
+    });
+
+    await act(async () => {});
+    expect(setPreset).not.toHaveBeenCalled();
+
+    rerender({ ...defaultProps(elementRef), preset: "Dark Theme" });
+    await act(async () => {});
+
+    expect(setPreset).toHaveBeenCalledWith("Dark Theme");
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("subscribes to variable changes and unsubscribes on unmount", async () => {
+    const unsubscribe = vi.fn();
+    let subscribedCallback:
+      ((name: string, value: unknown, values: object) => void) | undefined;
+    const scene = createMockScene({
+      onVariableChange: vi.fn((cb) => {
+        subscribedCallback = cb;
+        return unsubscribe;
+      }),
+    });
+    addSceneMock.mockResolvedValueOnce(scene);
+
+    const onVariableChange = vi.fn();
+
+    const { unmount } = renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), onVariableChange }),
+    );
+
+    await act(async () => {});
+    expect(scene.onVariableChange).toHaveBeenCalledTimes(1);
+
+    subscribedCallback?.("intensity", 0.9, { intensity: 0.9 });
+    expect(onVariableChange).toHaveBeenCalledWith("intensity", 0.9, {
+      intensity: 0.9,
+    });
+
+    unmount();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it("notifies useUnicornVariables bound to the sceneRef", async () => {
+    const sceneRef = { current: null as UnicornStudioScene | null };
+    addSceneMock.mockResolvedValueOnce(
+      createMockScene({ getVariables: () => ({ intensity: 0.4 }) }),
+    );
+
+    const { result } = renderHook(() => {
+      useUnicornScene({ ...defaultProps(elementRef), sceneRef });
+      return useUnicornVariables(sceneRef);
+    });
+    await act(async () => {});
+
+    expect(result.current[0]).toEqual({ intensity: 0.4 });
+  });
+
+  it("applies variables and preset that changed while scene creation was pending", async () => {
+    const setVariables = vi.fn();
+    const setPreset = vi.fn();
+    const scene = createMockScene({ setVariables, setPreset });
+
+    let resolveAddScene!: (value: UnicornStudioScene) => void;
+    addSceneMock.mockReturnValue(
+      new Promise<UnicornStudioScene>((resolve) => {
+        resolveAddScene = resolve;
+      }),
+    );
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
+        variables: { intensity: 0.2 },
+        preset: "Dark Theme",
+      },
+    });
+
+    // Props change while addScene() is still in flight, so the scene config was
+    // already built with the previous values.
+    rerender({
+      ...defaultProps(elementRef),
+      variables: { intensity: 0.9 },
+      preset: "Light Theme",
+    });
+
+    await act(async () => {
+      resolveAddScene(scene);
+    });
+
+    expect(setVariables).toHaveBeenCalledWith({ intensity: 0.9 });
+    expect(setPreset).toHaveBeenCalledWith("Light Theme");
+  });
+
+  it("does not replay variables or preset that were unchanged during creation", async () => {
+    const setVariables = vi.fn();
+    const setPreset = vi.fn();
+    const scene = createMockScene({ setVariables, setPreset });
+    addSceneMock.mockResolvedValue(scene);
+
+    renderHook(() =>
+      useUnicornScene({
+        ...defaultProps(elementRef),
+        variables: { intensity: 0.2 },
+        preset: "Dark Theme",
+      }),
+    );
+
+    await act(async () => {});
+
+    // Delivered via initialVariables/initialPreset in the scene config.
+    expect(setVariables).not.toHaveBeenCalled();
+    expect(setPreset).not.toHaveBeenCalled();
+  });
+
+  it("animates variable changes with variableTransition", async () => {
+    const setVariables = vi.fn();
+    addSceneMock.mockResolvedValue(
+      createMockScene({
+        setVariables,
+        getVariables: () => ({ intensity: 0.2 }),
+      }),
+    );
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
+        variables: { intensity: 0.2 },
+        variableTransition: { duration: 30 },
+      },
+    });
+    await act(async () => {});
+
+    rerender({
+      ...defaultProps(elementRef),
+      variables: { intensity: 0.9 },
+      variableTransition: { duration: 30 },
+    });
+    await act(async () => {});
+
+    // The first frame is scheduled, not applied synchronously
+    expect(setVariables).not.toHaveBeenCalledWith({ intensity: 0.9 });
+
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    });
+
+    expect(setVariables).toHaveBeenLastCalledWith({ intensity: 0.9 });
+    expect(addSceneMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("animates preset changes with presetTransition", async () => {
+    const setVariables = vi.fn();
+    const setPreset = vi.fn();
+    const presets = [
+      { id: "p1", name: "Day", values: { intensity: 0.2, grain: false } },
+      { id: "p2", name: "Night", values: { intensity: 0.9, grain: true } },
+    ];
+    addSceneMock.mockResolvedValue(
+      createMockScene({
+        setVariables,
+        setPreset,
+        getVariables: () => ({ intensity: 0.2, grain: false }),
+        getPreset: (idOrName) =>
+          presets.find(
+            ({ id, name }) => id === idOrName || name === idOrName,
+          ) ?? null,
+      }),
+    );
+
+    const { rerender } = renderHook((props) => useUnicornScene(props), {
+      initialProps: {
+        ...defaultProps(elementRef),
+        preset: "Day",
+        presetTransition: { duration: 30 },
+      },
+    });
+    await act(async () => {});
+
+    rerender({
+      ...defaultProps(elementRef),
+      preset: "Night",
+      presetTransition: { duration: 30 },
+    });
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    });
+
+    expect(setVariables).toHaveBeenCalledWith(
+      expect.objectContaining({ grain: true }),
+    );
+    expect(setVariables).toHaveBeenLastCalledWith({ intensity: 0.9 });
+    // The preset becomes active once its values are reached
+    expect(setPreset).toHaveBeenCalledTimes(1);
+    expect(setPreset).toHaveBeenCalledWith("Night");
+
+    // Presets the scene can't resolve are left to the SDK
+    rerender({
+      ...defaultProps(elementRef),
+      preset: "Unknown",
+      presetTransition: { duration: 30 },
+    });
+    await act(async () => {});
+
+    expect(setPreset).toHaveBeenCalledWith("Unknown");
+  });
+
+  describe("validateVariables", () => {
+    const definitions = [
+      {
+        id: "v1",
+        name: "intensity",
+        type: "number",
+        validation: { min: 0, max: 1, step: 0.1 },
+      },
+      { id: "v2", name: "brandColor", type: "color" },
+    ];
+
+    it("applies clamped values after creation instead of as initialVariables", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValueOnce(
+        createMockScene({
+          setVariables,
+          getVariableDefinitions: () => definitions,
+        }),
+      );
+      const onVariableViolation = vi.fn();
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 1.5, brandColor: "purple" },
+          validateVariables: "clamp",
+          onVariableViolation,
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock.mock.calls[0][0].initialVariables).toBeUndefined();
+      expect(setVariables).toHaveBeenCalledWith({ intensity: 1 });
+      expect(onVariableViolation).toHaveBeenCalledWith([
+        expect.objectContaining({
+          name: "intensity",
+          reason: "range",
+          appliedValue: 1,
+        }),
+        expect.objectContaining({ name: "brandColor", reason: "type" }),
+      ]);
+    });
+
+    it("only reports initial values in warn mode", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValueOnce(
+        createMockScene({
+          setVariables,
+          getVariableDefinitions: () => definitions,
+        }),
+      );
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.25 },
+          validateVariables: "warn",
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock.mock.calls[0][0].initialVariables).toEqual({
+        intensity: 0.25,
+      });
+      expect(setVariables).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Variable "intensity" expects a multiple of 0.1',
+        ),
+      );
+      warn.mockRestore();
+    });
+
+    it("drops invalid values synced in strict mode", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValue(
+        createMockScene({
+          setVariables,
+          getVariableDefinitions: () => definitions,
+        }),
+      );
+      const onVariableViolation = vi.fn();
+
+      const { rerender } = renderHook((props) => useUnicornScene(props), {
+        initialProps: {
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.5 },
+          validateVariables: "strict" as const,
+          onVariableViolation,
+        },
+      });
+      await act(async () => {});
+      expect(setVariables).toHaveBeenLastCalledWith({ intensity: 0.5 });
+
+      rerender({
+        ...defaultProps(elementRef),
+        variables: { intensity: -1, brandColor: "#fff" },
+        validateVariables: "strict",
+        onVariableViolation,
+      });
+      await act(async () => {});
+
+      expect(setVariables).toHaveBeenLastCalledWith({ brandColor: "#fff" });
+      expect(onVariableViolation).toHaveBeenCalledWith([
+        expect.objectContaining({ name: "intensity", appliedValue: undefined }),
+      ]);
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("scrollVariables", () => {
+    const nextFrame = () =>
+      act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      });
+
+    it("applies values once ready and on scroll while in view", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValueOnce(createMockScene({ setVariables }));
+      vi.spyOn(window, "innerHeight", "get").mockReturnValue(800);
+      const rect = vi
+        .spyOn(containerEl, "getBoundingClientRect")
+        .mockReturnValue({ top: 800, height: 200 } as DOMRect);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          scrollVariables: {
+            intensity: [
+              [0, 0.5],
+              [1, 1],
+            ],
+          },
+        }),
+      );
+      await act(async () => {});
+
+      expect(setVariables).toHaveBeenCalledWith({ intensity: 0.5 });
+
+      // Not listening until the container comes into view
+      rect.mockReturnValue({ top: 300, height: 200 } as DOMRect);
+      window.dispatchEvent(new Event("scroll"));
+      await nextFrame();
+      expect(setVariables).toHaveBeenCalledTimes(1);
+
+      const observer = MockIntersectionObserver.instances.find((o) =>
+        o.elements.has(containerEl),
+      )!;
+      act(() => {
+        observer.simulateIntersection(containerEl, { isIntersecting: true });
+      });
+      await nextFrame();
+      expect(setVariables).toHaveBeenLastCalledWith({ intensity: 0.75 });
+
+      rect.mockReturnValue({ top: -200, height: 200 } as DOMRect);
+      window.dispatchEvent(new Event("scroll"));
+      window.dispatchEvent(new Event("scroll"));
+      await nextFrame();
+      expect(setVariables).toHaveBeenCalledTimes(3);
+      expect(setVariables).toHaveBeenLastCalledWith({ intensity: 1 });
+
+      // Unchanged values aren't re-applied
+      window.dispatchEvent(new Event("scroll"));
+      await nextFrame();
+      expect(setVariables).toHaveBeenCalledTimes(3);
+    });
+
+    it("follows the page progress of a custom scroll container", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValueOnce(createMockScene({ setVariables }));
+      const scrollContainer = document.createElement("div");
+      let scrollTop = 0;
+      Object.defineProperties(scrollContainer, {
+        scrollTop: { get: () => scrollTop },
+        scrollHeight: { value: 1000 },
+        clientHeight: { value: 500 },
+      });
+
+      const { unmount } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          scrollVariables: {
+            grain: [
+              [0, false],
+              [0.5, true],
+            ],
+          },
+          scrollOptions: { source: "page", scrollContainer },
+        }),
+      );
+      await act(async () => {});
+
+      expect(setVariables).toHaveBeenLastCalledWith({ grain: false });
+
+      scrollTop = 250;
+      scrollContainer.dispatchEvent(new Event("scroll"));
+      await nextFrame();
+      expect(setVariables).toHaveBeenLastCalledWith({ grain: true });
+
+      unmount();
+      scrollTop = 0;
+      scrollContainer.dispatchEvent(new Event("scroll"));
+      await nextFrame();
+      expect(setVariables).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("gyroscope", () => {
+    beforeEach(() => {
+      // jsdom has no device orientation events
+      (window as Record<string, unknown>).DeviceOrientationEvent =
+        class extends Event {};
+    });
+
+    afterEach(() => {
+      delete (window as Record<string, unknown>).DeviceOrientationEvent;
+      delete (window as Partial<Window>).matchMedia;
+    });
 
-    rerender({ ...defaultProps(elementRef), variables: { intensity: 0.9 } });
-    await act(async () => {});
+    function tiltDevice(beta: number | null, gamma: number | null) {
+      window.dispatchEvent(
+        Object.assign(new Event("deviceorientation"), { beta, gamma }),
+      );
+    }
 
-    expect(setVariables).toHaveBeenCalledWith({ intensity: 0.9 });
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
-  });
+    const nextFrame = () =>
+      act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      });
 
-  it("does not call setVariables when a new object has identical values", async () => {
-    const setVariables = vi.fn();
-    const scene = createMockScene({ setVariables });
-    addSceneMock.mockResolvedValue(scene);
+    it("drives the pointer and Vec2 variables from the tilt", async () => {
+      const setVariables = vi.fn();
+      const mouse = {
+        page: { x: 0, y: 0 },
+        movePos: { x: 0.5, y: 0.5 },
+        movedInView: false,
+      };
+      addSceneMock.mockResolvedValueOnce(
+        Object.assign(createMockScene({ setVariables }), { mouse }),
+      );
+      const onMouseMove = vi.fn();
+      window.addEventListener("mousemove", onMouseMove);
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: {
-        ...defaultProps(elementRef),
-        variables: { intensity: 0.5 },
-      },
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          gyroscope: { variables: ["tilt"], smoothing: 0, range: 30 },
+        }),
+      );
+      await act(async () => {});
+
+      // The first reading is the neutral orientation
+      tiltDevice(45, 0);
+      await nextFrame();
+      expect(setVariables).toHaveBeenLastCalledWith({
+        tilt: { type: "Vec2", x: 0, y: 0 },
+      });
+
+      tiltDevice(60, -15);
+      await nextFrame();
+      expect(setVariables).toHaveBeenLastCalledWith({
+        tilt: { type: "Vec2", x: -0.5, y: 0.5 },
+      });
+      expect(mouse.movedInView).toBe(true);
+      // The pointer moves without events other listeners would receive
+      expect(onMouseMove).not.toHaveBeenCalled();
+
+      window.removeEventListener("mousemove", onMouseMove);
     });
 
-    await act(async () => {});
+    it("ignores devices without a sensor", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValueOnce(createMockScene({ setVariables }));
 
-    // New object reference, same values
-    rerender({ ...defaultProps(elementRef), variables: { intensity: 0.5 } });
-    await act(async () => {});
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          gyroscope: { variables: ["tilt"] },
+        }),
+      );
+      await act(async () => {});
 
-    expect(setVariables).not.toHaveBeenCalled();
+      tiltDevice(null, null);
+      await nextFrame();
+
+      expect(setVariables).not.toHaveBeenCalled();
+    });
+
+    it("leaves devices that can hover to the mouse", async () => {
+      const setVariables = vi.fn();
+      addSceneMock.mockResolvedValueOnce(createMockScene({ setVariables }));
+      window.matchMedia = vi.fn((query: string) => ({
+        matches: query === "(hover: hover)",
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+      })) as unknown as typeof window.matchMedia;
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          gyroscope: { variables: ["tilt"] },
+        }),
+      );
+      await act(async () => {});
+
+      tiltDevice(45, 0);
+      await nextFrame();
+
+      expect(setVariables).not.toHaveBeenCalled();
+    });
   });
 
-  it("syncs preset changes via setPreset without re-initializing", async () => {
-    const setPreset = vi.fn();
-    const scene = createMockScene({ setPreset });
-    addSceneMock.mockResolvedValue(scene);
+  describe("syncToUrl", () => {
+    afterEach(() => {
+      window.history.replaceState(null, "", "/");
+    });
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: { ...defaultProps(elementRef), preset: "Light Theme" },
+    const debounced = () =>
+      act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+
+    it("restores the URL on creation, taking precedence over the props", async () => {
+      window.history.replaceState(
+        null,
+        "",
+        "/?ref=home&scene=Night&scene.tint=x7c3aed",
+      );
+      addSceneMock.mockResolvedValueOnce(createLiveScene({}));
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.2, tint: "#ffffff" },
+          preset: "Day",
+          syncToUrl: true,
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock.mock.calls[0][0]).toMatchObject({
+        initialPreset: "Night",
+        initialVariables: { intensity: 0.2, tint: "#7c3aed" },
+      });
     });
 
-    await act(async () => {});
-    expect(setPreset).not.toHaveBeenCalled();
+    it("keeps restored values over validated props", async () => {
+      window.history.replaceState(null, "", "/?scene.intensity=0.7");
+      const scene = createLiveScene({ intensity: 0.5, tint: "#000000" });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.2, tint: "#ffffff" },
+          validateVariables: "clamp",
+          syncToUrl: true,
+        }),
+      );
+      await act(async () => {});
 
-    rerender({ ...defaultProps(elementRef), preset: "Dark Theme" });
-    await act(async () => {});
+      expect(addSceneMock.mock.calls[0][0].initialVariables).toBeUndefined();
+      expect(scene.setVariables).toHaveBeenCalledTimes(1);
+      expect(scene.getVariables?.()).toEqual({
+        intensity: 0.7,
+        tint: "#ffffff",
+      });
+    });
 
-    expect(setPreset).toHaveBeenCalledWith("Dark Theme");
-    expect(addSceneMock).toHaveBeenCalledTimes(1);
-  });
+    it("writes the preset and changed variables after changes", async () => {
+      window.history.replaceState({ router: "state" }, "", "/?ref=home#top");
+      const scene = createLiveScene({ intensity: 0.9, tint: "#000000" });
+      addSceneMock.mockResolvedValueOnce(scene);
 
-  it("subscribes to variable changes and unsubscribes on unmount", async () => {
-    const unsubscribe = vi.fn();
-    let subscribedCallback:
-      | ((name: string, value: unknown, values: object) => void)
-      | undefined;
-    const scene = createMockScene({
-      onVariableChange: vi.fn((cb) => {
-        subscribedCallback = cb;
-        return unsubscribe;
-      }),
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          preset: "Night",
+          syncToUrl: { param: "s", debounce: 10 },
+        }),
+      );
+      await act(async () => {});
+
+      scene.setVariables?.({ tint: "#ff0000" });
+      scene.setVariables?.({ tint: "#7c3aed" });
+      expect(window.location.search).toBe("?ref=home");
+      await debounced();
+
+      expect(window.location.search).toBe("?ref=home&s=Night&s.tint=x7c3aed");
+      expect(window.location.hash).toBe("#top");
+      expect(window.history.state).toEqual({ router: "state" });
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
     });
-    addSceneMock.mockResolvedValueOnce(scene);
 
-    const onVariableChange = vi.fn();
+    it("pushes changes and restores entries the history moves to", async () => {
+      const scene = createLiveScene({ intensity: 0.5, tint: "#000000" });
+      addSceneMock.mockResolvedValueOnce(scene);
+      const historyLength = window.history.length;
 
-    const { unmount } = renderHook(() =>
-      useUnicornScene({ ...defaultProps(elementRef), onVariableChange }),
-    );
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          syncToUrl: { history: "push", debounce: 0 },
+        }),
+      );
+      await act(async () => {});
 
-    await act(async () => {});
-    expect(scene.onVariableChange).toHaveBeenCalledTimes(1);
+      scene.setVariables?.({ intensity: 0.7 });
+      await debounced();
+      expect(window.location.search).toBe("?scene.intensity=0.7");
+      expect(window.history.length).toBe(historyLength + 1);
 
-    subscribedCallback?.("intensity", 0.9, { intensity: 0.9 });
-    expect(onVariableChange).toHaveBeenCalledWith("intensity", 0.9, {
-      intensity: 0.9,
+      window.history.replaceState(null, "", "/?scene=Night&scene.tint=xffffff");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      await debounced();
+
+      expect(scene.setPreset).toHaveBeenCalledWith("Night");
+      expect(scene.setVariables).toHaveBeenLastCalledWith({
+        intensity: 0.9,
+        tint: "#ffffff",
+      });
+      // Restoring doesn't write the entry back
+      expect(window.location.search).toBe("?scene=Night&scene.tint=xffffff");
+      expect(window.history.length).toBe(historyLength + 1);
     });
 
-    unmount();
-    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    it("doesn't re-initialize when the option changes", async () => {
+      addSceneMock.mockResolvedValue(createLiveScene({}));
+
+      const { rerender } = renderHook((props) => useUnicornScene(props), {
+        initialProps: { ...defaultProps(elementRef), syncToUrl: true },
+      });
+      await act(async () => {});
+
+      rerender({
+        ...defaultProps(elementRef),
+        syncToUrl: { history: "push" },
+      });
+      rerender({ ...defaultProps(elementRef), syncToUrl: false });
+      await act(async () => {});
+
+      expect(addSceneMock).toHaveBeenCalledTimes(1);
+    });
   });
 
-  it("applies variables and preset that changed while scene creation was pending", async () => {
-    const setVariables = vi.fn();
-    const setPreset = vi.fn();
-    const scene = createMockScene({ setVariables, setPreset });
+  describe("persist", () => {
+    const persist = { key: "hero", debounce: 10 };
 
-    let resolveAddScene!: (value: UnicornStudioScene) => void;
-    addSceneMock.mockReturnValue(
-      new Promise<UnicornStudioScene>((resolve) => {
-        resolveAddScene = resolve;
-      }),
-    );
+    afterEach(() => {
+      localStorage.clear();
+      window.history.replaceState(null, "", "/");
+    });
 
-    const { rerender } = renderHook((props) => useUnicornScene(props), {
-      initialProps: {
-        ...defaultProps(elementRef),
-        variables: { intensity: 0.2 },
-        preset: "Dark Theme",
-      },
+    const debounced = () =>
+      act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+
+    function save(state: object) {
+      localStorage.setItem("hero", JSON.stringify(state));
+    }
+
+    it("saves the preset and values after changes", async () => {
+      const scene = createLiveScene({ intensity: 0.9, tint: "#000000" });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          preset: "Night",
+          persist: { ...persist, variables: ["tint"] },
+        }),
+      );
+      await act(async () => {});
+
+      scene.setVariables?.({ tint: "#7c3aed" });
+      expect(localStorage.getItem("hero")).toBeNull();
+      await debounced();
+
+      expect(JSON.parse(localStorage.getItem("hero") ?? "")).toEqual({
+        version: getDefinitionsVersion(scene),
+        preset: "Night",
+        variables: { tint: "#7c3aed" },
+      });
     });
 
-    // Props change while addScene() is still in flight, so the scene config was
-    // already built with the previous values.
-    rerender({
-      ...defaultProps(elementRef),
-      variables: { intensity: 0.9 },
-      preset: "Light Theme",
+    it("saves pending values on unmount", async () => {
+      const scene = createLiveScene({ intensity: 0.5 });
+      addSceneMock.mockResolvedValueOnce(scene);
+      const storage = {
+        getItem: vi.fn(() => null),
+        setItem: vi.fn(),
+        removeItem: vi.fn(),
+      };
+
+      const { unmount } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          persist: { key: "hero", storage },
+        }),
+      );
+      await act(async () => {});
+
+      scene.setVariables?.({ intensity: 0.7 });
+      unmount();
+
+      expect(storage.setItem).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(storage.setItem.mock.calls[0][1])).toMatchObject({
+        variables: { intensity: 0.7 },
+      });
     });
 
-    await act(async () => {
-      resolveAddScene(scene);
+    it("restores saved values, under the URL and over the props", async () => {
+      const scene = createLiveScene({});
+      save({
+        version: getDefinitionsVersion(scene),
+        preset: "Night",
+        variables: { intensity: 0.8, tint: "#7c3aed" },
+      });
+      window.history.replaceState(null, "", "/?scene.tint=xffffff");
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.2 },
+          preset: "Day",
+          syncToUrl: true,
+          persist,
+        }),
+      );
+      await act(async () => {});
+
+      // Saved values wait for the scene's definitions
+      expect(addSceneMock.mock.calls[0][0]).toMatchObject({
+        initialPreset: "Day",
+        initialVariables: { intensity: 0.2, tint: "#ffffff" },
+      });
+      expect(scene.setPreset).toHaveBeenCalledWith("Night");
+      expect(scene.getVariables?.()).toMatchObject({
+        intensity: 0.8,
+        tint: "#ffffff",
+      });
     });
 
-    expect(setVariables).toHaveBeenCalledWith({ intensity: 0.9 });
-    expect(setPreset).toHaveBeenCalledWith("Light Theme");
+    it.each(["clamp", "strict"] as const)(
+      "restores saved values over validated props in %s mode",
+      async (validateVariables) => {
+        const scene = createLiveScene({ intensity: 0.5, tint: "#000000" });
+        save({
+          version: getDefinitionsVersion(scene),
+          variables: { intensity: 0.8 },
+        });
+        addSceneMock.mockResolvedValueOnce(scene);
+
+        renderHook(() =>
+          useUnicornScene({
+            ...defaultProps(elementRef),
+            variables: { intensity: 0.2, tint: "#ffffff" },
+            validateVariables,
+            persist,
+          }),
+        );
+        await act(async () => {});
+
+        expect(addSceneMock.mock.calls[0][0].initialVariables).toBeUndefined();
+        expect(scene.setVariables).toHaveBeenCalledTimes(1);
+        expect(scene.getVariables?.()).toEqual({
+          intensity: 0.8,
+          tint: "#ffffff",
+        });
+      },
+    );
+
+    it("discards values saved against other variable definitions", async () => {
+      const scene = createLiveScene({ intensity: 0.2, tint: "#000000" });
+      save({
+        version: getDefinitionsVersion(
+          createLiveScene({}, LIVE_DEFINITIONS.slice(1)),
+        ),
+        variables: { intensity: 0.8, tint: "#7c3aed" },
+      });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { intensity: 0.2 },
+          persist,
+        }),
+      );
+      await act(async () => {});
+
+      expect(addSceneMock.mock.calls[0][0].initialVariables).toEqual({
+        intensity: 0.2,
+      });
+      expect(localStorage.getItem("hero")).toBeNull();
+      expect(scene.setVariables).not.toHaveBeenCalled();
+    });
   });
 
-  it("does not replay variables or preset that were unchanged during creation", async () => {
-    const setVariables = vi.fn();
-    const setPreset = vi.fn();
-    const scene = createMockScene({ setVariables, setPreset });
-    addSceneMock.mockResolvedValue(scene);
+  describe("themeBindings", () => {
+    let style: HTMLStyleElement;
 
-    renderHook(() =>
-      useUnicornScene({
-        ...defaultProps(elementRef),
-        variables: { intensity: 0.2 },
-        preset: "Dark Theme",
-      }),
+    beforeEach(() => {
+      style = document.createElement("style");
+      style.textContent = `
+        #test-container { --brand: #7c3aed; --radius: 50%; }
+        .dark #test-container { --brand: rgb(255, 255, 255); }
+      `;
+      document.head.appendChild(style);
+    });
+
+    afterEach(() => {
+      style.remove();
+      document.body.classList.remove("dark");
+      delete (window as Partial<Window>).matchMedia;
+    });
+
+    const nextFrame = () =>
+      act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      });
+
+    it("applies the theme on creation, over other initial values", async () => {
+      const scene = createLiveScene(
+        { brandColor: "#000000", intensity: 0.2, radius: 1, darkMode: 1 },
+        [
+          { id: "v1", name: "brandColor", type: "color" },
+          { id: "v2", name: "radius", type: "number" },
+          { id: "v3", name: "darkMode", type: "number" },
+        ],
+      );
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          variables: { brandColor: "#000000", intensity: 0.2 },
+          themeBindings: {
+            brandColor: "var(--brand)",
+            radius: "var(--radius)",
+            darkMode: "prefers-color-scheme",
+          },
+        }),
+      );
+      await act(async () => {});
+
+      // Theme values wait for the definitions that give them their types
+      expect(addSceneMock.mock.calls[0][0].initialVariables).toEqual({
+        brandColor: "#000000",
+        intensity: 0.2,
+      });
+      expect(scene.setVariables).toHaveBeenCalledTimes(1);
+      expect(scene.setVariables).toHaveBeenCalledWith({
+        brandColor: "#7c3aed",
+        radius: 0.5,
+        darkMode: 0,
+      });
+    });
+
+    it.each(["clamp", "strict"] as const)(
+      "applies the theme over validated props in %s mode",
+      async (validateVariables) => {
+        const scene = createLiveScene(
+          { brandColor: "#000000", intensity: 0.5 },
+          [
+            { id: "v1", name: "brandColor", type: "color" },
+            { id: "v2", name: "intensity", type: "number" },
+          ],
+        );
+        addSceneMock.mockResolvedValueOnce(scene);
+
+        renderHook(() =>
+          useUnicornScene({
+            ...defaultProps(elementRef),
+            variables: { brandColor: "#ffffff", intensity: 0.2 },
+            validateVariables,
+            themeBindings: { brandColor: "var(--brand)" },
+          }),
+        );
+        await act(async () => {});
+
+        expect(scene.setVariables).toHaveBeenCalledTimes(1);
+        expect(scene.getVariables?.()).toEqual({
+          brandColor: "#7c3aed",
+          intensity: 0.2,
+        });
+      },
     );
 
-    await act(async () => {});
+    it("re-applies changed values when an ancestor's class changes", async () => {
+      const scene = createLiveScene({ brandColor: "#7c3aed", radius: 0.5 });
+      addSceneMock.mockResolvedValueOnce(scene);
+
+      renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          themeBindings: {
+            brandColor: "var(--brand)",
+            radius: "var(--radius)",
+          },
+        }),
+      );
+      await act(async () => {});
 
-    // Delivered via initialVariables/initialPreset in the scene config.
-    expect(setVariables).not.toHaveBeenCalled();
-    expect(setPreset).not.toHaveBeenCalled();
+      document.body.classList.add("dark");
+      await nextFrame();
+
+      expect(scene.setVariables).toHaveBeenCalledTimes(1);
+      expect(scene.setVariables).toHaveBeenCalledWith({
+        brandColor: "#ffffff",
+      });
+    });
+
+    it("re-applies media queries when they change", async () => {
+      const scene = createLiveScene({ darkMode: false });
+      addSceneMock.mockResolvedValueOnce(scene);
+      const listeners = new Set<() => void>();
+      let dark = false;
+      window.matchMedia = vi.fn(() => ({
+        get matches() {
+          return dark;
+        },
+        addEventListener: (_: string, listener: () => void) =>
+          listeners.add(listener),
+        removeEventListener: (_: string, listener: () => void) =>
+          listeners.delete(listener),
+      })) as unknown as typeof window.matchMedia;
+
+      const { unmount } = renderHook(() =>
+        useUnicornScene({
+          ...defaultProps(elementRef),
+          reducedMotion: "ignore",
+          themeBindings: { darkMode: "prefers-color-scheme" },
+        }),
+      );
+      await act(async () => {});
+      expect(scene.setVariables).not.toHaveBeenCalled();
+
+      dark = true;
+      listeners.forEach((listener) => listener());
+      await nextFrame();
+      expect(scene.setVariables).toHaveBeenLastCalledWith({ darkMode: true });
+
+      unmount();
+      expect(listeners.size).toBe(0);
+    });
   });
 
   it("handles scenes without the variables API gracefully", async () => {
@@ -600,6 +2958,48 @@ describe("useUnicornScene", () => {
     expect(result.current.error?.message).toBe("Network error occurred");
   });
 
+  it("reports a typed error with code, phase and cause", async () => {
+    const original = new Error("Network failure");
+    addSceneMock.mockRejectedValueOnce(original);
+    const onError = vi.fn();
+
+    const { result } = renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), onError }),
+    );
+
+    await act(async () => {});
+
+    expect(result.current.error).toBeInstanceOf(UnicornSceneError);
+    expect(result.current.error).toMatchObject({
+      code: "NETWORK",
+      phase: "scene-init",
+      cause: original,
+    });
+    expect(onError).toHaveBeenCalledWith(result.current.error);
+  });
+
+  it("reports invalid parameters with the INVALID_PARAMS code", async () => {
+    const { result } = renderHook(() =>
+      useUnicornScene({ ...defaultProps(elementRef), fps: 45 as 60 }),
+    );
+
+    await act(async () => {});
+
+    expect(result.current.error?.code).toBe("INVALID_PARAMS");
+  });
+
+  it("reports a missing SDK global with the SDK_GLOBAL_MISSING code", async () => {
+    (window as Record<string, unknown>).UnicornStudio = {};
+
+    const { result } = renderHook(() =>
+      useUnicornScene(defaultProps(elementRef)),
+    );
+
+    await act(async () => {});
+
+    expect(result.current.error?.code).toBe("SDK_GLOBAL_MISSING");
+  });
+
   // -----------------------------------------------------------------------
   // Cleanup when addScene resolves after unmount (ignore flag)
   // -----------------------------------------------------------------------
@@ -1,55 +1,204 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import {
-  isWebGLSupported,
+  isProductionBuild,
   validateFPS,
   validateScale,
   validateParameters,
+  validateQualityTiers,
+  validateWebGLCapabilities,
+  withTimeout,
 } from "../shared/utils";
 
-describe("isWebGLSupported", () => {
+describe("getWebGLCapabilities", () => {
+  const constants = {
+    RENDERER: 0x1f01,
+    MAX_TEXTURE_SIZE: 0x0d33,
+  };
+
+  /** Creates a context exposing `extensions` and the given parameters. */
+  function createMockContext(
+    extensions: string[],
+    parameters: Record<number, unknown> = {},
+  ) {
+    return {
+      ...constants,
+      getExtension: vi.fn((name: string) =>
+        extensions.includes(name) ? {} : null,
+      ),
+      getParameter: vi.fn((parameter: number) => parameters[parameter]),
+    };
+  }
+
+  /** Stubs `document.createElement` with canvases returning `getContext`. */
+  function stubCanvas(
+    getContext: (type: string, attributes?: object) => unknown,
+  ) {
+    const mockGetContext = vi.fn(getContext);
+    vi.spyOn(document, "createElement").mockImplementation(
+      () => ({ getContext: mockGetContext }) as unknown as HTMLCanvasElement,
+    );
+    return mockGetContext;
+  }
+
+  // The probe result is cached per module instance
+  async function loadGetWebGLCapabilities() {
+    vi.resetModules();
+    const utils = await import("../shared/utils");
+    return utils.getWebGLCapabilities;
+  }
+
   afterEach(() => {
     vi.restoreAllMocks();
   });
 
-  it("returns true during SSR (no window)", () => {
+  it("returns null during SSR (no window)", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
     const windowSpy = vi.spyOn(globalThis, "window", "get");
     windowSpy.mockReturnValue(
       undefined as unknown as Window & typeof globalThis,
     );
-    expect(isWebGLSupported()).toBe(true);
+    expect(getWebGLCapabilities()).toBeNull();
   });
 
-  it("returns true when WebGL is supported", () => {
-    const mockCanvas = {
-      getContext: vi.fn().mockReturnValue({}),
-    };
-    vi.spyOn(document, "createElement").mockReturnValue(
-      mockCanvas as unknown as HTMLCanvasElement,
+  it("reports WebGL2 features and the renderer", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
+    const gl = createMockContext(["EXT_color_buffer_float"], {
+      [constants.RENDERER]: "Test GPU",
+      [constants.MAX_TEXTURE_SIZE]: 16384,
+    });
+    stubCanvas((type) => (type === "webgl2" ? gl : null));
+
+    expect(getWebGLCapabilities()).toEqual({
+      supported: true,
+      webgl2: true,
+      maxTextureSize: 16384,
+      floatRenderTarget: true,
+      halfFloatRenderTarget: true,
+      renderer: "Test GPU",
+      majorPerformanceCaveat: false,
+    });
+  });
+
+  it("falls back to WebGL1 extensions", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
+    const gl = createMockContext(
+      ["OES_texture_half_float", "EXT_color_buffer_half_float"],
+      { [constants.MAX_TEXTURE_SIZE]: 4096 },
     );
-    expect(isWebGLSupported()).toBe(true);
-    expect(mockCanvas.getContext).toHaveBeenCalledWith("webgl");
+    const getContext = stubCanvas((type) => (type === "webgl" ? gl : null));
+
+    expect(getWebGLCapabilities()).toMatchObject({
+      supported: true,
+      webgl2: false,
+      maxTextureSize: 4096,
+      floatRenderTarget: false,
+      halfFloatRenderTarget: true,
+      renderer: null,
+    });
+    expect(getContext).toHaveBeenCalledWith("webgl2", {
+      failIfMajorPerformanceCaveat: true,
+    });
   });
 
-  it("returns false when WebGL is not supported", () => {
-    const mockCanvas = {
-      getContext: vi.fn().mockReturnValue(null),
-    };
-    vi.spyOn(document, "createElement").mockReturnValue(
-      mockCanvas as unknown as HTMLCanvasElement,
+  it("detects a major performance caveat", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
+    const gl = createMockContext([]);
+    stubCanvas((_, attributes) =>
+      (attributes as WebGLContextAttributes).failIfMajorPerformanceCaveat
+        ? null
+        : gl,
     );
-    expect(isWebGLSupported()).toBe(false);
+
+    expect(getWebGLCapabilities()).toMatchObject({
+      supported: true,
+      majorPerformanceCaveat: true,
+    });
+  });
+
+  it("reports no support when no context can be created", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
+    stubCanvas(() => null);
+
+    expect(getWebGLCapabilities()).toMatchObject({
+      supported: false,
+      maxTextureSize: 0,
+    });
+  });
+
+  it("reports no support when getContext throws", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
+    stubCanvas(() => {
+      throw new Error("WebGL not available");
+    });
+
+    expect(getWebGLCapabilities()?.supported).toBe(false);
   });
 
-  it("returns false when getContext throws", () => {
-    const mockCanvas = {
-      getContext: vi.fn().mockImplementation(() => {
-        throw new Error("WebGL not available");
+  it("probes once and caches the result", async () => {
+    const getWebGLCapabilities = await loadGetWebGLCapabilities();
+    const getContext = stubCanvas(() => createMockContext([]));
+
+    const first = getWebGLCapabilities();
+    const second = getWebGLCapabilities();
+
+    expect(second).toBe(first);
+    expect(getContext).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("validateWebGLCapabilities", () => {
+  const capabilities = {
+    supported: true,
+    webgl2: false,
+    maxTextureSize: 4096,
+    floatRenderTarget: false,
+    halfFloatRenderTarget: true,
+    renderer: "ANGLE (SwiftShader Device)",
+    majorPerformanceCaveat: true,
+  };
+
+  it("accepts any supported device without requirements", () => {
+    expect(validateWebGLCapabilities(capabilities)).toBeNull();
+  });
+
+  it("rejects devices without WebGL", () => {
+    expect(
+      validateWebGLCapabilities({ ...capabilities, supported: false }),
+    ).toBe("WebGL is not supported");
+  });
+
+  it("accepts devices that meet every requirement", () => {
+    expect(
+      validateWebGLCapabilities(capabilities, {
+        maxTextureSize: 4096,
+        halfFloatRenderTarget: true,
       }),
-    };
-    vi.spyOn(document, "createElement").mockReturnValue(
-      mockCanvas as unknown as HTMLCanvasElement,
+    ).toBeNull();
+  });
+
+  it.each([
+    [{ webgl2: true }, "WebGL2 is not supported"],
+    [
+      { maxTextureSize: 8192 },
+      "Max texture size 4096 is below the required 8192",
+    ],
+    [{ floatRenderTarget: true }, "Float render targets are not supported"],
+    [
+      { failIfMajorPerformanceCaveat: true },
+      "WebGL is only available with a major performance caveat",
+    ],
+    [
+      { blockedRenderers: ["swiftshader"] },
+      "Renderer ANGLE (SwiftShader Device) is blocked",
+    ],
+    [
+      { blockedRenderers: [/SwiftShader/] },
+      "Renderer ANGLE (SwiftShader Device) is blocked",
+    ],
+  ])("rejects %o", (minCapabilities, expected) => {
+    expect(validateWebGLCapabilities(capabilities, minCapabilities)).toBe(
+      expected,
     );
-    expect(isWebGLSupported()).toBe(false);
   });
 });
 
@@ -103,3 +252,91 @@ describe("validateParameters", () => {
     expect(result).toContain("Invalid scale");
   });
 });
+
+describe("validateQualityTiers", () => {
+  it("returns null when every tier is valid", () => {
+    expect(
+      validateQualityTiers([
+        { scale: 1, dpi: 1.5, fps: 60 },
+        { scale: 0.5, dpi: 1, fps: 30 },
+      ]),
+    ).toBeNull();
+  });
+
+  it("requires at least one tier", () => {
+    expect(validateQualityTiers([])).toContain("at least one tier");
+  });
+
+  it("names the first invalid tier", () => {
+    const result = validateQualityTiers([
+      { scale: 1, dpi: 1.5, fps: 60 },
+      { scale: 0.5, dpi: 1, fps: 45 as 60 },
+    ]);
+    expect(result).toContain("tier 1");
+    expect(result).toContain("Invalid fps");
+  });
+
+  it("rejects a non-positive dpi", () => {
+    expect(validateQualityTiers([{ scale: 1, dpi: 0, fps: 60 }])).toContain(
+      "Invalid dpi",
+    );
+  });
+});
+
+describe("withTimeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves with the promise value when it settles in time", async () => {
+    await expect(withTimeout(Promise.resolve(42), 100, "late")).resolves.toBe(
+      42,
+    );
+  });
+
+  it("rejects with the given message when the timeout elapses", async () => {
+    vi.useFakeTimers();
+    const pending = withTimeout(new Promise(() => {}), 100, "Too slow");
+    const assertion = expect(pending).rejects.toThrow("Too slow");
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+});
+
+describe("isProductionBuild", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  /** Runs `isProductionBuild` as a bundler would emit it for `nodeEnv`. */
+  function buildFor(nodeEnv: string): () => boolean {
+    const source = isProductionBuild
+      .toString()
+      .replaceAll("process.env.NODE_ENV", JSON.stringify(nodeEnv));
+    return new Function("process", `return (${source})();`).bind(
+      null,
+      undefined,
+    );
+  }
+
+  it("reads NODE_ENV", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    expect(isProductionBuild()).toBe(true);
+
+    vi.stubEnv("NODE_ENV", "development");
+    expect(isProductionBuild()).toBe(false);
+  });
+
+  it("treats a missing process global as not production", () => {
+    vi.stubGlobal("process", undefined);
+
+    expect(isProductionBuild()).toBe(false);
+  });
+
+  it("detects production builds after the define is applied", () => {
+    expect(buildFor("production")()).toBe(true);
+    expect(buildFor("development")()).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { validateVariables } from "../shared/validation";
+import type { UnicornVariableDefinition } from "../shared/types";
+
+const DEFINITIONS: UnicornVariableDefinition[] = [
+  {
+    id: "v1",
+    name: "intensity",
+    type: "number",
+    validation: { min: 0, max: 1, step: 0.05 },
+  },
+  { id: "v2", name: "speed", type: "number", validation: { step: 0.5 } },
+  { id: "v3", name: "brandColor", type: "color" },
+  { id: "v4", name: "showGrain", type: "boolean" },
+  { id: "v5", name: "headline", type: "string" },
+  { id: "v6", name: "offset", type: "vec2" },
+  { id: "v7", name: "lightPosition", type: "vec3" },
+  { id: "v8", name: "image", type: "texture" },
+  { id: "v9", name: "anything", type: "value" },
+];
+
+describe("validateVariables", () => {
+  it("passes valid values through", () => {
+    const values = {
+      intensity: 0.35,
+      speed: 2.5,
+      brandColor: "#7c3aed",
+      showGrain: true,
+      headline: "Hello",
+      offset: { type: "Vec2" as const, x: 0.5, y: 0.5 },
+      lightPosition: { type: "Vec3" as const, x: 1, y: 2, z: 3 },
+      image: "/images/hero.png",
+      anything: "value",
+    };
+
+    expect(validateVariables(values, DEFINITIONS, "strict")).toEqual({
+      values,
+      violations: [],
+    });
+  });
+
+  it("accepts Vec3 colors and short hex colors", () => {
+    const result = validateVariables(
+      { brandColor: "#fff" },
+      DEFINITIONS,
+      "strict",
+    );
+    expect(result.violations).toEqual([]);
+
+    const vectorResult = validateVariables(
+      { brandColor: { type: "Vec3", x: 1, y: 0, z: 0 } },
+      DEFINITIONS,
+      "strict",
+    );
+    expect(vectorResult.violations).toEqual([]);
+  });
+
+  it.each([
+    ["intensity", "0.5", "a finite number"],
+    ["intensity", Number.NaN, "a finite number"],
+    ["brandColor", "purple", "a hex color"],
+    ["showGrain", "true", "a boolean"],
+    ["headline", 42, "a string"],
+    ["offset", { type: "Vec3", x: 0, y: 0, z: 0 }, "Vec2"],
+    ["lightPosition", { type: "Vec3", x: 0, y: 0 }, "Vec3"],
+    ["image", "  ", "a texture URL"],
+  ] as const)(
+    "reports a type violation for %s = %j",
+    (name, value, expected) => {
+      const { values, violations } = validateVariables(
+        { [name]: value },
+        DEFINITIONS,
+        "clamp",
+      );
+
+      expect(values).toEqual({});
+      expect(violations).toEqual([
+        expect.objectContaining({
+          name,
+          value,
+          reason: "type",
+          message: expect.stringContaining(expected),
+          appliedValue: undefined,
+        }),
+      ]);
+    },
+  );
+
+  it("reports unknown variables", () => {
+    const { values, violations } = validateVariables(
+      { brandColr: "#fff" },
+      DEFINITIONS,
+      "clamp",
+    );
+
+    expect(values).toEqual({});
+    expect(violations).toEqual([
+      {
+        name: "brandColr",
+        value: "#fff",
+        reason: "unknown",
+        message: 'Unknown variable "brandColr"',
+        definition: undefined,
+        appliedValue: undefined,
+      },
+    ]);
+  });
+
+  it("applies violating values unchanged in warn mode", () => {
+    const { values, violations } = validateVariables(
+      { intensity: 2, brandColor: "purple", brandColr: "#fff" },
+      DEFINITIONS,
+      "warn",
+    );
+
+    expect(values).toEqual({
+      intensity: 2,
+      brandColor: "purple",
+      brandColr: "#fff",
+    });
+    expect(violations.map((violation) => violation.reason)).toEqual([
+      "range",
+      "type",
+      "unknown",
+    ]);
+    expect(violations[0].appliedValue).toBe(2);
+  });
+
+  it.each([
+    [1.5, 1, "range"],
+    [-0.2, 0, "range"],
+    [0.33, 0.35, "step"],
+    [0.99, 1, "step"],
+  ])("clamps intensity %d to %d (%s)", (value, appliedValue, reason) => {
+    const { values, violations } = validateVariables(
+      { intensity: value },
+      DEFINITIONS,
+      "clamp",
+    );
+
+    expect(values).toEqual({ intensity: appliedValue });
+    expect(violations).toEqual([
+      expect.objectContaining({ reason, appliedValue }),
+    ]);
+  });
+
+  it("snaps to steps from zero without a minimum", () => {
+    const { values } = validateVariables({ speed: 1.8 }, DEFINITIONS, "clamp");
+
+    expect(values).toEqual({ speed: 2 });
+  });
+
+  it("tolerates floating point error when checking steps", () => {
+    const { violations } = validateVariables(
+      { intensity: 0.1 + 0.2 },
+      DEFINITIONS,
+      "strict",
+    );
+
+    expect(violations).toEqual([]);
+  });
+
+  it("drops every violating value in strict mode", () => {
+    const { values, violations } = validateVariables(
+      { intensity: 1.5, speed: 1, headline: "Hi" },
+      DEFINITIONS,
+      "strict",
+    );
+
+    expect(values).toEqual({ speed: 1, headline: "Hi" });
+    expect(violations).toEqual([
+      expect.objectContaining({
+        name: "intensity",
+        reason: "range",
+        message: 'Variable "intensity" expects at most 1, got 1.5',
+        appliedValue: undefined,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useUnicornVariable, useUnicornVariables } from "../shared/variables";
+import { notifySceneRef } from "../shared/scene-ref";
+import type {
+  UnicornStudioScene,
+  UnicornVariableChangeCallback,
+  UnicornVariables,
+} from "../shared/types";
+
+/** Creates a scene whose variables API behaves like the SDK's. */
+function createVariableScene(initialValues: UnicornVariables) {
+  const values = { ...initialValues };
+  const callbacks = new Set<UnicornVariableChangeCallback>();
+
+  const scene: UnicornStudioScene = {
+    element: document.createElement("div"),
+    destroy: vi.fn(),
+    getVariable: (name) => values[name],
+    getVariables: () => ({ ...values }),
+    setVariable: vi.fn((name, value) => {
+      values[name] = value;
+      callbacks.forEach((callback) => callback(name, value, { ...values }));
+      return scene;
+    }),
+    setVariables: vi.fn((nextValues) => {
+      Object.entries(nextValues).forEach(([name, value]) => {
+        scene.setVariable?.(name, value);
+      });
+      return scene;
+    }),
+    onVariableChange: (callback) => {
+      callbacks.add(callback);
+      return () => {
+        callbacks.delete(callback);
+      };
+    },
+  };
+
+  return scene;
+}
+
+/** Assigns a scene the way `useUnicornScene` does. */
+function assignScene(
+  sceneRef: { current: UnicornStudioScene | null },
+  scene: UnicornStudioScene | null,
+) {
+  act(() => {
+    sceneRef.current = scene;
+    notifySceneRef(sceneRef);
+  });
+}
+
+describe("useUnicornVariables", () => {
+  it("returns empty values without a scene", () => {
+    const sceneRef = { current: null };
+
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    expect(result.current[0]).toEqual({});
+    expect(() => result.current[1]({ intensity: 1 })).not.toThrow();
+  });
+
+  it("reads the values of a scene assigned later", () => {
+    const sceneRef: { current: UnicornStudioScene | null } = { current: null };
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    assignScene(sceneRef, createVariableScene({ intensity: 0.2 }));
+
+    expect(result.current[0]).toEqual({ intensity: 0.2 });
+  });
+
+  it("re-renders when a variable changes", () => {
+    const scene = createVariableScene({ intensity: 0.2, color: "#fff" });
+    const sceneRef = { current: scene };
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    act(() => {
+      scene.setVariable?.("intensity", 0.8);
+    });
+
+    expect(result.current[0]).toEqual({ intensity: 0.8, color: "#fff" });
+  });
+
+  it("sets several variables at once", () => {
+    const scene = createVariableScene({ intensity: 0.2, color: "#fff" });
+    const sceneRef = { current: scene };
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    act(() => {
+      result.current[1]({ intensity: 1, color: "#000" });
+    });
+
+    expect(scene.setVariables).toHaveBeenCalledWith({
+      intensity: 1,
+      color: "#000",
+    });
+    expect(result.current[0]).toEqual({ intensity: 1, color: "#000" });
+  });
+
+  it("follows a re-created scene and drops the old subscription", () => {
+    const oldScene = createVariableScene({ intensity: 0.2 });
+    const newScene = createVariableScene({ intensity: 0.5 });
+    const sceneRef: { current: UnicornStudioScene | null } = {
+      current: oldScene,
+    };
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    assignScene(sceneRef, newScene);
+    act(() => {
+      oldScene.setVariable?.("intensity", 0.9);
+    });
+
+    expect(result.current[0]).toEqual({ intensity: 0.5 });
+
+    assignScene(sceneRef, null);
+    expect(result.current[0]).toEqual({});
+  });
+
+  it("handles scenes without the variables API", () => {
+    const sceneRef = {
+      current: {
+        element: document.createElement("div"),
+        destroy: vi.fn(),
+      } as UnicornStudioScene,
+    };
+
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    expect(result.current[0]).toEqual({});
+    expect(() => {
+      act(() => result.current[1]({ intensity: 1 }));
+    }).not.toThrow();
+  });
+
+  it("re-reads the values after setting them without change events", () => {
+    const scene = createVariableScene({ intensity: 0.2 });
+    delete scene.onVariableChange;
+    const sceneRef = { current: scene };
+    const { result } = renderHook(() => useUnicornVariables(sceneRef));
+
+    act(() => {
+      result.current[1]({ intensity: 0.7 });
+    });
+
+    expect(result.current[0]).toEqual({ intensity: 0.7 });
+  });
+});
+
+describe("useUnicornVariable", () => {
+  it("returns undefined without a scene", () => {
+    const sceneRef = { current: null };
+
+    const { result } = renderHook(() =>
+      useUnicornVariable(sceneRef, "intensity"),
+    );
+
+    expect(result.current[0]).toBeUndefined();
+    expect(() => result.current[1](1)).not.toThrow();
+  });
+
+  it("reads and sets a single variable", () => {
+    const scene = createVariableScene({ intensity: 0.2 });
+    const sceneRef = { current: scene };
+    const { result } = renderHook(() =>
+      useUnicornVariable(sceneRef, "intensity"),
+    );
+
+    expect(result.current[0]).toBe(0.2);
+
+    act(() => {
+      result.current[1](0.6);
+    });
+
+    expect(scene.setVariable).toHaveBeenCalledWith("intensity", 0.6);
+    expect(result.current[0]).toBe(0.6);
+  });
+
+  it("ignores changes to other variables", () => {
+    const scene = createVariableScene({ intensity: 0.2, color: "#fff" });
+    const sceneRef = { current: scene };
+    let renders = 0;
+    renderHook(() => {
+      renders++;
+      return useUnicornVariable(sceneRef, "intensity");
+    });
+    const rendersBefore = renders;
+
+    act(() => {
+      scene.setVariable?.("color", "#000");
+    });
+
+    expect(renders).toBe(rendersBefore);
+  });
+
+  it("re-reads the variable when the name changes", () => {
+    const sceneRef = {
+      current: createVariableScene({ intensity: 0.2, speed: 3 }),
+    };
+    const { result, rerender } = renderHook(
+      ({ name }) => useUnicornVariable(sceneRef, name),
+      { initialProps: { name: "intensity" } },
+    );
+
+    rerender({ name: "speed" });
+
+    expect(result.current[0]).toBe(3);
+  });
+});
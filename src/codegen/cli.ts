@@ -0,0 +1,106 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { generateSceneTypes } from "./index";
+
+const USAGE = `Usage: unicornstudio-types <scene.json> [--out <file>] [--name <TypeName>]
+
+Generates TypeScript types for the variables, presets, and layers of a
+Unicorn Studio scene JSON.
+
+Options:
+  -o, --out <file>    Write the types to a file instead of stdout
+  -n, --name <name>   Name of the schema type (default: from the file name)
+  -h, --help          Show this message
+`;
+
+interface CliOptions {
+  input?: string;
+  out?: string;
+  name?: string;
+  help: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { help: false };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+
+    if (arg === "-h" || arg === "--help") {
+      options.help = true;
+    } else if (arg === "-o" || arg === "--out") {
+      options.out = args[++index];
+      if (!options.out) throw new Error(`Missing value for ${arg}`);
+    } else if (arg === "-n" || arg === "--name") {
+      options.name = args[++index];
+      if (!options.name) throw new Error(`Missing value for ${arg}`);
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (options.input) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    } else {
+      options.input = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Derives the schema type name from a scene file name, e.g. `hero.json`
+ * becomes `HeroScene` and `pricing-bg.json` becomes `PricingBgScene`.
+ */
+export function getTypeNameFromPath(filePath: string): string {
+  const words = path
+    .basename(filePath, path.extname(filePath))
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  const name = words
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("")
+    .replace(/^(?=\d)/, "_");
+
+  return /Scene$/.test(name) ? name : `${name}Scene`;
+}
+
+/**
+ * Runs the `unicornstudio-types` command.
+ *
+ * @param args - The command line arguments, without the node and script paths
+ * @returns The process exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  try {
+    const options = parseArgs(args);
+
+    if (options.help) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    if (!options.input) {
+      process.stderr.write(USAGE);
+      return 1;
+    }
+
+    const sceneJson: unknown = JSON.parse(
+      await fs.readFile(options.input, "utf8"),
+    );
+    const source = generateSceneTypes(sceneJson, {
+      typeName: options.name ?? getTypeNameFromPath(options.input),
+    });
+
+    if (!options.out) {
+      process.stdout.write(source);
+      return 0;
+    }
+
+    await fs.mkdir(path.dirname(options.out), { recursive: true });
+    await fs.writeFile(options.out, source);
+    process.stdout.write(`Wrote scene types to ${options.out}\n`);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`unicornstudio-types: ${message}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Options for {@link generateSceneTypes}.
+ */
+export interface GenerateSceneTypesOptions {
+  /**
+   * Name of the generated schema type. The variables, preset, and layer
+   * types are named after it, e.g. `HeroSceneVariables`.
+   *
+   * @defaultValue "Scene"
+   */
+  typeName?: string;
+
+  /**
+   * Module the generated file imports the vector types from.
+   *
+   * @defaultValue "unicornstudio-react"
+   */
+  importSource?: string;
+}
+
+/**
+ * TypeScript type of a scene variable's values.
+ */
+export type SceneVariableTypeName =
+  | "number"
+  | "boolean"
+  | "string"
+  | "UnicornVec2"
+  | "UnicornVec3"
+  | "UnicornVariableValue";
+
+/**
+ * The variables, presets, and layers read from a scene JSON.
+ */
+export interface SceneTypeInfo {
+  /** Variable names with the type of their values */
+  variables: { name: string; type: SceneVariableTypeName }[];
+  /** Preset names */
+  presets: string[];
+  /** Layer names */
+  layers: string[];
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+const VARIABLE_TYPES: Record<string, SceneVariableTypeName> = {
+  number: "number",
+  boolean: "boolean",
+  string: "string",
+  color: "string",
+  texture: "string",
+  vec2: "UnicornVec2",
+  vec3: "UnicornVec3",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Returns the first non-empty string among `values`.
+ */
+function firstName(...values: unknown[]): string | undefined {
+  return values.find(
+    (value): value is string => typeof value === "string" && value !== "",
+  );
+}
+
+/**
+ * Infers a variable's type from its default value when the definition has
+ * no `type`, the way the SDK does.
+ */
+function inferVariableType(defaultValue: unknown): SceneVariableTypeName {
+  if (typeof defaultValue === "number") return "number";
+  if (typeof defaultValue === "boolean") return "boolean";
+  if (typeof defaultValue === "string") return "string";
+  if (isRecord(defaultValue)) {
+    if (defaultValue.type === "Vec2") return "UnicornVec2";
+    if (defaultValue.type === "Vec3") return "UnicornVec3";
+  }
+  return "UnicornVariableValue";
+}
+
+function unique(names: (string | undefined)[]): string[] {
+  return [
+    ...new Set(names.filter((name): name is string => name !== undefined)),
+  ];
+}
+
+/**
+ * Reads the variables, presets, and layers of a scene JSON, as exported from
+ * Unicorn Studio or fetched for a `projectId`.
+ *
+ * @param sceneJson - The parsed scene JSON
+ * @throws TypeError if the value isn't a scene JSON
+ */
+export function readSceneSchema(sceneJson: unknown): SceneTypeInfo {
+  const layers = isRecord(sceneJson)
+    ? (sceneJson.layers ?? sceneJson.history)
+    : undefined;
+
+  if (!isRecord(sceneJson) || !Array.isArray(layers)) {
+    throw new TypeError(
+      "Invalid scene JSON: expected an object with `layers` or `history`",
+    );
+  }
+
+  const variables = isRecord(sceneJson.variables) ? sceneJson.variables : {};
+  const definitions = toArray(variables.definitions).filter(isRecord);
+  const seenVariables = new Set<string>();
+
+  return {
+    variables: definitions.flatMap((definition) => {
+      const name = firstName(definition.name);
+      if (!name || seenVariables.has(name)) return [];
+      seenVariables.add(name);
+
+      const type =
+        typeof definition.type === "string"
+          ? (VARIABLE_TYPES[definition.type] ?? "UnicornVariableValue")
+          : inferVariableType(definition.defaultValue);
+
+      return [{ name, type }];
+    }),
+    presets: unique(
+      toArray(variables.presets)
+        .filter(isRecord)
+        .map((preset) => firstName(preset.name, preset.id)),
+    ),
+    // The SDK matches layers by name or ID; IDs are only used without a name
+    layers: unique(
+      layers
+        .filter(isRecord)
+        .map((layer) =>
+          firstName(layer.layerName, layer.name, layer.publicId, layer.id),
+        ),
+    ),
+  };
+}
+
+function formatKey(name: string): string {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function formatUnion(names: string[]): string {
+  if (names.length === 0) return " never";
+  return names.map((name) => `\n  | ${JSON.stringify(name)}`).join("");
+}
+
+/**
+ * Generates TypeScript types for the variables, presets, and layers of a
+ * scene JSON.
+ *
+ * @remarks
+ * The generated schema type plugs into `UnicornScene`, `UnicornStudioScene`,
+ * and the variable hooks, so unknown variable names, values of the wrong
+ * type, unknown presets, and unknown `setProp()` layers fail to compile.
+ * Regenerate the types whenever the scene is republished.
+ *
+ * @param sceneJson - The parsed scene JSON
+ * @param options - Naming options for the generated types
+ * @returns The source of a TypeScript module
+ * @throws TypeError if the value isn't a scene JSON or `typeName` isn't a
+ * valid identifier
+ *
+ * @example
+ * ```ts
+ * import { readFileSync, writeFileSync } from "node:fs";
+ * import { generateSceneTypes } from "unicornstudio-react/codegen";
+ *
+ * const scene = JSON.parse(readFileSync("public/hero.json", "utf8"));
+ * writeFileSync(
+ *   "src/hero-scene.generated.ts",
+ *   generateSceneTypes(scene, { typeName: "HeroScene" }),
+ * );
+ * ```
+ */
+export function generateSceneTypes(
+  sceneJson: unknown,
+  {
+    typeName = "Scene",
+    importSource = "unicornstudio-react",
+  }: GenerateSceneTypesOptions = {},
+): string {
+  if (!IDENTIFIER_PATTERN.test(typeName)) {
+    throw new TypeError(
+      `Invalid typeName: ${typeName}. It must be a valid identifier`,
+    );
+  }
+
+  const { variables, presets, layers } = readSceneSchema(sceneJson);
+  const imports = (
+    ["UnicornVec2", "UnicornVec3", "UnicornVariableValue"] as const
+  ).filter((type) => variables.some((variable) => variable.type === type));
+
+  const lines = [
+    "/**",
+    " * Generated by `unicornstudio-types`.",
+    " * Do not edit this file manually.",
+    " */",
+  ];
+
+  if (imports.length > 0) {
+    lines.push(
+      `import type { ${imports.join(", ")} } from ${JSON.stringify(importSource)};`,
+    );
+  }
+
+  const variableLines = variables
+    .map(({ name, type }) => `\n  ${formatKey(name)}: ${type};`)
+    .join("");
+
+  lines.push(
+    "",
+    `export type ${typeName}Variables = {${variableLines && `${variableLines}\n`}};`,
+    "",
+    `export type ${typeName}Preset =${formatUnion(presets)};`,
+    "",
+    `export type ${typeName}Layer =${formatUnion(layers)};`,
+    "",
+    `export type ${typeName} = {`,
+    `  variables: ${typeName}Variables;`,
+    `  presets: ${typeName}Preset;`,
+    `  layers: ${typeName}Layer;`,
+    "};",
+    "",
+  );
+
+  return lines.join("\n");
+}
@@ -1,10 +1,65 @@
 export { default, UnicornScene } from "./react";
+export {
+  UnicornSceneError,
+  UnicornSdkLoadError,
+  UnicornSceneInitError,
+} from "./shared/errors";
+export { configureSceneScheduler } from "./shared/scheduler";
+export { getWebGLCapabilities } from "./shared/utils";
+export { useUnicornVariables, useUnicornVariable } from "./shared/variables";
+export { animateVariables } from "./shared/animation";
+export { useUnicornAudio } from "./shared/audio";
+export type {
+  UnicornSceneErrorCode,
+  UnicornSceneErrorPhase,
+} from "./shared/errors";
+export type { UnicornSceneSchedulerOptions } from "./shared/scheduler";
 export type {
   UnicornSceneProps,
+  UnicornSceneStatus,
+  UnicornSceneRenderState,
+  UnicornInitTimeouts,
+  UnicornRetryOptions,
+  UnicornRetryBackoff,
+  UnicornSceneTransitionType,
+  UnicornSceneTransitionOptions,
+  UnicornAdaptiveQualityOptions,
+  UnicornQualityTier,
+  UnicornQualityChange,
+  UnicornPauseWhenOffscreenOptions,
+  UnicornReducedMotionPolicy,
+  UnicornContextLossEvent,
+  UnicornFixedSceneOptions,
+  UnicornInteractivityOptions,
+  UnicornGyroscopeOptions,
+  UnicornDeviceOrientation,
+  UnicornUrlSyncOptions,
+  UnicornPersistOptions,
+  UnicornPersistStorage,
+  UnicornThemeBinding,
+  UnicornThemeBindings,
+  UnicornControlsOptions,
+  UnicornWebGLCapabilities,
+  UnicornMinWebGLCapabilities,
   UnicornStudioScene,
+  UnicornSceneSchema,
   UnicornVariables,
   UnicornVariableValue,
   UnicornVariableChangeCallback,
+  UnicornVariableTransitionOptions,
+  UnicornVariableEasing,
+  UnicornScrollKeyframe,
+  UnicornScrollTrack,
+  UnicornScrollVariables,
+  UnicornScrollOptions,
+  UnicornAudioSource,
+  UnicornAudioFeature,
+  UnicornAudioMapping,
+  UnicornAudioMappings,
+  UnicornAudioOptions,
+  UnicornVariableValidationMode,
+  UnicornVariableViolation,
+  UnicornVariableViolationReason,
   UnicornVariableDefinition,
   UnicornVariableManifestEntry,
   UnicornPreset,
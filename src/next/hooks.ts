@@ -1,5 +1,12 @@
 import { useState, useCallback, useEffect } from "react";
 import { loadUnicornStudioSdk } from "../shared/sdk-loader";
+import { withTimeout } from "../shared/utils";
+import {
+  UnicornSdkLoadError,
+  toUnicornSceneError,
+  type UnicornSceneError,
+} from "../shared/errors";
+import type { UseUnicornStudioScriptOptions } from "../shared/types";
 
 /**
  * Hook for loading the Unicorn Studio SDK in Next.js applications.
@@ -10,6 +17,7 @@ import { loadUnicornStudioSdk } from "../shared/sdk-loader";
  * for compatibility, but the hook manages script loading on its own.
  *
  * @param scriptUrl - Optional custom URL for the Unicorn Studio SDK script
+ * @param options - Optional load timeout and abort signal
  * @returns An object containing loading state, error state, and event handlers
  *
  * @example
@@ -23,20 +31,27 @@ import { loadUnicornStudioSdk } from "../shared/sdk-loader";
  * }
  * ```
  */
-export function useUnicornStudioScript(scriptUrl?: string): {
+export function useUnicornStudioScript(
+  scriptUrl?: string,
+  { timeout, signal }: UseUnicornStudioScriptOptions = {},
+): {
   /** Whether the script has finished loading successfully */
   isLoaded: boolean;
   /** Error that occurred during script loading, if any */
-  error: Error | null;
+  error: UnicornSceneError | null;
   /** Compatibility callback to mark the SDK as loaded */
   handleScriptLoad: () => void;
   /** Compatibility callback to record a load failure */
   handleScriptError: () => void;
+  /** Re-attempts loading the SDK after a failure */
+  retry: () => void;
 } {
   const [isLoaded, setIsLoaded] = useState(
     typeof window !== "undefined" && Boolean(window.UnicornStudio?.addScene),
   );
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<UnicornSceneError | null>(null);
+  // Bumped to re-run the loading effect for a retry
+  const [attempt, setAttempt] = useState(0);
 
   const handleScriptLoad = useCallback(() => {
     if (typeof window !== "undefined" && window.UnicornStudio?.addScene) {
@@ -46,10 +61,20 @@ export function useUnicornStudioScript(scriptUrl?: string): {
   }, []);
 
   const handleScriptError = useCallback(() => {
-    setError(new Error("Failed to load UnicornStudio script"));
+    setError(
+      new UnicornSdkLoadError(
+        "Failed to load UnicornStudio script",
+        "SDK_LOAD_FAILED",
+      ),
+    );
     setIsLoaded(false);
   }, []);
 
+  const retry = useCallback(() => {
+    setError(null);
+    setAttempt((current) => current + 1);
+  }, []);
+
   useEffect(() => {
     let ignore = false;
 
@@ -59,7 +84,21 @@ export function useUnicornStudioScript(scriptUrl?: string): {
       return;
     }
 
-    void loadUnicornStudioSdk(scriptUrl)
+    // An aborted signal stops waiting; a shared load in flight keeps going
+    if (signal?.aborted) return;
+
+    const handleAbort = () => {
+      ignore = true;
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    const loading = loadUnicornStudioSdk(scriptUrl);
+
+    void (
+      timeout === undefined
+        ? loading
+        : withTimeout(loading, timeout, "UnicornStudio SDK load timeout")
+    )
       .then(() => {
         if (ignore) return;
         setIsLoaded(true);
@@ -68,19 +107,16 @@ export function useUnicornStudioScript(scriptUrl?: string): {
       .catch((loadError) => {
         if (ignore) return;
         setIsLoaded(false);
-        setError(
-          loadError instanceof Error
-            ? loadError
-            : new Error("Failed to load UnicornStudio script"),
-        );
+        setError(toUnicornSceneError(loadError, "sdk-load"));
       });
 
     return () => {
       ignore = true;
+      signal?.removeEventListener("abort", handleAbort);
     };
-  }, [scriptUrl]);
+  }, [scriptUrl, attempt, timeout, signal]);
 
-  return { isLoaded, error, handleScriptLoad, handleScriptError };
+  return { isLoaded, error, handleScriptLoad, handleScriptError, retry };
 }
 
 // Re-export shared hooks
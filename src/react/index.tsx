@@ -1,9 +1,14 @@
 import { useRef, useState, useEffect } from "react";
-import type { UnicornSceneProps } from "../shared/types";
+import { createPortal } from "react-dom";
+import type {
+  UnicornSceneProps,
+  UnicornSceneSchema,
+  UnicornSceneStatus,
+  UnicornVariables,
+} from "../shared/types";
 import { useUnicornStudioScript, useUnicornScene } from "./hooks";
 import { DEFAULT_VALUES } from "../shared/constants";
 import { unicornStyles } from "../shared/styles";
-import { isWebGLSupported } from "../shared/utils";
 
 /**
  * React component for rendering Unicorn Studio WebGL animations.
@@ -59,8 +64,58 @@ import { isWebGLSupported } from "../shared/utils";
  *   variables={{ brandColor: "#7c3aed", intensity: 0.65 }}
  * />
  * ```
+ *
+ * @example
+ * Crossfading between scenes when the project changes:
+ * ```tsx
+ * <UnicornScene
+ *   projectId={isDark ? "dark-project-id" : "light-project-id"}
+ *   transition={{ type: "crossfade", duration: 400 }}
+ * />
+ * ```
+ *
+ * @example
+ * Fixed, full-viewport background behind the page content:
+ * ```tsx
+ * <UnicornScene projectId="your-project-id" fixed />
+ * ```
+ *
+ * @example
+ * Rendering based on the lifecycle status:
+ * ```tsx
+ * <UnicornScene projectId="your-project-id">
+ *   {({ status }) => (status === "ready" ? null : <Skeleton />)}
+ * </UnicornScene>
+ * ```
  */
-function UnicornScene({
+function UnicornScene<TScene extends UnicornSceneSchema = UnicornSceneSchema>(
+  props: UnicornSceneProps<TScene>,
+) {
+  // Portals can't be server rendered, so a fixed background mounts after
+  // hydration
+  const [isMounted, setIsMounted] = useState(false);
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  // The container only forwards the typed props to the SDK
+  const containerProps = props as UnicornSceneProps;
+
+  if (!props.fixed) return <UnicornSceneContainer {...containerProps} />;
+  if (!isMounted) return null;
+
+  return createPortal(
+    <UnicornSceneContainer {...containerProps} />,
+    document.body,
+  );
+}
+
+/**
+ * Renders the scene container, placeholder, and error states. Rendered in
+ * place, or portaled to `document.body` by `UnicornScene` when `fixed`.
+ */
+function UnicornSceneContainer({
   projectId,
   jsonFilePath,
   sdkUrl,
@@ -72,27 +127,73 @@ function UnicornScene({
   altText = DEFAULT_VALUES.altText,
   ariaLabel,
   className = DEFAULT_VALUES.className,
+  fixed,
+  interactivity,
+  gyroscope,
+  controls,
   lazyLoad = DEFAULT_VALUES.lazyLoad,
   production = DEFAULT_VALUES.production,
   paused = DEFAULT_VALUES.paused,
+  pauseWhenOffscreen,
+  reducedMotion = DEFAULT_VALUES.reducedMotion,
+  priority,
+  minCapabilities,
   variables,
   preset,
   onVariableChange,
+  scrollVariables,
+  scrollOptions,
+  variableTransition,
+  presetTransition,
+  syncToUrl,
+  persist,
+  themeBindings,
+  validateVariables,
+  onVariableViolation,
   placeholder,
   placeholderClassName,
   showPlaceholderOnError = DEFAULT_VALUES.showPlaceholderOnError,
   showPlaceholderWhileLoading = DEFAULT_VALUES.showPlaceholderWhileLoading,
+  initTimeout,
+  signal,
+  retry,
+  transition,
+  adaptiveQuality,
+  onQualityChange,
+  errorFallback,
   onLoad,
   onError,
+  onStatusChange,
+  onContextLost,
+  children,
   sceneRef,
 }: UnicornSceneProps) {
   const elementRef = useRef<HTMLDivElement>(null);
-  const [isSceneLoaded, setIsSceneLoaded] = useState(false);
-  const [webGLSupported, setWebGLSupported] = useState(true);
 
-  const { isLoaded, error: scriptError } = useUnicornStudioScript(sdkUrl);
+  const {
+    isLoaded,
+    error: scriptError,
+    retry: retryScript,
+  } = useUnicornStudioScript(sdkUrl, {
+    timeout: typeof initTimeout === "object" ? initTimeout.sdkLoad : undefined,
+    signal,
+  });
 
-  const { error: sceneError } = useUnicornScene({
+  // Without a placeholder to show, the `placeholder` policy pauses instead
+  const reducedMotionPolicy =
+    reducedMotion === "placeholder" && !placeholder && !placeholderClassName
+      ? "pause"
+      : reducedMotion;
+
+  const {
+    error: sceneError,
+    status: sceneStatus,
+    transitioning,
+    prefersReducedMotion,
+    suspended,
+    unsupported,
+    retry: retryScene,
+  } = useUnicornScene({
     elementRef,
     projectId,
     jsonFilePath,
@@ -101,40 +202,69 @@ function UnicornScene({
     dpi,
     fps,
     lazyLoad,
+    fixed: !!fixed,
+    interactivity,
+    gyroscope,
+    controls,
     altText,
     ariaLabel: ariaLabel || altText,
     isScriptLoaded: isLoaded,
     paused,
-    variables,
+    pauseWhenOffscreen,
+    reducedMotion: reducedMotionPolicy,
+    priority,
+    minCapabilities,
+    // The default schema's partial values never hold `undefined`
+    variables: variables as UnicornVariables | undefined,
     preset,
     onVariableChange,
+    scrollVariables,
+    scrollOptions,
+    variableTransition,
+    presetTransition,
+    syncToUrl,
+    persist,
+    themeBindings,
+    validateVariables,
+    onVariableViolation,
     sceneRef,
-    onLoad: () => {
-      setIsSceneLoaded(true);
-      onLoad?.();
-    },
+    initTimeout,
+    signal,
+    retry,
+    transition,
+    adaptiveQuality,
+    onQualityChange,
+    onContextLost,
+    onLoad,
     onError,
   });
 
   const error = scriptError || sceneError;
+  const status: UnicornSceneStatus = scriptError ? "error" : sceneStatus;
+  const retryLoading = scriptError ? retryScript : retryScene;
+
+  // Stable ref so a new callback identity doesn't re-report the same status
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
 
-  // Check WebGL support on mount
   useEffect(() => {
-    setWebGLSupported(isWebGLSupported());
-  }, []);
+    onStatusChangeRef.current?.(status);
+  }, [status]);
 
   // Determine if placeholder should be shown
   const showPlaceholder =
     (placeholder || placeholderClassName) &&
-    (!webGLSupported ||
-      (showPlaceholderWhileLoading && !isSceneLoaded) ||
+    (unsupported ||
+      suspended ||
+      (reducedMotionPolicy === "placeholder" && prefersReducedMotion) ||
+      (showPlaceholderWhileLoading && status !== "ready" && !transitioning) ||
       (showPlaceholderOnError && error));
 
   // Calculate dimensions for both container and image
   const numericWidth = typeof width === "number" ? width : 0;
   const numericHeight = typeof height === "number" ? height : 0;
   const useNumericDimensions =
-    typeof width === "number" && typeof height === "number";
+    !fixed && typeof width === "number" && typeof height === "number";
 
   // Build CSS custom properties for dynamic dimensions
   const customProperties = {
@@ -142,12 +272,34 @@ function UnicornScene({
     "--unicorn-height": typeof height === "number" ? `${height}px` : height,
   } as React.CSSProperties;
 
+  // A fixed background covers the viewport, ignoring width and height
+  const containerStyle: React.CSSProperties = fixed
+    ? {
+        ...unicornStyles.fixedContainer,
+        zIndex:
+          (typeof fixed === "object" ? fixed.zIndex : undefined) ??
+          DEFAULT_VALUES.fixedZIndex,
+      }
+    : { ...unicornStyles.container, ...customProperties };
+
+  // The fallback and children stay interactive over a fixed background,
+  // which lets pointer events through to the page
+  const content = (
+    <>
+      {error &&
+        !showPlaceholder &&
+        errorFallback !== undefined &&
+        (typeof errorFallback === "function"
+          ? errorFallback(error, retryLoading)
+          : errorFallback)}
+      {typeof children === "function"
+        ? children({ status, error, retry: retryLoading })
+        : children}
+    </>
+  );
+
   return (
-    <div
-      ref={elementRef}
-      style={{ ...unicornStyles.container, ...customProperties }}
-      className={className}
-    >
+    <div ref={elementRef} style={containerStyle} className={className}>
       {showPlaceholder && (placeholder || placeholderClassName) && (
         <div style={{ position: "absolute", inset: 0 }}>
           {typeof placeholder === "string" ? (
@@ -171,7 +323,7 @@ function UnicornScene({
           ) : null}
         </div>
       )}
-      {error && !showPlaceholder && (
+      {error && !showPlaceholder && errorFallback === undefined && (
         <div style={unicornStyles.errorWrapper}>
           <div style={unicornStyles.errorBox}>
             <p style={unicornStyles.errorTitle}>Error loading scene</p>
@@ -179,6 +331,11 @@ function UnicornScene({
           </div>
         </div>
       )}
+      {fixed ? (
+        <div style={unicornStyles.fixedContent}>{content}</div>
+      ) : (
+        content
+      )}
     </div>
   );
 }
@@ -186,13 +343,76 @@ function UnicornScene({
 export default UnicornScene;
 export { UnicornScene };
 
+// Re-export error classes so callers can narrow on them
+export {
+  UnicornSceneError,
+  UnicornSdkLoadError,
+  UnicornSceneInitError,
+} from "../shared/errors";
+
+// Re-export the scheduler shared by every mounted scene
+export { configureSceneScheduler } from "../shared/scheduler";
+
+// Re-export the cached WebGL probe behind `minCapabilities`
+export { getWebGLCapabilities } from "../shared/utils";
+
+// Re-export the helpers for a scene's variables
+export { useUnicornVariables, useUnicornVariable } from "../shared/variables";
+export { animateVariables } from "../shared/animation";
+export { useUnicornAudio } from "../shared/audio";
+
 // Re-export types for convenience
+export type {
+  UnicornSceneErrorCode,
+  UnicornSceneErrorPhase,
+} from "../shared/errors";
+export type { UnicornSceneSchedulerOptions } from "../shared/scheduler";
 export type {
   UnicornSceneProps,
+  UnicornSceneStatus,
+  UnicornSceneRenderState,
+  UnicornInitTimeouts,
+  UnicornRetryOptions,
+  UnicornRetryBackoff,
+  UnicornSceneTransitionType,
+  UnicornSceneTransitionOptions,
+  UnicornAdaptiveQualityOptions,
+  UnicornQualityTier,
+  UnicornQualityChange,
+  UnicornPauseWhenOffscreenOptions,
+  UnicornReducedMotionPolicy,
+  UnicornContextLossEvent,
+  UnicornFixedSceneOptions,
+  UnicornInteractivityOptions,
+  UnicornGyroscopeOptions,
+  UnicornDeviceOrientation,
+  UnicornUrlSyncOptions,
+  UnicornPersistOptions,
+  UnicornPersistStorage,
+  UnicornThemeBinding,
+  UnicornThemeBindings,
+  UnicornControlsOptions,
+  UnicornWebGLCapabilities,
+  UnicornMinWebGLCapabilities,
   UnicornStudioScene,
+  UnicornSceneSchema,
   UnicornVariables,
   UnicornVariableValue,
   UnicornVariableChangeCallback,
+  UnicornVariableTransitionOptions,
+  UnicornVariableEasing,
+  UnicornScrollKeyframe,
+  UnicornScrollTrack,
+  UnicornScrollVariables,
+  UnicornScrollOptions,
+  UnicornAudioSource,
+  UnicornAudioFeature,
+  UnicornAudioMapping,
+  UnicornAudioMappings,
+  UnicornAudioOptions,
+  UnicornVariableValidationMode,
+  UnicornVariableViolation,
+  UnicornVariableViolationReason,
   UnicornVariableDefinition,
   UnicornVariableManifestEntry,
   UnicornPreset,
@@ -0,0 +1,455 @@
+import { DEFAULT_VALUES } from "./constants";
+import type {
+  UnicornStudioScene,
+  UnicornVariableEasing,
+  UnicornVariables,
+  UnicornVariableTransitionOptions,
+  UnicornVariableValue,
+  UnicornVec2,
+  UnicornVec3,
+} from "./types";
+
+interface VariableTween {
+  from: UnicornVariableValue;
+  to: UnicornVariableValue;
+  /** The value applied by the latest frame */
+  current: UnicornVariableValue;
+  startTime: number;
+  duration: number;
+  easing: (progress: number) => number;
+  /** Whether the value switches halfway through instead of interpolating */
+  discrete: boolean;
+  /** Settles the tween, with whether it reached its value */
+  finish: (completed: boolean) => void;
+}
+
+interface SceneAnimation {
+  tweens: Map<string, VariableTween>;
+  frameId: number | null;
+}
+
+const sceneAnimations = new WeakMap<UnicornStudioScene, SceneAnimation>();
+
+const EASINGS: Record<
+  Exclude<UnicornVariableEasing, (progress: number) => number>,
+  (progress: number) => number
+> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t * t,
+  "ease-out": (t) => 1 - (1 - t) ** 3,
+  "ease-in-out": (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+type Rgba = [number, number, number, number];
+
+function lerp(from: number, to: number, progress: number): number {
+  return from + (to - from) * progress;
+}
+
+/**
+ * Parses a hex color into sRGB channels and alpha from 0 to 1.
+ */
+function parseHexColor(hex: string): Rgba {
+  let digits = hex.slice(1);
+  if (digits.length === 3) {
+    digits = digits.replace(/./g, (digit) => digit + digit);
+  }
+
+  const channel = (index: number) =>
+    Number.parseInt(digits.slice(index * 2, index * 2 + 2), 16) / 255;
+
+  return [
+    channel(0),
+    channel(1),
+    channel(2),
+    digits.length === 8 ? channel(3) : 1,
+  ];
+}
+
+/**
+ * Formats sRGB channels and alpha from 0 to 1 as a hex color, clamping
+ * channels out of gamut.
+ */
+export function formatHexColor([r, g, b, a]: Rgba, withAlpha: boolean): string {
+  const channels = withAlpha ? [r, g, b, a] : [r, g, b];
+
+  return `#${channels
+    .map((channel) =>
+      Math.round(Math.min(1, Math.max(0, channel)) * 255)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+}
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045
+    ? channel / 12.92
+    : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function toGamma(channel: number): number {
+  return channel <= 0.0031308
+    ? channel * 12.92
+    : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+/**
+ * Converts sRGB channels to OKLab, where equal steps look equally different.
+ */
+function rgbToOklab([r, g, b]: Rgba): [number, number, number] {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const l = Math.cbrt(
+    0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb,
+  );
+  const m = Math.cbrt(
+    0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb,
+  );
+  const s = Math.cbrt(
+    0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb,
+  );
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+/**
+ * Converts OKLab to sRGB channels, which may fall outside 0 to 1 for colors
+ * out of the sRGB gamut.
+ */
+export function oklabToRgb([lightness, a, b]: [number, number, number]): [
+  number,
+  number,
+  number,
+] {
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    toGamma(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    toGamma(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    toGamma(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  ];
+}
+
+function interpolateColor(from: string, to: string, progress: number): string {
+  const fromRgba = parseHexColor(from);
+  const toRgba = parseHexColor(to);
+  const fromLab = rgbToOklab(fromRgba);
+  const toLab = rgbToOklab(toRgba);
+
+  const [r, g, b] = oklabToRgb([
+    lerp(fromLab[0], toLab[0], progress),
+    lerp(fromLab[1], toLab[1], progress),
+    lerp(fromLab[2], toLab[2], progress),
+  ]);
+
+  return formatHexColor(
+    [r, g, b, lerp(fromRgba[3], toRgba[3], progress)],
+    from.length === 9 || to.length === 9,
+  );
+}
+
+function isVector(
+  value: UnicornVariableValue,
+): value is UnicornVec2 | UnicornVec3 {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Interpolates between two values of the same kind, or returns `null` if
+ * they can't be interpolated.
+ */
+export function interpolateValue(
+  from: UnicornVariableValue,
+  to: UnicornVariableValue,
+  progress: number,
+): UnicornVariableValue | null {
+  if (typeof from === "number" && typeof to === "number") {
+    return lerp(from, to, progress);
+  }
+
+  if (
+    typeof from === "string" &&
+    typeof to === "string" &&
+    HEX_COLOR_PATTERN.test(from) &&
+    HEX_COLOR_PATTERN.test(to)
+  ) {
+    return interpolateColor(from, to, progress);
+  }
+
+  if (isVector(from) && isVector(to) && from.type === to.type) {
+    const x = lerp(from.x, to.x, progress);
+    const y = lerp(from.y, to.y, progress);
+
+    return to.type === "Vec3" && from.type === "Vec3"
+      ? { type: "Vec3", x, y, z: lerp(from.z, to.z, progress) }
+      : { type: "Vec2", x, y };
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a named easing curve to its function.
+ */
+export function resolveEasing(
+  easing: UnicornVariableEasing = DEFAULT_VALUES.variableTransitionEasing,
+): (progress: number) => number {
+  return typeof easing === "function" ? easing : EASINGS[easing];
+}
+
+function readVariable(
+  scene: UnicornStudioScene,
+  name: string,
+): UnicornVariableValue | undefined {
+  return scene.getVariable?.(name) ?? scene.getVariables?.()[name];
+}
+
+function getSceneAnimation(scene: UnicornStudioScene): SceneAnimation {
+  let animation = sceneAnimations.get(scene);
+  if (!animation) {
+    animation = { tweens: new Map(), frameId: null };
+    sceneAnimations.set(scene, animation);
+  }
+  return animation;
+}
+
+/**
+ * Applies the current value of every running tween in one `setVariables()`
+ * call, and schedules the next frame while any are left.
+ */
+function renderFrame(scene: UnicornStudioScene, animation: SceneAnimation) {
+  animation.frameId = null;
+
+  const now = performance.now();
+  const values: UnicornVariables = {};
+  const finished: VariableTween[] = [];
+
+  animation.tweens.forEach((tween, name) => {
+    const progress = Math.min(1, (now - tween.startTime) / tween.duration);
+
+    let current: UnicornVariableValue;
+    if (progress >= 1) {
+      current = tween.to;
+    } else if (tween.discrete) {
+      current = progress >= 0.5 ? tween.to : tween.from;
+    } else {
+      current =
+        interpolateValue(tween.from, tween.to, tween.easing(progress)) ??
+        tween.to;
+    }
+
+    // Discrete values are only set when they switch
+    if (!tween.discrete || current !== tween.current) values[name] = current;
+    tween.current = current;
+
+    if (progress >= 1) {
+      animation.tweens.delete(name);
+      finished.push(tween);
+    }
+  });
+
+  if (Object.keys(values).length > 0) scene.setVariables?.(values);
+  finished.forEach((tween) => tween.finish(true));
+
+  if (animation.tweens.size > 0) {
+    animation.frameId = requestAnimationFrame(() =>
+      renderFrame(scene, animation),
+    );
+  }
+}
+
+/**
+ * Stops running variable animations on a scene, leaving the variables at
+ * their current values.
+ *
+ * @param scene - The scene
+ * @param names - The variables to stop; all of them when omitted
+ */
+export function cancelVariableAnimations(
+  scene: UnicornStudioScene,
+  names?: string[],
+): void {
+  const animation = sceneAnimations.get(scene);
+  if (!animation) return;
+
+  (names ?? [...animation.tweens.keys()]).forEach((name) => {
+    const tween = animation.tweens.get(name);
+    if (!tween) return;
+    animation.tweens.delete(name);
+    tween.finish(false);
+  });
+
+  if (animation.tweens.size === 0 && animation.frameId !== null) {
+    cancelAnimationFrame(animation.frameId);
+    animation.frameId = null;
+  }
+}
+
+/**
+ * Starts tweens from the current values of variables to `values`.
+ *
+ * @param switchDiscrete - Whether values that can't be interpolated switch
+ * halfway through, instead of immediately
+ */
+function tweenVariables(
+  scene: UnicornStudioScene,
+  values: UnicornVariables,
+  {
+    duration = DEFAULT_VALUES.variableTransitionDuration,
+    easing,
+  }: UnicornVariableTransitionOptions,
+  switchDiscrete: boolean,
+): Promise<boolean> {
+  const animation = getSceneAnimation(scene);
+  const canAnimate =
+    duration > 0 && typeof requestAnimationFrame !== "undefined";
+  const startTime = canAnimate ? performance.now() : 0;
+  const immediateValues: UnicornVariables = {};
+  const finished: Promise<boolean>[] = [];
+
+  Object.entries(values).forEach(([name, to]) => {
+    const from =
+      animation.tweens.get(name)?.current ?? readVariable(scene, name);
+    cancelVariableAnimations(scene, [name]);
+
+    const discrete =
+      from === undefined || interpolateValue(from, to, 0) === null;
+    if (
+      !canAnimate ||
+      from === undefined ||
+      (discrete && (!switchDiscrete || from === to))
+    ) {
+      immediateValues[name] = to;
+      return;
+    }
+
+    finished.push(
+      new Promise((resolve) => {
+        animation.tweens.set(name, {
+          from,
+          to,
+          current: from,
+          startTime,
+          duration,
+          easing: resolveEasing(easing),
+          discrete,
+          finish: resolve,
+        });
+      }),
+    );
+  });
+
+  if (Object.keys(immediateValues).length > 0) {
+    scene.setVariables?.(immediateValues);
+  }
+
+  if (animation.tweens.size > 0 && animation.frameId === null) {
+    animation.frameId = requestAnimationFrame(() =>
+      renderFrame(scene, animation),
+    );
+  }
+
+  return Promise.all(finished).then((completed) => completed.every(Boolean));
+}
+
+/**
+ * Animates variables of a scene to new values.
+ *
+ * @remarks
+ * Numbers, hex colors, and Vec2/Vec3 values are interpolated on
+ * `requestAnimationFrame`. Colors are interpolated in the perceptual OKLab
+ * color space, so they don't pass through muddy midpoints, and vectors
+ * component-wise. Other values, and variables without a current value, are
+ * set immediately.
+ *
+ * Animating a variable that is already animating continues from its current
+ * value, so retargeting mid-animation doesn't jump.
+ *
+ * @param scene - The scene instance, e.g. `sceneRef.current`
+ * @param values - The target values
+ * @param options - Duration and easing of the animation
+ * @returns A promise that resolves once the variables reach their values, or
+ * their animations are interrupted
+ *
+ * @example
+ * ```tsx
+ * <div
+ *   onMouseEnter={() =>
+ *     sceneRef.current &&
+ *     animateVariables(sceneRef.current, { glow: 1, tint: "#f472b6" })
+ *   }
+ * >
+ *   <UnicornScene projectId="your-project-id" sceneRef={sceneRef} />
+ * </div>
+ * ```
+ */
+export function animateVariables(
+  scene: UnicornStudioScene,
+  values: UnicornVariables,
+  options: UnicornVariableTransitionOptions = {},
+): Promise<void> {
+  return tweenVariables(scene, values, options, false).then(() => undefined);
+}
+
+/**
+ * Reads a preset's values by variable name, or returns `null` if the scene
+ * can't resolve the preset.
+ *
+ * @remarks
+ * Presets may reference variables by ID; those are resolved to names through
+ * the scene's variable definitions, dropping variables that don't exist.
+ */
+export function getPresetValues(
+  scene: UnicornStudioScene,
+  preset: string,
+): UnicornVariables | null {
+  const values = scene.getPreset?.(preset)?.values;
+  if (!values) return null;
+
+  const definitions = scene.getVariableDefinitions?.();
+  if (!definitions) return { ...values };
+
+  const namedValues: UnicornVariables = {};
+  Object.entries(values).forEach(([key, value]) => {
+    const definition = definitions.find(
+      ({ id, name }) => id === key || name === key,
+    );
+    if (definition) namedValues[definition.name] = value;
+  });
+
+  return namedValues;
+}
+
+/**
+ * Animates variables to a preset's values, read with {@link getPresetValues},
+ * then makes it the scene's active preset with `setPreset()`.
+ *
+ * @remarks
+ * Unlike {@link animateVariables}, values that can't be interpolated, such as
+ * booleans and texture URLs, switch halfway through, so they change together
+ * with the rest of the preset.
+ *
+ * An interrupted animation leaves the active preset unchanged, since the
+ * values no longer match the preset's.
+ */
+export async function animateToPreset(
+  scene: UnicornStudioScene,
+  preset: string,
+  values: UnicornVariables,
+  options: UnicornVariableTransitionOptions,
+): Promise<void> {
+  if (await tweenVariables(scene, values, options, true)) {
+    scene.setPreset?.(preset);
+  }
+}
@@ -0,0 +1,453 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { cancelVariableAnimations, interpolateValue } from "./animation";
+import { validateVariables } from "./validation";
+import type {
+  UnicornAudioFeature,
+  UnicornAudioMapping,
+  UnicornAudioMappings,
+  UnicornAudioOptions,
+  UnicornAudioSource,
+  UnicornSceneSchema,
+  UnicornStudioScene,
+  UnicornVariableDefinition,
+  UnicornVariables,
+  UnicornVariableValue,
+  UnicornVariableViolation,
+} from "./types";
+
+const DEFAULT_FFT_SIZE = 1024;
+const DEFAULT_UPDATE_INTERVAL = 33;
+const DEFAULT_SMOOTHING = 0.6;
+
+/** The frequency bands of the named features, in Hz */
+const FREQUENCY_BANDS: Record<
+  "bass" | "mid" | "treble",
+  [minHz: number, maxHz: number]
+> = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 16000],
+};
+
+/** Milliseconds the beat level takes to decay from 1 to 0 */
+const BEAT_DECAY = 250;
+/** Milliseconds of bass energy averaged to detect beats against */
+const BEAT_HISTORY = 1000;
+/** How far above the average bass energy a beat has to be */
+const BEAT_THRESHOLD = 1.4;
+/** Bass energy too quiet to count as a beat */
+const BEAT_MIN_ENERGY = 0.15;
+/** Minimum milliseconds between beats, about 200 BPM */
+const BEAT_COOLDOWN = 300;
+
+/**
+ * A variable's resolved audio mapping.
+ */
+interface AudioVariableMapping {
+  name: string;
+  feature: UnicornAudioFeature;
+  range: [UnicornVariableValue, UnicornVariableValue];
+  smoothing: number;
+}
+
+/**
+ * Reads the features of the audio passing through an analyser.
+ */
+interface AudioAnalysis {
+  /** Captures the analyser's current data */
+  update: (now: number) => void;
+  /** Measures a feature of the captured data, from 0 to 1 */
+  read: (feature: UnicornAudioFeature) => number;
+}
+
+// Media elements can only be routed through one source node for their
+// lifetime, so the node is reused by later analysers
+const mediaElementSources = new WeakMap<
+  HTMLMediaElement,
+  MediaElementAudioSourceNode
+>();
+
+let sharedAudioContext: AudioContext | null = null;
+
+function getSharedAudioContext(): AudioContext | null {
+  if (!sharedAudioContext && typeof AudioContext !== "undefined") {
+    sharedAudioContext = new AudioContext();
+  }
+  return sharedAudioContext;
+}
+
+function resolveAudioSource(
+  source: UnicornAudioSource | null | undefined,
+): HTMLMediaElement | MediaStream | null {
+  if (!source) return null;
+  return "current" in source ? source.current : source;
+}
+
+function isMediaStream(
+  input: HTMLMediaElement | MediaStream,
+): input is MediaStream {
+  return "getTracks" in input;
+}
+
+/**
+ * Routes the audio through the analyser, keeping media elements audible.
+ *
+ * @throws An `InvalidStateError` if a media element is already routed
+ * through another audio context
+ * @returns A function that disconnects the source from the analyser
+ */
+function connectAudioSource(
+  context: AudioContext,
+  input: HTMLMediaElement | MediaStream,
+  analyser: AnalyserNode,
+): () => void {
+  if (isMediaStream(input)) {
+    // Not connected to the destination, so microphones don't echo
+    const node = context.createMediaStreamSource(input);
+    node.connect(analyser);
+    return () => node.disconnect();
+  }
+
+  let node = mediaElementSources.get(input);
+  if (!node || node.context !== context) {
+    node = context.createMediaElementSource(input);
+    node.connect(context.destination);
+    mediaElementSources.set(input, node);
+  }
+
+  const elementNode = node;
+  elementNode.connect(analyser);
+  return () => elementNode.disconnect(analyser);
+}
+
+/**
+ * Averages the level of the frequency bins overlapping a band.
+ */
+function getBandLevel(
+  frequencyData: Uint8Array,
+  sampleRate: number,
+  [minHz, maxHz]: [number, number],
+): number {
+  const binWidth = sampleRate / 2 / frequencyData.length;
+  const start = Math.max(0, Math.floor(minHz / binWidth));
+  const end = Math.min(frequencyData.length, Math.ceil(maxHz / binWidth));
+  if (end <= start) return 0;
+
+  let sum = 0;
+  for (let index = start; index < end; index++) sum += frequencyData[index];
+
+  return sum / (end - start) / 255;
+}
+
+function getRmsLevel(timeDomainData: Float32Array): number {
+  if (timeDomainData.length === 0) return 0;
+
+  let sum = 0;
+  for (let index = 0; index < timeDomainData.length; index++) {
+    sum += timeDomainData[index] ** 2;
+  }
+
+  return Math.min(1, Math.sqrt(sum / timeDomainData.length));
+}
+
+function createAudioAnalysis(
+  analyser: AnalyserNode,
+  sampleRate: number,
+): AudioAnalysis {
+  const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  const timeDomainData = new Float32Array(analyser.fftSize);
+  const bassHistory: { time: number; energy: number }[] = [];
+  let lastUpdate: number | null = null;
+  let lastBeat = -Infinity;
+  let beatLevel = 0;
+
+  const detectBeat = (now: number) => {
+    if (lastUpdate !== null) {
+      beatLevel = Math.max(0, beatLevel - (now - lastUpdate) / BEAT_DECAY);
+    }
+    lastUpdate = now;
+
+    while (bassHistory.length > 0 && now - bassHistory[0].time > BEAT_HISTORY) {
+      bassHistory.shift();
+    }
+
+    const energy = getBandLevel(
+      frequencyData,
+      sampleRate,
+      FREQUENCY_BANDS.bass,
+    );
+    const average =
+      bassHistory.reduce((sum, entry) => sum + entry.energy, 0) /
+      bassHistory.length;
+    bassHistory.push({ time: now, energy });
+
+    if (
+      bassHistory.length > 1 &&
+      energy >= BEAT_MIN_ENERGY &&
+      energy > average * BEAT_THRESHOLD &&
+      now - lastBeat >= BEAT_COOLDOWN
+    ) {
+      lastBeat = now;
+      beatLevel = 1;
+    }
+  };
+
+  return {
+    update(now) {
+      analyser.getByteFrequencyData(frequencyData);
+      analyser.getFloatTimeDomainData(timeDomainData);
+      detectBeat(now);
+    },
+    read(feature) {
+      if (feature === "rms") return getRmsLevel(timeDomainData);
+      if (feature === "beat") return beatLevel;
+
+      const band = Array.isArray(feature) ? feature : FREQUENCY_BANDS[feature];
+      return getBandLevel(frequencyData, sampleRate, band);
+    },
+  };
+}
+
+/**
+ * Resolves the mappings against the scene's variable definitions.
+ *
+ * @remarks
+ * Numeric range ends outside a variable's `min`, `max`, or `step` are
+ * clamped; mappings for unknown variables, or with ranges of the wrong type,
+ * are dropped. Without definitions, the mappings are used as given.
+ */
+function resolveAudioMappings(
+  mappings: UnicornAudioMappings,
+  definitions: UnicornVariableDefinition[] | undefined,
+  defaultSmoothing: number,
+  onViolation: ((violations: UnicornVariableViolation[]) => void) | undefined,
+): AudioVariableMapping[] {
+  const resolved: AudioVariableMapping[] = [];
+  const violations: UnicornVariableViolation[] = [];
+
+  Object.entries(mappings).forEach(([name, value]) => {
+    if (value === undefined) return;
+
+    const mapping: UnicornAudioMapping =
+      typeof value === "object" && !Array.isArray(value)
+        ? value
+        : { feature: value };
+    let range = mapping.range ?? [0, 1];
+
+    if (definitions) {
+      const validRange: UnicornVariableValue[] = [];
+      for (const end of range) {
+        const result = validateVariables({ [name]: end }, definitions, "clamp");
+        violations.push(...result.violations);
+        if (result.values[name] === undefined) return;
+        validRange.push(result.values[name]);
+      }
+      range = [validRange[0], validRange[1]];
+    }
+
+    resolved.push({
+      name,
+      feature: mapping.feature,
+      range,
+      smoothing: mapping.smoothing ?? defaultSmoothing,
+    });
+  });
+
+  if (violations.length > 0) {
+    if (onViolation) {
+      onViolation(violations);
+    } else {
+      violations.forEach((violation) => {
+        console.warn(`[unicornstudio-react] ${violation.message}`);
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Hook for driving scene variables from audio.
+ *
+ * @remarks
+ * Runs the audio through a Web Audio `AnalyserNode` and maps its RMS level,
+ * frequency bands, and detected beats onto variables through `setVariables()`
+ * every `updateInterval` milliseconds. Each mapping interpolates between the
+ * two values of its `range`, whose ends are validated against the scene's
+ * variable definitions when the scene provides them.
+ *
+ * Browsers keep audio contexts suspended until the user interacts with the
+ * page. The context is resumed when a media element starts playing; for
+ * streams, call `resume` from an event handler.
+ *
+ * @typeParam TScene - The scene's generated {@link UnicornSceneSchema}
+ * @param sceneRef - The ref passed as the scene's `sceneRef`
+ * @param source - The audio to analyse; nothing is analysed while `null`
+ * @param mappings - The variables to drive, and the audio features driving
+ * them
+ * @param options - The analyser settings and the update rate
+ * @returns Whether the audio context is running, a function that resumes it,
+ * and the error that kept the source from being analysed, if any
+ *
+ * @example
+ * ```tsx
+ * const audioRef = useRef<HTMLAudioElement>(null);
+ * useUnicornAudio(sceneRef, audioRef, {
+ *   glow: "bass",
+ *   pulse: { feature: "beat", range: [1, 1.2] },
+ *   tint: { feature: "treble", range: ["#1e1b4b", "#f472b6"] },
+ * });
+ *
+ * return (
+ *   <>
+ *     <UnicornScene projectId="your-project-id" sceneRef={sceneRef} />
+ *     <audio ref={audioRef} src="/track.mp3" controls />
+ *   </>
+ * );
+ * ```
+ */
+export function useUnicornAudio<
+  TScene extends UnicornSceneSchema = UnicornSceneSchema,
+>(
+  typedSceneRef: React.RefObject<UnicornStudioScene<TScene> | null>,
+  source: UnicornAudioSource | null | undefined,
+  mappings: UnicornAudioMappings<TScene>,
+  {
+    audioContext,
+    fftSize = DEFAULT_FFT_SIZE,
+    updateInterval = DEFAULT_UPDATE_INTERVAL,
+    smoothing = DEFAULT_SMOOTHING,
+    onVariableViolation,
+    onError,
+  }: UnicornAudioOptions = {},
+): {
+  /** Whether the audio context is running */
+  running: boolean;
+  /** Resumes a suspended audio context */
+  resume: () => Promise<void>;
+  /** Why the source can't be analysed, if it can't */
+  error: Error | null;
+} {
+  const sceneRef = typedSceneRef as React.RefObject<UnicornStudioScene | null>;
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Read on every update, so inline literals don't rebuild the analyser
+  const mappingsRef = useRef<UnicornAudioMappings>(mappings);
+  mappingsRef.current = mappings;
+  const onViolationRef = useRef(onVariableViolation);
+  onViolationRef.current = onVariableViolation;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const mappingsKey = JSON.stringify(mappings);
+
+  useEffect(() => {
+    const input = resolveAudioSource(source);
+    const context = audioContext ?? getSharedAudioContext();
+    if (!input || !context) return;
+
+    const analyser = context.createAnalyser();
+    analyser.fftSize = fftSize;
+    // Levels are smoothed per mapping instead
+    analyser.smoothingTimeConstant = 0;
+
+    let disconnectSource: () => void;
+    try {
+      disconnectSource = connectAudioSource(context, input, analyser);
+    } catch (connectError) {
+      const sourceError =
+        connectError instanceof Error
+          ? connectError
+          : new Error(String(connectError));
+      setError(sourceError);
+      onErrorRef.current?.(sourceError);
+      return;
+    }
+    setError(null);
+    const analysis = createAudioAnalysis(analyser, context.sampleRate);
+
+    const levels = new Map<string, number>();
+    let mappedScene: UnicornStudioScene | null = null;
+    let variableMappings: AudioVariableMapping[] = [];
+    let appliedKey = "";
+
+    const update = () => {
+      const scene = sceneRef.current;
+      if (!scene?.setVariables) return;
+
+      // Re-created scenes may define their variables differently
+      if (scene !== mappedScene) {
+        mappedScene = scene;
+        appliedKey = "";
+        variableMappings = resolveAudioMappings(
+          mappingsRef.current,
+          scene.getVariableDefinitions?.(),
+          smoothing,
+          onViolationRef.current,
+        );
+      }
+      if (variableMappings.length === 0) return;
+
+      analysis.update(performance.now());
+
+      const values: UnicornVariables = {};
+      variableMappings.forEach(({ name, feature, range, smoothing }) => {
+        const measured = analysis.read(feature);
+        const previous = levels.get(name);
+        const level =
+          feature === "beat" || previous === undefined
+            ? measured
+            : previous * smoothing + measured * (1 - smoothing);
+        levels.set(name, level);
+
+        const [silent, full] = range;
+        values[name] =
+          interpolateValue(silent, full, level) ??
+          (level >= 0.5 ? full : silent);
+      });
+
+      const key = JSON.stringify(values);
+      if (key === appliedKey) return;
+
+      appliedKey = key;
+      cancelVariableAnimations(scene, Object.keys(values));
+      scene.setVariables(values);
+    };
+
+    const intervalId = setInterval(update, updateInterval);
+
+    const handleStateChange = () => setRunning(context.state === "running");
+    handleStateChange();
+    context.addEventListener("statechange", handleStateChange);
+
+    // Playback starts from a user gesture, which allows resuming the context
+    const handlePlay = () => void context.resume();
+    if (!isMediaStream(input)) {
+      input.addEventListener("play", handlePlay);
+      if (!input.paused) handlePlay();
+    }
+
+    return () => {
+      clearInterval(intervalId);
+      context.removeEventListener("statechange", handleStateChange);
+      if (!isMediaStream(input)) input.removeEventListener("play", handlePlay);
+      disconnectSource();
+      analyser.disconnect();
+      setRunning(false);
+    };
+  }, [
+    sceneRef,
+    source,
+    mappingsKey,
+    audioContext,
+    fftSize,
+    updateInterval,
+    smoothing,
+  ]);
+
+  const resume = useCallback(async () => {
+    await (audioContext ?? getSharedAudioContext())?.resume();
+  }, [audioContext]);
+
+  return { running, resume, error };
+}
@@ -1,4 +1,12 @@
-import type { ValidFPS, ScaleRange } from "./types";
+import type {
+  ValidFPS,
+  ScaleRange,
+  UnicornRetryBackoff,
+  UnicornQualityTier,
+  UnicornReducedMotionPolicy,
+  UnicornVariableEasing,
+} from "./types";
+import type { UnicornSceneErrorCode } from "./errors";
 
 /**
  * Current version of the Unicorn Studio SDK being used.
@@ -49,12 +57,88 @@ export const DEFAULT_VALUES = {
   paused: false,
   /** Default lazy loading setting */
   lazyLoad: true,
+  /** Default stack order of a `fixed` background */
+  fixedZIndex: -1,
   /** Default setting for showing placeholder on error */
   showPlaceholderOnError: true,
   /** Default setting for showing placeholder while loading */
   showPlaceholderWhileLoading: true,
+  /** Default timeout in milliseconds for `addScene()` */
+  initTimeout: 15000,
+  /** Default crossfade duration in milliseconds */
+  transitionDuration: 300,
+  /** Default crossfade timing function */
+  transitionEasing: "ease",
+  /** Default duration in milliseconds of variable animations */
+  variableTransitionDuration: 300,
+  /** Default easing of variable animations */
+  variableTransitionEasing: "ease-in-out" as UnicornVariableEasing,
+  /** Default degrees of `gyroscope` tilt that reach the edge of the scene */
+  gyroscopeRange: 30,
+  /** Default share of the previous tilt kept on each `gyroscope` reading */
+  gyroscopeSmoothing: 0.8,
+  /** Default query parameter of `syncToUrl` */
+  urlSyncParam: "scene",
+  /** Default delay in milliseconds before `syncToUrl` writes a change */
+  urlSyncDebounce: 250,
+  /** Default delay in milliseconds before `persist` saves a change */
+  persistDebounce: 250,
+  /** Default response to `prefers-reduced-motion` */
+  reducedMotion: "pause" as UnicornReducedMotionPolicy,
+  /** Frame rate used by the `reduced-fps` reduced motion policy */
+  reducedMotionFps: 15 as ValidFPS,
+  /** Default scheduler priority */
+  priority: 0,
 } as const;
 
+/**
+ * Default automatic retry policy, used when `retry` is `true` or an option is
+ * omitted from a retry object.
+ */
+export const DEFAULT_RETRY_OPTIONS = {
+  /** Retries after the first failed attempt */
+  attempts: 3,
+  /** Delay growth between retries */
+  backoff: "exponential" as UnicornRetryBackoff,
+  /** Base delay in milliseconds */
+  delay: 1000,
+  /** Maximum delay in milliseconds */
+  maxDelay: 30000,
+  /** Error codes that are retried */
+  retryOn: ["TIMEOUT", "NETWORK"] as UnicornSceneErrorCode[],
+} as const;
+
+/**
+ * How many times a scene is re-created after losing its WebGL context before
+ * it reports a `CONTEXT_LOST` error.
+ */
+export const MAX_CONTEXT_RECOVERIES = 3;
+
+/**
+ * Default adaptive quality settings, used when `adaptiveQuality` is `true` or
+ * an option is omitted.
+ */
+export const DEFAULT_ADAPTIVE_QUALITY_OPTIONS = {
+  /** Length in milliseconds of each frame rate sample */
+  sampleDuration: 2000,
+  /** Fraction of the tier's fps below which quality steps down */
+  downgradeRatio: 0.85,
+  /** Fraction of the higher tier's fps at which quality steps up */
+  upgradeRatio: 0.95,
+  /** Minimum milliseconds between tier changes */
+  cooldown: 10000,
+} as const;
+
+/**
+ * Built-in quality tiers below the configured `scale`, `dpi`, and `fps`,
+ * ordered from highest to lowest.
+ */
+export const DEFAULT_QUALITY_TIERS: readonly UnicornQualityTier[] = [
+  { scale: 0.75, dpi: 1.25, fps: 60 },
+  { scale: 0.5, dpi: 1, fps: 30 },
+  { scale: 0.25, dpi: 1, fps: 24 },
+];
+
 /**
  * Array of valid FPS values supported by Unicorn Studio.
  *
@@ -0,0 +1,179 @@
+/**
+ * Stable codes identifying why a scene failed to load.
+ *
+ * @remarks
+ * - `TIMEOUT`: SDK loading or scene creation took longer than allowed
+ * - `NOT_FOUND`: the project or JSON file could not be fetched
+ * - `NETWORK`: a network request failed
+ * - `INVALID_PARAMS`: the props are invalid (scale, fps, missing project)
+ * - `SDK_MISSING`: the bundled SDK files are not part of the build
+ * - `SDK_GLOBAL_MISSING`: the SDK loaded but `window.UnicornStudio` is missing
+ * - `SDK_LOAD_FAILED`: the SDK script failed to load
+ * - `WEBGL_UNSUPPORTED`: the browser cannot create a WebGL context
+ * - `CONTEXT_LOST`: the WebGL context was lost more often than it is recovered
+ * - `UNKNOWN`: anything else
+ */
+export type UnicornSceneErrorCode =
+  | "TIMEOUT"
+  | "NOT_FOUND"
+  | "NETWORK"
+  | "INVALID_PARAMS"
+  | "SDK_MISSING"
+  | "SDK_GLOBAL_MISSING"
+  | "SDK_LOAD_FAILED"
+  | "WEBGL_UNSUPPORTED"
+  | "CONTEXT_LOST"
+  | "UNKNOWN";
+
+/**
+ * The loading phase in which an error occurred.
+ */
+export type UnicornSceneErrorPhase = "sdk-load" | "scene-init";
+
+/**
+ * Options for constructing a {@link UnicornSceneError}.
+ */
+export interface UnicornSceneErrorOptions {
+  code: UnicornSceneErrorCode;
+  phase: UnicornSceneErrorPhase;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error reported by the UnicornScene components.
+ *
+ * @remarks
+ * Group failures by `code` and `phase` instead of matching on `message`,
+ * which is redacted and may change. The original error is kept as `cause`.
+ *
+ * @example
+ * ```tsx
+ * <UnicornScene
+ *   projectId="your-project-id"
+ *   onError={(error) => {
+ *     if (error.code === "TIMEOUT") reportSlowScene(error.phase);
+ *   }}
+ * />
+ * ```
+ */
+export class UnicornSceneError extends Error {
+  /** Stable code identifying the failure */
+  readonly code: UnicornSceneErrorCode;
+  /** The loading phase in which the failure happened */
+  readonly phase: UnicornSceneErrorPhase;
+  /** The original error or thrown value */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    { code, phase, cause }: UnicornSceneErrorOptions,
+  ) {
+    super(message);
+    this.name = "UnicornSceneError";
+    this.code = code;
+    this.phase = phase;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error raised while loading the Unicorn Studio SDK.
+ */
+export class UnicornSdkLoadError extends UnicornSceneError {
+  constructor(message: string, code: UnicornSceneErrorCode, cause?: unknown) {
+    super(message, { code, phase: "sdk-load", cause });
+    this.name = "UnicornSdkLoadError";
+  }
+}
+
+/**
+ * Error raised while creating a scene with `addScene()`.
+ */
+export class UnicornSceneInitError extends UnicornSceneError {
+  constructor(message: string, code: UnicornSceneErrorCode, cause?: unknown) {
+    super(message, { code, phase: "scene-init", cause });
+    this.name = "UnicornSceneInitError";
+  }
+}
+
+/**
+ * Sanitizes error messages to avoid exposing internal URLs or sensitive details.
+ */
+function sanitizeErrorMessage(message: string): string {
+  if (message.includes("404")) {
+    return "Resource not found";
+  }
+  if (
+    message.includes("Network") ||
+    message.includes("network") ||
+    message.includes("Failed to fetch")
+  ) {
+    return "Network error occurred";
+  }
+  if (message.includes("timeout")) {
+    return "Loading timeout";
+  }
+  // For all other errors, redact obvious URLs and file paths to avoid leaking internals.
+  const urlPattern = /\bhttps?:\/\/[^\s)]+/gi;
+  const filePathPattern = /\b(?:[A-Za-z]:\\|\/)[^\s)]+/g;
+
+  let sanitized = message.replaceAll(urlPattern, "[redacted]");
+  sanitized = sanitized.replaceAll(filePathPattern, "[redacted]");
+
+  return sanitized;
+}
+
+/**
+ * Derives a stable error code from an SDK or browser error message.
+ *
+ * @remarks
+ * The SDK swallows failed requests and rejects with "Error fetching data",
+ * so only messages that mention a 404 are `NOT_FOUND`. Those and the
+ * browser's "Failed to fetch" are most often a dropped connection.
+ */
+function getErrorCode(message: string): UnicornSceneErrorCode {
+  if (message.includes("404")) {
+    return "NOT_FOUND";
+  }
+  if (
+    message.includes("Network") ||
+    message.includes("network") ||
+    message.includes("Failed to fetch") ||
+    message.includes("Error fetching data")
+  ) {
+    return "NETWORK";
+  }
+  if (message.includes("timeout")) {
+    return "TIMEOUT";
+  }
+  if (/webgl/i.test(message)) {
+    return "WEBGL_UNSUPPORTED";
+  }
+  return "UNKNOWN";
+}
+
+/**
+ * Normalizes any thrown value into a {@link UnicornSceneError}.
+ *
+ * @remarks
+ * Existing `UnicornSceneError`s are returned unchanged. Anything else is
+ * classified by its message, which is sanitized before being exposed; the
+ * original value is kept as `cause`.
+ *
+ * @param error - The thrown value
+ * @param phase - The phase in which it was thrown
+ */
+export function toUnicornSceneError(
+  error: unknown,
+  phase: UnicornSceneErrorPhase,
+): UnicornSceneError {
+  if (error instanceof UnicornSceneError) return error;
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const code = getErrorCode(message);
+  const sanitized = sanitizeErrorMessage(message);
+
+  return phase === "sdk-load"
+    ? new UnicornSdkLoadError(sanitized, code, error)
+    : new UnicornSceneInitError(sanitized, code, error);
+}
@@ -0,0 +1,158 @@
+import type { UnicornDeviceOrientation, UnicornStudioScene } from "./types";
+
+/**
+ * A tilt from `-1` to `1` on each axis, relative to the neutral orientation.
+ */
+export interface Tilt {
+  x: number;
+  y: number;
+}
+
+type OrientationPermissionRequest = () => Promise<"granted" | "denied">;
+
+/**
+ * The pointer state the SDK keeps on each scene, written by its `mousemove`
+ * and `touchmove` listeners on `window`. Not part of the typed scene API.
+ */
+interface ScenePointerState {
+  isFixed?: boolean;
+  mouse?: {
+    page: { x: number; y: number };
+    movePos: { x: number; y: number };
+    movedInView: boolean;
+  };
+}
+
+// Permission lasts for the page's lifetime, so later scenes start right away
+let orientationPermissionGranted = false;
+
+/**
+ * Wraps an angle difference into -180 to 180 degrees.
+ */
+function wrapAngle(degrees: number): number {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180;
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(-1, value));
+}
+
+function getScreenAngle(): number {
+  if (typeof screen !== "undefined" && screen.orientation) {
+    return screen.orientation.angle;
+  }
+  // Older iOS only exposes the deprecated `window.orientation`
+  const legacyAngle = (window as { orientation?: unknown }).orientation;
+  return typeof legacyAngle === "number" ? legacyAngle : 0;
+}
+
+/**
+ * Converts an orientation into a tilt on the screen's axes.
+ *
+ * @remarks
+ * `beta` and `gamma` are measured against the device's natural orientation,
+ * so they are rotated into the current screen orientation first.
+ *
+ * @param orientation - The current orientation
+ * @param neutral - The orientation at which the tilt is zero
+ * @param range - Degrees of tilt that reach `-1` or `1`
+ */
+export function getTilt(
+  orientation: UnicornDeviceOrientation,
+  neutral: UnicornDeviceOrientation,
+  range: number,
+): Tilt {
+  const beta = wrapAngle(orientation.beta - neutral.beta) / range;
+  const gamma = wrapAngle(orientation.gamma - neutral.gamma) / range;
+
+  let x = gamma;
+  let y = beta;
+  switch (wrapAngle(getScreenAngle())) {
+    case 90:
+      x = beta;
+      y = -gamma;
+      break;
+    case -90:
+      x = -beta;
+      y = gamma;
+      break;
+    case -180:
+      x = -gamma;
+      y = -beta;
+      break;
+  }
+
+  return { x: clampUnit(x), y: clampUnit(y) };
+}
+
+/**
+ * Moves the SDK's pointer over the scene as if the cursor or a finger were
+ * at the tilt, `{ x: 0, y: 0 }` being the center of the scene.
+ *
+ * @remarks
+ * Writes the scene's pointer state the way the SDK's own listeners do, so
+ * no pointer events reach the page or other scenes.
+ */
+export function moveScenePointer(scene: UnicornStudioScene, tilt: Tilt) {
+  const { isFixed, mouse } = scene as UnicornStudioScene & ScenePointerState;
+  if (!mouse) return;
+
+  const rect = scene.element.getBoundingClientRect();
+  const x = (rect.width * (tilt.x + 1)) / 2;
+  const y = (rect.height * (tilt.y + 1)) / 2;
+
+  mouse.page.x = rect.left + x + window.scrollX;
+  mouse.page.y = rect.top + y + (isFixed ? 0 : window.scrollY);
+  // The SDK keeps positions at half scale
+  mouse.movePos.x = x * 0.5;
+  mouse.movePos.y = y * 0.5;
+  mouse.movedInView = true;
+}
+
+/**
+ * Calls `onGranted` once the page may read the device orientation.
+ *
+ * @remarks
+ * iOS only grants access from a user gesture, so the permission is requested
+ * on the next tap or click. Elsewhere, access needs no permission.
+ *
+ * @returns A function that stops waiting for permission
+ */
+export function whenOrientationPermitted(onGranted: () => void): () => void {
+  const requestPermission = (
+    DeviceOrientationEvent as unknown as {
+      requestPermission?: OrientationPermissionRequest;
+    }
+  ).requestPermission;
+
+  if (orientationPermissionGranted || typeof requestPermission !== "function") {
+    onGranted();
+    return () => {};
+  }
+
+  let cancelled = false;
+
+  const handleGesture = () => {
+    window.removeEventListener("touchend", handleGesture);
+    window.removeEventListener("click", handleGesture);
+
+    requestPermission
+      .call(DeviceOrientationEvent)
+      .then((state) => {
+        if (state !== "granted") return;
+        orientationPermissionGranted = true;
+        if (!cancelled) onGranted();
+      })
+      // Rejected outside a gesture or in an insecure context
+      .catch(() => {});
+  };
+
+  window.addEventListener("touchend", handleGesture);
+  window.addEventListener("click", handleGesture);
+
+  return () => {
+    cancelled = true;
+    window.removeEventListener("touchend", handleGesture);
+    window.removeEventListener("click", handleGesture);
+  };
+}
@@ -1,41 +1,1188 @@
-import { useEffect, useRef, useState, useCallback, useMemo } from "react";
+import {
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
 import type {
   UnicornStudioScene,
   UnicornSceneConfig,
   UnicornVariables,
   UnicornVariableChangeCallback,
+  UnicornVariableValidationMode,
+  UnicornVariableViolation,
+  UnicornVariableTransitionOptions,
+  UnicornScrollOptions,
+  UnicornScrollVariables,
+  UnicornSceneStatus,
+  UnicornInitTimeouts,
+  UnicornRetryOptions,
+  UnicornSceneTransitionType,
+  UnicornSceneTransitionOptions,
+  UnicornAdaptiveQualityOptions,
+  UnicornQualityTier,
+  UnicornQualityChange,
+  UnicornPauseWhenOffscreenOptions,
+  UnicornReducedMotionPolicy,
+  UnicornContextLossEvent,
+  UnicornControlsOptions,
+  UnicornInteractivityOptions,
+  UnicornGyroscopeOptions,
+  UnicornUrlSyncOptions,
+  UnicornPersistOptions,
+  UnicornThemeBindings,
+  UnicornMinWebGLCapabilities,
+  UnicornWebGLCapabilities,
   ValidFPS,
   ScaleRange,
 } from "./types";
-import { validateParameters } from "./utils";
+import {
+  getWebGLCapabilities,
+  isProductionBuild,
+  validateParameters,
+  validateQualityTiers,
+  validateWebGLCapabilities,
+  withTimeout,
+} from "./utils";
+import { validateVariables } from "./validation";
+import {
+  animateToPreset,
+  animateVariables,
+  cancelVariableAnimations,
+  getPresetValues,
+} from "./animation";
+import {
+  getScrollProgress,
+  resolveScrollContainer,
+  sampleScrollVariables,
+} from "./scroll";
+import {
+  moveScenePointer,
+  getTilt,
+  whenOrientationPermitted,
+  type Tilt,
+} from "./gyroscope";
+import {
+  encodeVariableValue,
+  getBaselineValues,
+  getChangedVariables,
+  readUrlState,
+  writeUrlState,
+} from "./url-state";
+import {
+  getDefinitionsVersion,
+  readPersistedState,
+  removePersistedState,
+  resolvePersistStorage,
+  writePersistedState,
+} from "./persist";
+import { parseThemeSource, readThemeBindings } from "./theme";
+import {
+  DEFAULT_ADAPTIVE_QUALITY_OPTIONS,
+  DEFAULT_QUALITY_TIERS,
+  DEFAULT_RETRY_OPTIONS,
+  DEFAULT_VALUES,
+  MAX_CONTEXT_RECOVERIES,
+} from "./constants";
+import {
+  getMaxActiveScenes,
+  registerScene,
+  subscribeSceneScheduler,
+  type SceneRegistration,
+} from "./scheduler";
+import { notifySceneRef } from "./scene-ref";
+import {
+  UnicornSceneError,
+  UnicornSceneInitError,
+  UnicornSdkLoadError,
+  toUnicornSceneError,
+} from "./errors";
 
 /**
- * Sanitizes error messages to avoid exposing internal URLs or sensitive details.
+ * Resolves the `retry` option into a complete policy, or `null` when retries
+ * are disabled.
  */
-function sanitizeErrorMessage(message: string): string {
-  if (message.includes("404") || message.includes("Failed to fetch")) {
-    return "Resource not found";
+function resolveRetryOptions(
+  retry: boolean | UnicornRetryOptions | undefined,
+): Required<UnicornRetryOptions> | null {
+  if (!retry) return null;
+
+  const options = retry === true ? {} : retry;
+
+  return {
+    attempts: options.attempts ?? DEFAULT_RETRY_OPTIONS.attempts,
+    backoff: options.backoff ?? DEFAULT_RETRY_OPTIONS.backoff,
+    delay: options.delay ?? DEFAULT_RETRY_OPTIONS.delay,
+    maxDelay: options.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay,
+    retryOn: options.retryOn ?? DEFAULT_RETRY_OPTIONS.retryOn,
+  };
+}
+
+/**
+ * Decides whether a failed attempt should be retried under the given policy.
+ *
+ * @param attempt - The 1-based number of the failed attempt
+ */
+function shouldRetry(
+  options: Required<UnicornRetryOptions>,
+  error: UnicornSceneError,
+  attempt: number,
+): boolean {
+  if (attempt > options.attempts) return false;
+
+  if (typeof options.retryOn === "function") {
+    return options.retryOn(error, attempt);
   }
-  if (message.includes("Network") || message.includes("network")) {
-    return "Network error occurred";
+
+  return options.retryOn.includes(error.code);
+}
+
+/**
+ * Computes the delay before retrying the given failed attempt (1-based).
+ */
+function getRetryDelay(
+  options: Required<UnicornRetryOptions>,
+  attempt: number,
+): number {
+  let delay = options.delay;
+
+  if (options.backoff === "exponential") {
+    delay = options.delay * 2 ** (attempt - 1);
+  } else if (options.backoff === "linear") {
+    delay = options.delay * attempt;
   }
-  if (message.includes("timeout")) {
-    return "Loading timeout";
+
+  return Math.min(delay, options.maxDelay);
+}
+
+/**
+ * The default tiers below `baseTier`, which never raise its `dpi` or `fps`.
+ * Tiers left identical to the one above them are dropped.
+ */
+function defaultQualityTiers(
+  baseTier: UnicornQualityTier,
+): UnicornQualityTier[] {
+  const tiers = [baseTier];
+  DEFAULT_QUALITY_TIERS.forEach((tier) => {
+    if (tier.scale >= baseTier.scale) return;
+
+    const capped: UnicornQualityTier = {
+      scale: tier.scale,
+      dpi: Math.min(tier.dpi, baseTier.dpi),
+      fps: Math.min(tier.fps, baseTier.fps) as ValidFPS,
+    };
+    const previous = tiers[tiers.length - 1];
+    if (
+      capped.scale !== previous.scale ||
+      capped.dpi !== previous.dpi ||
+      capped.fps !== previous.fps
+    ) {
+      tiers.push(capped);
+    }
+  });
+  return tiers;
+}
+
+/**
+ * Resolves the `adaptiveQuality` option into complete options, or `null` when
+ * quality is fixed.
+ *
+ * @param baseTier - The `scale`, `dpi`, and `fps` props, used as the top tier
+ * when no tiers are configured
+ */
+function resolveAdaptiveQuality(
+  adaptiveQuality: boolean | UnicornAdaptiveQualityOptions | undefined,
+  baseTier: UnicornQualityTier,
+): Required<UnicornAdaptiveQualityOptions> | null {
+  if (!adaptiveQuality) return null;
+
+  const options = adaptiveQuality === true ? {} : adaptiveQuality;
+
+  return {
+    tiers: options.tiers ?? defaultQualityTiers(baseTier),
+    sampleDuration:
+      options.sampleDuration ?? DEFAULT_ADAPTIVE_QUALITY_OPTIONS.sampleDuration,
+    downgradeRatio:
+      options.downgradeRatio ?? DEFAULT_ADAPTIVE_QUALITY_OPTIONS.downgradeRatio,
+    upgradeRatio:
+      options.upgradeRatio ?? DEFAULT_ADAPTIVE_QUALITY_OPTIONS.upgradeRatio,
+    cooldown: options.cooldown ?? DEFAULT_ADAPTIVE_QUALITY_OPTIONS.cooldown,
+  };
+}
+
+/**
+ * IntersectionObserver v2 fields, which are not yet part of the DOM typings.
+ */
+interface VisibilityObserverInit extends IntersectionObserverInit {
+  trackVisibility?: boolean;
+  delay?: number;
+}
+
+interface VisibilityObserverEntry extends IntersectionObserverEntry {
+  isVisible?: boolean;
+}
+
+/**
+ * Tracks whether the container is out of view, covered, or on a hidden page
+ * while `pauseWhenOffscreen` is set.
+ *
+ * @returns `true` while the scene cannot be seen
+ */
+function useOffscreenState(
+  elementRef: React.RefObject<HTMLDivElement | null>,
+  pauseWhenOffscreen: boolean | UnicornPauseWhenOffscreenOptions | undefined,
+): boolean {
+  const [isOffscreen, setIsOffscreen] = useState(false);
+  const [isPageHidden, setIsPageHidden] = useState(false);
+
+  const enabled = !!pauseWhenOffscreen;
+  const options =
+    typeof pauseWhenOffscreen === "object" ? pauseWhenOffscreen : {};
+  const threshold = options.threshold ?? 0;
+  const rootMargin = options.rootMargin ?? "0px";
+  const trackVisibility = options.trackVisibility ?? false;
+
+  useEffect(() => {
+    const el = elementRef.current;
+    if (!enabled || !el || typeof IntersectionObserver === "undefined") return;
+
+    const init: VisibilityObserverInit = { threshold, rootMargin };
+    if (trackVisibility) {
+      // Browsers require a delay of at least 100ms to track visibility
+      init.trackVisibility = true;
+      init.delay = 100;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1] as VisibilityObserverEntry;
+      if (!entry) return;
+
+      const inView =
+        entry.isIntersecting && entry.intersectionRatio >= threshold;
+      const covered = trackVisibility && entry.isVisible === false;
+      setIsOffscreen(!inView || covered);
+    }, init);
+
+    observer.observe(el);
+
+    return () => {
+      observer.disconnect();
+      setIsOffscreen(false);
+    };
+  }, [elementRef, enabled, threshold, rootMargin, trackVisibility]);
+
+  useEffect(() => {
+    if (!enabled || typeof document === "undefined") return;
+
+    const handleVisibilityChange = () => {
+      setIsPageHidden(document.visibilityState === "hidden");
+    };
+
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      setIsPageHidden(false);
+    };
+  }, [enabled]);
+
+  return enabled && (isOffscreen || isPageHidden);
+}
+
+// The probe result never changes after it is cached
+const subscribeToWebGLCapabilities = () => () => {};
+const getServerWebGLCapabilities = () => null;
+
+/**
+ * Reads the cached WebGL capabilities of the device.
+ *
+ * @returns The capabilities, or `null` while server rendering and hydrating so
+ * the hydrated markup matches the server's
+ */
+function useWebGLCapabilities(): UnicornWebGLCapabilities | null {
+  return useSyncExternalStore(
+    subscribeToWebGLCapabilities,
+    getWebGLCapabilities,
+    getServerWebGLCapabilities,
+  );
+}
+
+/**
+ * Tracks the `prefers-reduced-motion` media query, following changes while
+ * the page is open.
+ *
+ * @param enabled - Whether to listen at all; `false` always reports `false`
+ * @returns The preference, or `null` until it has been read after mounting
+ */
+function usePrefersReducedMotion(enabled: boolean): boolean | null {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState<
+    boolean | null
+  >(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (typeof window.matchMedia !== "function") {
+      setPrefersReducedMotion(false);
+      return;
+    }
+
+    const query = window.matchMedia("(prefers-reduced-motion: reduce)");
+    const handleChange = () => {
+      setPrefersReducedMotion(query.matches);
+    };
+
+    handleChange();
+    query.addEventListener("change", handleChange);
+
+    return () => {
+      query.removeEventListener("change", handleChange);
+      setPrefersReducedMotion(null);
+    };
+  }, [enabled]);
+
+  return enabled ? prefersReducedMotion : false;
+}
+
+/**
+ * Registers the scene with the shared scheduler and reports whether it may
+ * hold a WebGL context.
+ *
+ * @remarks
+ * The container's visibility is only observed while `maxActiveScenes` is
+ * limited, since that is when the scheduler ranks scenes by it.
+ *
+ * @returns Whether the scene is active, or `null` until it has been
+ * registered under a limited budget
+ */
+function useSceneSchedule(
+  elementRef: React.RefObject<HTMLDivElement | null>,
+  priority: number,
+): boolean | null {
+  const limit = useSyncExternalStore(
+    subscribeSceneScheduler,
+    getMaxActiveScenes,
+    getMaxActiveScenes,
+  );
+  const limited = limit !== Infinity;
+  const [isActive, setIsActive] = useState<boolean | null>(null);
+  const registrationRef = useRef<SceneRegistration | null>(null);
+  const priorityRef = useRef(priority);
+  priorityRef.current = priority;
+
+  useEffect(() => {
+    const registration = registerScene(priorityRef.current, setIsActive);
+    registrationRef.current = registration;
+    setIsActive(registration.active);
+
+    return () => {
+      registration.unregister();
+      registrationRef.current = null;
+      setIsActive(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    registrationRef.current?.setPriority(priority);
+  }, [priority]);
+
+  useEffect(() => {
+    const el = elementRef.current;
+    if (!limited || !el || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      if (entry) registrationRef.current?.setVisible(entry.isIntersecting);
+    });
+
+    observer.observe(el);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [elementRef, limited]);
+
+  // An unlimited budget never suspends, so there's no need to wait
+  return limited ? isActive : true;
+}
+
+/**
+ * Applies `scrollVariables` at the current scroll progress while the scene is
+ * ready.
+ *
+ * @remarks
+ * Scroll and resize events are coalesced into one update per frame, and
+ * unchanged values are not re-applied. For the `container` source, events
+ * are only listened to while the container intersects the scroll container.
+ */
+function useScrollVariables(
+  elementRef: React.RefObject<HTMLDivElement | null>,
+  sceneRef: React.RefObject<UnicornStudioScene | null>,
+  validationRef: React.RefObject<VariableValidation>,
+  ready: boolean,
+  scrollVariables: UnicornScrollVariables | undefined,
+  scrollOptions: UnicornScrollOptions | undefined,
+): void {
+  // Read when sampling, so inline literals and easing functions don't
+  // re-subscribe on every render
+  const scrollVariablesRef = useRef(scrollVariables);
+  scrollVariablesRef.current = scrollVariables;
+  const scrollOptionsRef = useRef(scrollOptions);
+  scrollOptionsRef.current = scrollOptions;
+
+  const timelinesKey =
+    scrollVariables && Object.keys(scrollVariables).length > 0
+      ? JSON.stringify(scrollVariables)
+      : "";
+  const source = scrollOptions?.source ?? "container";
+  const clamp = scrollOptions?.clamp ?? true;
+  const scrollContainerOption = scrollOptions?.scrollContainer;
+
+  useEffect(() => {
+    const el = elementRef.current;
+    if (!ready || !timelinesKey || !el || typeof window === "undefined") {
+      return;
+    }
+
+    const scrollContainer = resolveScrollContainer(scrollContainerOption);
+    const scrollTarget: HTMLElement | Window = scrollContainer ?? window;
+    let frameId: number | null = null;
+    let appliedKey = "";
+    let listening = false;
+
+    const update = () => {
+      frameId = null;
+      const scene = sceneRef.current;
+      const timelines = scrollVariablesRef.current;
+      if (!scene || !timelines) return;
+
+      const values = sampleScrollVariables(
+        timelines,
+        getScrollProgress(el, source, scrollContainer),
+        { easing: scrollOptionsRef.current?.easing, clamp },
+      );
+      const key = JSON.stringify(values);
+      if (key === appliedKey) return;
+
+      appliedKey = key;
+      applySceneVariables(scene, values, validationRef.current ?? {});
+    };
+
+    const scheduleUpdate = () => {
+      if (frameId === null) frameId = requestAnimationFrame(update);
+    };
+
+    const setListening = (next: boolean) => {
+      if (next === listening) return;
+      listening = next;
+
+      if (next) {
+        scrollTarget.addEventListener("scroll", scheduleUpdate, {
+          passive: true,
+        });
+        window.addEventListener("resize", scheduleUpdate);
+      } else {
+        scrollTarget.removeEventListener("scroll", scheduleUpdate);
+        window.removeEventListener("resize", scheduleUpdate);
+      }
+    };
+
+    let observer: IntersectionObserver | null = null;
+    if (source === "container" && typeof IntersectionObserver !== "undefined") {
+      observer = new IntersectionObserver(
+        (entries) => {
+          const entry = entries[entries.length - 1];
+          if (!entry) return;
+
+          setListening(entry.isIntersecting);
+          // Settles the values at the edge the container crossed
+          scheduleUpdate();
+        },
+        { root: scrollContainer },
+      );
+      observer.observe(el);
+    } else {
+      setListening(true);
+    }
+
+    update();
+
+    return () => {
+      observer?.disconnect();
+      setListening(false);
+      if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+  }, [
+    elementRef,
+    sceneRef,
+    validationRef,
+    ready,
+    timelinesKey,
+    source,
+    clamp,
+    scrollContainerOption,
+  ]);
+}
+
+/**
+ * Drives a virtual pointer and Vec2 variables from the device's tilt while
+ * `gyroscope` is set and the scene is ready.
+ *
+ * @remarks
+ * Readings are smoothed as they arrive and applied once per frame. Devices
+ * whose primary input can hover, and devices that never report an
+ * orientation, are left alone.
+ */
+function useGyroscope(
+  elementRef: React.RefObject<HTMLDivElement | null>,
+  sceneRef: React.RefObject<UnicornStudioScene | null>,
+  validationRef: React.RefObject<VariableValidation>,
+  ready: boolean,
+  gyroscope: boolean | UnicornGyroscopeOptions | undefined,
+): void {
+  const options = gyroscope === true ? {} : gyroscope || null;
+  // Serialized so inline object literals don't restart the listeners
+  const optionsKey = options ? JSON.stringify(options) : "";
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const el = elementRef.current;
+    const options = optionsRef.current;
+    if (
+      !ready ||
+      !optionsKey ||
+      !options ||
+      !el ||
+      typeof DeviceOrientationEvent === "undefined"
+    ) {
+      return;
+    }
+
+    // A mouse already drives the scene
+    if (
+      typeof window.matchMedia === "function" &&
+      window.matchMedia("(hover: hover)").matches
+    ) {
+      return;
+    }
+
+    const {
+      pointer = true,
+      variables = [],
+      calibration = "auto",
+      range = DEFAULT_VALUES.gyroscopeRange,
+      smoothing = DEFAULT_VALUES.gyroscopeSmoothing,
+    } = options;
+    let neutral = calibration === "auto" ? null : calibration;
+    let tilt: Tilt | null = null;
+    let frameId: number | null = null;
+
+    const apply = () => {
+      frameId = null;
+      const current = tilt;
+      if (!current) return;
+
+      const scene = sceneRef.current;
+      if (scene && pointer) moveScenePointer(scene, current);
+      if (scene && variables.length > 0) {
+        const values: UnicornVariables = {};
+        variables.forEach((name) => {
+          values[name] = { type: "Vec2", x: current.x, y: current.y };
+        });
+        applySceneVariables(scene, values, validationRef.current ?? {});
+      }
+    };
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      // Devices without a sensor report `null`
+      if (event.beta === null || event.gamma === null) return;
+
+      const orientation = { beta: event.beta, gamma: event.gamma };
+      if (!neutral) neutral = orientation;
+      const target = getTilt(orientation, neutral, range);
+      tilt = tilt
+        ? {
+            x: tilt.x * smoothing + target.x * (1 - smoothing),
+            y: tilt.y * smoothing + target.y * (1 - smoothing),
+          }
+        : target;
+
+      if (frameId === null) frameId = requestAnimationFrame(apply);
+    };
+
+    // The device is usually held differently after rotating the screen
+    const handleScreenRotation = () => {
+      if (calibration === "auto") neutral = null;
+    };
+    const screenOrientation =
+      typeof screen !== "undefined" ? screen.orientation : undefined;
+
+    let listening = false;
+    const stopWaiting = whenOrientationPermitted(() => {
+      listening = true;
+      window.addEventListener("deviceorientation", handleOrientation);
+      if (screenOrientation) {
+        screenOrientation.addEventListener("change", handleScreenRotation);
+      } else {
+        window.addEventListener("orientationchange", handleScreenRotation);
+      }
+    });
+
+    return () => {
+      stopWaiting();
+      if (listening) {
+        window.removeEventListener("deviceorientation", handleOrientation);
+        screenOrientation?.removeEventListener("change", handleScreenRotation);
+        window.removeEventListener("orientationchange", handleScreenRotation);
+      }
+      if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+  }, [elementRef, sceneRef, validationRef, ready, optionsKey]);
+}
+
+/**
+ * Resolves the `syncToUrl` prop into options, or `null` when it's off.
+ */
+function resolveUrlSync(
+  syncToUrl: boolean | UnicornUrlSyncOptions | undefined,
+): UnicornUrlSyncOptions | null {
+  if (!syncToUrl) return null;
+
+  return syncToUrl === true ? {} : syncToUrl;
+}
+
+/**
+ * Writes the scene's preset and changed variables to the query string while
+ * `syncToUrl` is set and the scene is ready, and restores them when the
+ * history moves to another entry.
+ *
+ * @remarks
+ * `activePresetRef` holds the preset the scene was last set to, which the
+ * changed variables are compared against. Restoring an entry without a
+ * preset or variables falls back to `preset` and `variables`, like creating
+ * the scene does.
+ */
+function useUrlSync(
+  sceneRef: React.RefObject<UnicornStudioScene | null>,
+  validationRef: React.RefObject<VariableValidation>,
+  ready: boolean,
+  syncToUrl: boolean | UnicornUrlSyncOptions | undefined,
+  activePresetRef: React.MutableRefObject<string | undefined>,
+  presetRef: React.RefObject<string | undefined>,
+  variablesRef: React.RefObject<UnicornVariables | undefined>,
+): void {
+  const options = resolveUrlSync(syncToUrl);
+  // Serialized so inline object literals don't resubscribe
+  const optionsKey = options ? JSON.stringify(options) : "";
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const options = optionsRef.current;
+    if (!ready || !optionsKey || !options || !scene?.onVariableChange) return;
+
+    const {
+      param = DEFAULT_VALUES.urlSyncParam,
+      history = "replace",
+      variables: names,
+      debounce = DEFAULT_VALUES.urlSyncDebounce,
+    } = options;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+    let restoring = false;
+
+    const write = () => {
+      timeoutId = null;
+      const preset = activePresetRef.current;
+      const query = writeUrlState(window.location.search, param, {
+        preset,
+        variables: getChangedVariables(scene, preset, names),
+      });
+      if (query === new URLSearchParams(window.location.search).toString()) {
+        return;
+      }
+
+      const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+      // Passing the entry's state on keeps what routers store in it, such as
+      // the Next.js App Router's tree
+      if (history === "push") {
+        window.history.pushState(window.history.state, "", url);
+      } else {
+        window.history.replaceState(window.history.state, "", url);
+      }
+    };
+
+    const unsubscribe = scene.onVariableChange(() => {
+      // Restoring an entry must not write over it, or push one after it
+      if (restoring) return;
+      if (timeoutId !== null) clearTimeout(timeoutId);
+      timeoutId = setTimeout(write, debounce);
+    });
+
+    const handlePopState = () => {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+      timeoutId = null;
+
+      const state = readUrlState(window.location.search, param, names);
+      const preset = state.preset ?? presetRef.current ?? undefined;
+      restoring = true;
+      restoreSceneState(
+        scene,
+        activePresetRef.current,
+        preset,
+        { ...variablesRef.current, ...state.variables },
+        validationRef.current ?? {},
+        names,
+      );
+      activePresetRef.current = preset;
+      restoring = false;
+    };
+    window.addEventListener("popstate", handlePopState);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("popstate", handlePopState);
+      if (timeoutId !== null) clearTimeout(timeoutId);
+    };
+  }, [
+    sceneRef,
+    validationRef,
+    ready,
+    optionsKey,
+    activePresetRef,
+    presetRef,
+    variablesRef,
+  ]);
+}
+
+/**
+ * Saves the scene's preset and variable values to storage as they change
+ * while `persist` is set and the scene is ready.
+ *
+ * @remarks
+ * Values are saved with the version of the scene's variable definitions, so
+ * they can be discarded once the definitions change.
+ */
+function usePersistence(
+  sceneRef: React.RefObject<UnicornStudioScene | null>,
+  ready: boolean,
+  persist: UnicornPersistOptions | undefined,
+  activePresetRef: React.RefObject<string | undefined>,
+): void {
+  // Serialized so inline object literals don't resubscribe. A custom
+  // storage adapter is read when saving instead.
+  const optionsKey = persist ? JSON.stringify(persist) : "";
+  const optionsRef = useRef(persist);
+  optionsRef.current = persist;
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const options = optionsRef.current;
+    if (!ready || !optionsKey || !options || !scene?.onVariableChange) return;
+
+    const {
+      key,
+      variables: names,
+      debounce = DEFAULT_VALUES.persistDebounce,
+    } = options;
+    // Definitions don't change during a scene's lifetime
+    const version = getDefinitionsVersion(scene);
+    let pendingValues: UnicornVariables | null = null;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+      timeoutId = null;
+      const values = pendingValues;
+      pendingValues = null;
+      const storage = resolvePersistStorage(optionsRef.current?.storage);
+      if (!values || !storage) return;
+
+      const variables: UnicornVariables = {};
+      Object.entries(values).forEach(([name, value]) => {
+        if (!names || names.includes(name)) variables[name] = value;
+      });
+      writePersistedState(storage, key, {
+        version,
+        preset: activePresetRef.current ?? undefined,
+        variables,
+      });
+    };
+
+    const unsubscribe = scene.onVariableChange((_name, _value, values) => {
+      pendingValues = values;
+      if (timeoutId !== null) clearTimeout(timeoutId);
+      timeoutId = setTimeout(save, debounce);
+    });
+    // Reloading right after a change would lose it otherwise
+    window.addEventListener("pagehide", save);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("pagehide", save);
+      save();
+    };
+  }, [sceneRef, ready, optionsKey, activePresetRef]);
+}
+
+/**
+ * Applies the values of `themeBindings` once the scene is ready, and again
+ * whenever the page's theme may have changed: when a bound media query
+ * changes, or an attribute changes on the container or one of its
+ * ancestors.
+ *
+ * @remarks
+ * Only values that changed since they were last applied are applied, with
+ * the `variableTransition` after the first time. Re-reads are coalesced to
+ * one per frame.
+ */
+function useThemeBindings(
+  elementRef: React.RefObject<HTMLDivElement | null>,
+  sceneRef: React.RefObject<UnicornStudioScene | null>,
+  validationRef: React.RefObject<VariableValidation>,
+  ready: boolean,
+  themeBindings: UnicornThemeBindings | undefined,
+  transitionRef: React.RefObject<UnicornVariableTransitionOptions | null>,
+): void {
+  // Serialized so inline object literals don't restart the observers
+  const bindingsKey = themeBindings ? JSON.stringify(themeBindings) : "";
+  const bindingsRef = useRef(themeBindings);
+  bindingsRef.current = themeBindings;
+
+  useEffect(() => {
+    const el = elementRef.current;
+    const scene = sceneRef.current;
+    const bindings = bindingsRef.current;
+    if (!ready || !bindingsKey || !bindings || !el || !scene) return;
+
+    // Values applied on creation count as applied
+    const applied: UnicornVariables = { ...scene.getVariables?.() };
+    let frameId: number | null = null;
+
+    const apply = (transition: UnicornVariableTransitionOptions | null) => {
+      frameId = null;
+      const values = readThemeBindings(
+        el,
+        bindings,
+        scene.getVariableDefinitions?.(),
+      );
+      const changes: UnicornVariables = {};
+      Object.entries(values).forEach(([name, value]) => {
+        if (JSON.stringify(value) !== JSON.stringify(applied[name])) {
+          changes[name] = value;
+          applied[name] = value;
+        }
+      });
+      applySceneVariables(
+        scene,
+        changes,
+        validationRef.current ?? {},
+        transition,
+      );
+    };
+
+    const scheduleApply = () => {
+      if (frameId !== null) return;
+      frameId = requestAnimationFrame(() =>
+        apply(transitionRef.current ?? null),
+      );
+    };
+
+    apply(null);
+
+    // Theme classes and inline custom properties may be set on any ancestor
+    const observer = new MutationObserver(scheduleApply);
+    for (let node: HTMLElement | null = el; node; node = node.parentElement) {
+      observer.observe(node, { attributes: true });
+    }
+
+    // Custom properties are often redefined for a dark color scheme
+    const queries = new Set<string>();
+    Object.values(bindings).forEach((binding) => {
+      const source = parseThemeSource(binding);
+      if (source?.kind === "media") queries.add(source.query);
+      if (source?.kind === "property") {
+        queries.add("(prefers-color-scheme: dark)");
+      }
+    });
+    const mediaQueryLists =
+      typeof window.matchMedia === "function"
+        ? Array.from(queries, (query) => window.matchMedia(query))
+        : [];
+    mediaQueryLists.forEach((list) =>
+      list.addEventListener("change", scheduleApply),
+    );
+
+    return () => {
+      observer.disconnect();
+      mediaQueryLists.forEach((list) =>
+        list.removeEventListener("change", scheduleApply),
+      );
+      if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+  }, [elementRef, sceneRef, validationRef, ready, bindingsKey, transitionRef]);
+}
+
+/**
+ * Frame gaps longer than this (e.g. while the tab was hidden) restart the
+ * current sample instead of counting as dropped frames.
+ */
+const MAX_FRAME_GAP = 1000;
+
+/**
+ * A tier that had to be stepped down from this many times is not stepped
+ * back up to, so a scene on the edge of a tier doesn't keep re-initializing.
+ */
+const MAX_TIER_DOWNGRADES = 2;
+
+/**
+ * Picks the quality tier to render with from frame rates sampled with
+ * `requestAnimationFrame` while `active` is set.
+ *
+ * @remarks
+ * The first sample after (re-)initialization is discarded as warm-up.
+ *
+ * @returns The tier to render with, and an error message if the configured
+ * tiers are invalid
+ */
+function useAdaptiveQuality({
+  adaptiveQuality,
+  scale,
+  dpi,
+  fps,
+  active,
+  onQualityChange,
+}: {
+  adaptiveQuality?: boolean | UnicornAdaptiveQualityOptions;
+  scale: ScaleRange;
+  dpi: number;
+  fps: ValidFPS;
+  active: boolean;
+  onQualityChange?: (change: UnicornQualityChange) => void;
+}): { tier: UnicornQualityTier; error: string | null } {
+  const onQualityChangeRef = useRef(onQualityChange);
+  onQualityChangeRef.current = onQualityChange;
+
+  // Serialized so inline option objects don't reset the governor on every
+  // render; the options are plain data, so they survive the round trip.
+  const adaptiveQualityKey = adaptiveQuality
+    ? JSON.stringify(adaptiveQuality)
+    : undefined;
+
+  const options = useMemo(
+    () =>
+      resolveAdaptiveQuality(
+        adaptiveQualityKey ? JSON.parse(adaptiveQualityKey) : undefined,
+        { scale, dpi, fps },
+      ),
+    [adaptiveQualityKey, scale, dpi, fps],
+  );
+
+  const error = useMemo(
+    () => (options ? validateQualityTiers(options.tiers) : null),
+    [options],
+  );
+
+  // The tier index is only valid for the options it was chosen under, so new
+  // options start again from the top tier.
+  const [governor, setGovernor] = useState({ options, tierIndex: 0 });
+  const tierIndex = governor.options === options ? governor.tierIndex : 0;
+  const lastChangeRef = useRef(-Infinity);
+  const downgradesRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    lastChangeRef.current = -Infinity;
+    downgradesRef.current = [];
+  }, [options]);
+
+  useEffect(() => {
+    if (
+      !options ||
+      error ||
+      !active ||
+      typeof requestAnimationFrame === "undefined"
+    ) {
+      return;
+    }
+
+    const { tiers } = options;
+    let frameId = 0;
+    let lastFrame: number | null = null;
+    let sampleStart: number | null = null;
+    let frames = 0;
+    let warmedUp = false;
+
+    const changeTier = (
+      nextIndex: number,
+      measuredFps: number,
+      now: number,
+    ) => {
+      if (nextIndex > tierIndex) {
+        downgradesRef.current[tierIndex] =
+          (downgradesRef.current[tierIndex] ?? 0) + 1;
+      }
+      lastChangeRef.current = now;
+      setGovernor({ options, tierIndex: nextIndex });
+      onQualityChangeRef.current?.({
+        tier: tiers[nextIndex],
+        tierIndex: nextIndex,
+        previousTierIndex: tierIndex,
+        measuredFps,
+      });
+    };
+
+    const evaluate = (measuredFps: number, now: number) => {
+      if (now - lastChangeRef.current < options.cooldown) return;
+
+      if (
+        measuredFps < tiers[tierIndex].fps * options.downgradeRatio &&
+        tierIndex < tiers.length - 1
+      ) {
+        changeTier(tierIndex + 1, measuredFps, now);
+      } else if (
+        tierIndex > 0 &&
+        measuredFps >= tiers[tierIndex - 1].fps * options.upgradeRatio &&
+        (downgradesRef.current[tierIndex - 1] ?? 0) < MAX_TIER_DOWNGRADES
+      ) {
+        changeTier(tierIndex - 1, measuredFps, now);
+      }
+    };
+
+    const tick = (now: number) => {
+      if (lastFrame !== null && now - lastFrame > MAX_FRAME_GAP) {
+        sampleStart = null;
+      }
+      lastFrame = now;
+
+      if (sampleStart === null) {
+        sampleStart = now;
+        frames = 0;
+      } else {
+        frames += 1;
+        const elapsed = now - sampleStart;
+
+        if (elapsed >= options.sampleDuration) {
+          const measuredFps = (frames * 1000) / elapsed;
+          sampleStart = now;
+          frames = 0;
+
+          if (warmedUp) {
+            evaluate(measuredFps, now);
+          }
+          warmedUp = true;
+        }
+      }
+
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+    };
+  }, [options, error, active, tierIndex]);
+
+  const tier =
+    options && !error ? options.tiers[tierIndex] : { scale, dpi, fps };
+
+  return { tier, error };
+}
+
+/**
+ * Resolves the `transition` option into complete options, or `null` when a
+ * ready scene is destroyed before its replacement is created.
+ */
+function resolveTransition(
+  transition:
+    UnicornSceneTransitionType | UnicornSceneTransitionOptions | undefined,
+): Required<UnicornSceneTransitionOptions> | null {
+  if (!transition) return null;
+
+  const options =
+    typeof transition === "string" ? { type: transition } : transition;
+
+  return {
+    type: options.type,
+    duration: options.duration ?? DEFAULT_VALUES.transitionDuration,
+    easing: options.easing ?? DEFAULT_VALUES.transitionEasing,
+  };
+}
+
+/**
+ * Resolves the `variableTransition` or `presetTransition` prop into animation
+ * options, or `null` when changes are applied instantly.
+ */
+function resolveVariableTransition(
+  variableTransition: boolean | UnicornVariableTransitionOptions | undefined,
+): UnicornVariableTransitionOptions | null {
+  if (!variableTransition) return null;
+
+  return variableTransition === true ? {} : variableTransition;
+}
+
+/**
+ * Resolves the `controls` option into the SDK's scene config, or `undefined`
+ * to leave the SDK's default.
+ */
+function resolveControls(
+  controls: boolean | UnicornControlsOptions | undefined,
+): UnicornSceneConfig["controls"] {
+  if (controls === false) return false;
+  if (!controls) return undefined;
+
+  const { force, ...options } = controls === true ? {} : controls;
+  if (isProductionBuild() && !force) return undefined;
+
+  return { ...options, enabled: true };
+}
+
+/**
+ * Creates a hidden element for a scene to render into, so an old and a new
+ * scene can overlap inside the container during a transition.
+ *
+ * @param container - The component's container element
+ * @param after - The outgoing scene's element to stack the new one above; the
+ * host is otherwise inserted first so the placeholder stays on top of it
+ */
+function createSceneHost(
+  container: HTMLDivElement,
+  after: HTMLDivElement | null,
+): HTMLDivElement {
+  const host = document.createElement("div");
+  host.style.position = "absolute";
+  host.style.top = "0";
+  host.style.left = "0";
+  host.style.width = "100%";
+  host.style.height = "100%";
+  host.style.opacity = "0";
+
+  if (after?.parentNode === container) {
+    after.after(host);
+  } else {
+    container.insertBefore(host, container.firstChild);
   }
-  // For all other errors, redact obvious URLs and file paths to avoid leaking internals.
-  const urlPattern = /\bhttps?:\/\/[^\s)]+/gi;
-  const filePathPattern = /\b(?:[A-Za-z]:\\|\/)[^\s)]+/g;
 
-  let sanitized = message.replaceAll(urlPattern, "[redacted]");
-  sanitized = sanitized.replaceAll(filePathPattern, "[redacted]");
+  return host;
+}
 
-  return sanitized;
+/**
+ * A ready scene that stays rendered until its replacement is ready.
+ */
+interface OutgoingScene {
+  scene: UnicornStudioScene;
+  host: HTMLDivElement;
 }
 
 /**
  * Builds the scene configuration object from the given parameters and DOM element.
  *
- * @throws If neither `jsonFilePath` nor `projectId` is provided
+ * @throws {@link UnicornSceneInitError} If neither `jsonFilePath` nor
+ * `projectId` is provided
  */
 function buildSceneConfig(
   element: HTMLDivElement,
@@ -46,6 +1193,9 @@ function buildSceneConfig(
     dpi: number;
     fps: ValidFPS;
     lazyLoad: boolean;
+    fixed?: boolean;
+    interactivity?: UnicornInteractivityOptions;
+    controls?: UnicornSceneConfig["controls"];
     altText: string;
     ariaLabel: string;
     production?: boolean;
@@ -71,6 +1221,18 @@ function buildSceneConfig(
     production: params.production,
   };
 
+  if (params.fixed) {
+    config.fixed = true;
+  }
+
+  if (params.interactivity) {
+    config.interactivity = params.interactivity;
+  }
+
+  if (params.controls !== undefined) {
+    config.controls = params.controls;
+  }
+
   if (params.variables) {
     config.initialVariables = params.variables;
   }
@@ -84,37 +1246,15 @@ function buildSceneConfig(
   } else if (params.projectId) {
     config.projectId = params.projectId;
   } else {
-    throw new Error("No project ID or JSON file path provided");
+    throw new UnicornSceneInitError(
+      "No project ID or JSON file path provided",
+      "INVALID_PARAMS",
+    );
   }
 
   return config;
 }
 
-const INIT_TIMEOUT_MS = 15000;
-
-/**
- * Wraps a promise with a timeout, rejecting if it doesn't resolve in time.
- * Ensures the timer is always cleaned up.
- */
-async function withTimeout<T>(
-  promise: Promise<T>,
-  ms: number = INIT_TIMEOUT_MS,
-): Promise<T> {
-  let timeoutId: ReturnType<typeof setTimeout> | undefined;
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    timeoutId = setTimeout(
-      () => reject(new Error("Scene initialization timeout")),
-      ms,
-    );
-  });
-
-  try {
-    return await Promise.race([promise, timeoutPromise]);
-  } finally {
-    if (timeoutId) clearTimeout(timeoutId);
-  }
-}
-
 /**
  * Parameters for the useUnicornScene hook.
  */
@@ -159,6 +1299,30 @@ export interface UseUnicornSceneParams {
    */
   lazyLoad: boolean;
 
+  /**
+   * Whether the container is a fixed, full-viewport background, so
+   * scroll-dependent states follow the page scroll.
+   */
+  fixed?: boolean;
+
+  /**
+   * How the scene responds to the cursor and touch input. Changing it
+   * re-initializes the scene.
+   */
+  interactivity?: UnicornInteractivityOptions;
+
+  /**
+   * Drives a virtual pointer and Vec2 variables from the device's tilt on
+   * devices whose primary input can't hover.
+   */
+  gyroscope?: boolean | UnicornGyroscopeOptions;
+
+  /**
+   * Shows the Unicorn Studio controls panel. Ignored in production builds
+   * unless `force` is set; changing it re-initializes the scene.
+   */
+  controls?: boolean | UnicornControlsOptions;
+
   /**
    * Alt text for accessibility.
    */
@@ -179,6 +1343,44 @@ export interface UseUnicornSceneParams {
    */
   paused?: boolean;
 
+  /**
+   * Pauses the scene while the container is out of view or the page is
+   * hidden.
+   *
+   * @remarks
+   * Combined with `paused`, so either one keeps the scene paused.
+   */
+  pauseWhenOffscreen?: boolean | UnicornPauseWhenOffscreenOptions;
+
+  /**
+   * How the scene responds when the user prefers reduced motion.
+   *
+   * @remarks
+   * `pause` pauses the scene, `placeholder` keeps it from being created (the
+   * status stays `idle`), and `reduced-fps` re-initializes it at 15 fps.
+   *
+   * @defaultValue "pause"
+   */
+  reducedMotion?: UnicornReducedMotionPolicy;
+
+  /**
+   * Priority for keeping the scene alive when more scenes are mounted than
+   * `configureSceneScheduler({ maxActiveScenes })` allows.
+   *
+   * @remarks
+   * A suspended scene is destroyed, reports the `idle` status, and is
+   * re-created once it is among the most relevant scenes again.
+   *
+   * @defaultValue 0
+   */
+  priority?: number;
+
+  /**
+   * Minimum WebGL features the device needs. A device that falls short
+   * reports a `WEBGL_UNSUPPORTED` error without the scene being created.
+   */
+  minCapabilities?: UnicornMinWebGLCapabilities;
+
   /**
    * Values for variables authored and published with the scene.
    *
@@ -199,6 +1401,127 @@ export interface UseUnicornSceneParams {
    */
   onVariableChange?: UnicornVariableChangeCallback;
 
+  /**
+   * Variables driven by scroll progress, applied via `setVariables()` once
+   * the scene is ready and on the frame after each scroll or resize.
+   */
+  scrollVariables?: UnicornScrollVariables;
+
+  /**
+   * What the `scrollVariables` progress measures, and how it maps to values.
+   */
+  scrollOptions?: UnicornScrollOptions;
+
+  /**
+   * Animates changes to `variables`. Initial values are applied without
+   * animating.
+   */
+  variableTransition?: boolean | UnicornVariableTransitionOptions;
+
+  /**
+   * Animates `preset` changes from the current values to the preset's values
+   * instead of snapping to them. The initial preset is applied without
+   * animating.
+   */
+  presetTransition?: boolean | UnicornVariableTransitionOptions;
+
+  /**
+   * Keeps the preset and changed variables in the URL's query string, and
+   * restores them when the scene is created. Never re-initializes the scene.
+   */
+  syncToUrl?: boolean | UnicornUrlSyncOptions;
+
+  /**
+   * Saves the preset and variable values to storage as they change, and
+   * restores them when the scene is created. Values saved against other
+   * variable definitions are discarded.
+   */
+  persist?: UnicornPersistOptions;
+
+  /**
+   * Binds variables to CSS custom properties and media queries, applied on
+   * creation and again when the theme changes.
+   */
+  themeBindings?: UnicornThemeBindings;
+
+  /**
+   * Checks `variables` against the scene's variable definitions before they
+   * are applied. In `clamp` and `strict` modes the initial values are applied
+   * after creation instead of as `initialVariables`.
+   */
+  validateVariables?: UnicornVariableValidationMode;
+
+  /**
+   * Callback fired with the values that failed `validateVariables`. Without
+   * it, violations are logged with `console.warn`.
+   */
+  onVariableViolation?: (violations: UnicornVariableViolation[]) => void;
+
+  /**
+   * Timeout in milliseconds for scene creation.
+   *
+   * @remarks
+   * A number applies to `addScene()`; in the per-phase object form only
+   * `addScene` is used here, since the SDK is loaded by
+   * `useUnicornStudioScript`.
+   *
+   * @defaultValue 15000
+   */
+  initTimeout?: number | UnicornInitTimeouts;
+
+  /**
+   * Signal that cancels a pending initialization when aborted.
+   *
+   * @remarks
+   * A scene that resolves after the abort is destroyed immediately. An
+   * already-ready scene is left untouched. Pass a new signal to allow
+   * initialization again.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Automatic retry policy for failed scene initialization.
+   *
+   * @remarks
+   * `true` uses the default policy. Read when a failure happens, so changing
+   * it never re-initializes the scene.
+   */
+  retry?: boolean | UnicornRetryOptions;
+
+  /**
+   * Keeps a ready scene rendering while its replacement initializes.
+   *
+   * @remarks
+   * Read when the scene is re-initialized, so changing it never
+   * re-initializes the scene.
+   */
+  transition?: UnicornSceneTransitionType | UnicornSceneTransitionOptions;
+
+  /**
+   * Adjusts `scale`, `dpi`, and `fps` from frame rates measured while the
+   * scene is ready and not paused.
+   *
+   * @remarks
+   * Each tier change re-initializes the scene with the new settings.
+   */
+  adaptiveQuality?: boolean | UnicornAdaptiveQualityOptions;
+
+  /**
+   * Callback fired when the adaptive quality tier changes.
+   */
+  onQualityChange?: (change: UnicornQualityChange) => void;
+
+  /**
+   * Callback fired when the scene's WebGL context is lost.
+   *
+   * @remarks
+   * The scene is re-created with the current props, and the variable values
+   * it had are replayed onto the new scene. After `MAX_CONTEXT_RECOVERIES`
+   * losses under the same configuration, a `CONTEXT_LOST` error is reported
+   * instead.
+   */
+  onContextLost?: (event: UnicornContextLossEvent) => void;
+
   /**
    * Callback fired when the scene has loaded successfully.
    */
@@ -207,9 +1530,12 @@ export interface UseUnicornSceneParams {
   /**
    * Callback fired when an error occurs during scene loading.
    *
+   * @remarks
+   * With a retry policy, this only fires once retries are exhausted.
+   *
    * @param error - The error that occurred
    */
-  onError?: (error: Error) => void;
+  onError?: (error: UnicornSceneError) => void;
 
   /**
    * Optional ref that receives the active Unicorn Studio scene instance.
@@ -222,10 +1548,12 @@ export interface UseUnicornSceneParams {
  *
  * @param ref - A React ref callback or mutable object ref to receive the scene instance; if `undefined`, no action is taken
  * @param value - The current `UnicornStudioScene` instance or `null` to clear the ref
+ * @param notify - Whether to notify variable hooks bound to an object ref; `false` during render
  */
 function assignSceneRef(
   ref: React.Ref<UnicornStudioScene | null> | undefined,
   value: UnicornStudioScene | null,
+  notify = true,
 ) {
   if (!ref) return;
 
@@ -235,6 +1563,7 @@ function assignSceneRef(
   }
 
   (ref as React.MutableRefObject<UnicornStudioScene | null>).current = value;
+  if (notify) notifySceneRef(ref);
 }
 
 /**
@@ -256,6 +1585,138 @@ function snapshotCreatedWith(
   };
 }
 
+/**
+ * How `variables` are validated before they are applied to a scene.
+ */
+interface VariableValidation {
+  mode?: UnicornVariableValidationMode;
+  onViolation?: (violations: UnicornVariableViolation[]) => void;
+}
+
+/**
+ * Validates values against the scene's variable definitions and reports the
+ * violations, returning the values to apply.
+ *
+ * @remarks
+ * Scenes without the variables API are left to the SDK.
+ */
+function checkSceneVariables(
+  scene: UnicornStudioScene,
+  values: UnicornVariables,
+  { mode, onViolation }: VariableValidation,
+): UnicornVariables {
+  const definitions = scene.getVariableDefinitions?.();
+  if (!mode || !definitions) return values;
+
+  const result = validateVariables(values, definitions, mode);
+
+  if (result.violations.length > 0) {
+    if (onViolation) {
+      onViolation(result.violations);
+    } else {
+      result.violations.forEach((violation) => {
+        console.warn(`[unicornstudio-react] ${violation.message}`);
+      });
+    }
+  }
+
+  return result.values;
+}
+
+/**
+ * Applies `variables` to a live scene, validated when `validateVariables` is
+ * set, and animated when a `variableTransition` is given.
+ */
+function applySceneVariables(
+  scene: UnicornStudioScene,
+  values: UnicornVariables,
+  validation: VariableValidation,
+  transition: UnicornVariableTransitionOptions | null = null,
+): void {
+  const validValues = checkSceneVariables(scene, values, validation);
+  if (Object.keys(validValues).length === 0) return;
+
+  if (transition) {
+    void animateVariables(scene, validValues, transition);
+    return;
+  }
+
+  // Values set instantly replace any animation still running towards them
+  cancelVariableAnimations(scene, Object.keys(validValues));
+  scene.setVariables?.(validValues);
+}
+
+/**
+ * Applies `preset` to a live scene, animated when a `presetTransition` is
+ * given.
+ *
+ * @remarks
+ * Scenes that can't resolve the preset's values fall back to `setPreset()`.
+ */
+function applyScenePreset(
+  scene: UnicornStudioScene,
+  preset: string,
+  transition: UnicornVariableTransitionOptions | null,
+): void {
+  const values = getPresetValues(scene, preset);
+
+  if (values && transition) {
+    void animateToPreset(scene, preset, values, transition);
+    return;
+  }
+
+  // Snapping replaces a transition still running towards another preset
+  if (values) cancelVariableAnimations(scene, Object.keys(values));
+  scene.setPreset?.(preset);
+}
+
+/**
+ * Moves a live scene to `preset` and `variables` as if it had been created
+ * with them: the preset is applied unless it's already `activePreset`, and
+ * variables not in `variables` return to their default or preset values.
+ *
+ * @param names - The variables to restore, or all when omitted
+ */
+function restoreSceneState(
+  scene: UnicornStudioScene,
+  activePreset: string | undefined,
+  preset: string | undefined,
+  variables: UnicornVariables,
+  validation: VariableValidation,
+  names?: string[],
+): void {
+  if (preset && preset !== activePreset) {
+    applyScenePreset(scene, preset, null);
+  }
+
+  const target: UnicornVariables = {
+    ...getBaselineValues(scene, preset),
+    ...variables,
+  };
+  const current = scene.getVariables?.() ?? {};
+  const changes: UnicornVariables = {};
+  Object.entries(target).forEach(([name, value]) => {
+    if (names && !names.includes(name)) return;
+    if (
+      !(name in current) ||
+      encodeVariableValue(value) !== encodeVariableValue(current[name])
+    ) {
+      changes[name] = value;
+    }
+  });
+  applySceneVariables(scene, changes, validation);
+}
+
+/**
+ * Whether initial values are withheld from `initialVariables`, since the
+ * definitions they are validated against only exist once the scene does.
+ */
+function defersInitialVariables(
+  mode: UnicornVariableValidationMode | undefined,
+): boolean {
+  return mode === "clamp" || mode === "strict";
+}
+
 /**
  * Applies variables and presets that changed while the scene was being created.
  *
@@ -268,6 +1729,7 @@ function replaySceneDrift(
   createdWith: CreatedWith,
   latestPreset: string | undefined,
   latestVariables: UnicornVariables | undefined,
+  validation: VariableValidation,
 ): void {
   if (latestPreset && latestPreset !== createdWith.preset) {
     scene.setPreset?.(latestPreset);
@@ -277,7 +1739,7 @@ function replaySceneDrift(
     latestVariables &&
     JSON.stringify(latestVariables) !== createdWith.variablesKey
   ) {
-    scene.setVariables?.(latestVariables);
+    applySceneVariables(scene, latestVariables, validation);
   }
 }
 
@@ -291,15 +1753,34 @@ function replaySceneDrift(
  * The hook will automatically:
  * - Initialize the scene when the SDK script loads
  * - Re-initialize when configuration changes
- * - Sync the paused state with the scene
+ * - Sync the paused state with the scene, and pause it while offscreen when
+ *   `pauseWhenOffscreen` is set
+ * - Apply the `reducedMotion` policy while the user prefers reduced motion
+ * - Suspend the scene while the shared scheduler's budget is used by more
+ *   relevant scenes
+ * - Re-create the scene when its WebGL context is lost
+ * - Track the scene lifecycle status
+ * - Retry failed initialization according to the `retry` policy
+ * - Keep the old scene up while a new one loads when `transition` is set
+ * - Tune `scale`, `dpi`, and `fps` from measured frame rates when
+ *   `adaptiveQuality` is set
+ * - Animate `preset` changes when `presetTransition` is set
+ * - Drive variables from scroll progress when `scrollVariables` is set
+ * - Follow the device's tilt on touch devices when `gyroscope` is set
+ * - Keep the preset and changed variables in the URL when `syncToUrl` is set
+ * - Save and restore the preset and variables when `persist` is set
+ * - Follow the page's theme when `themeBindings` is set
  * - Clean up resources on unmount
  *
  * @param params - The hook parameters
- * @returns An object containing any initialization error
+ * @returns An object containing any initialization error, the lifecycle
+ * status, whether a transition is in progress, whether the user prefers
+ * reduced motion, whether the scheduler suspended the scene, and a `retry`
+ * function
  *
  * @example
  * ```tsx
- * const { error } = useUnicornScene({
+ * const { error, status } = useUnicornScene({
  *   elementRef,
  *   projectId: "my-project-id",
  *   scale: 1,
@@ -323,19 +1804,59 @@ export function useUnicornScene({
   dpi,
   fps,
   lazyLoad,
+  fixed,
+  interactivity,
+  gyroscope,
+  controls,
   altText,
   ariaLabel,
   isScriptLoaded,
   paused,
+  pauseWhenOffscreen,
+  reducedMotion = DEFAULT_VALUES.reducedMotion,
+  priority = DEFAULT_VALUES.priority,
+  minCapabilities,
   variables,
   preset,
   onVariableChange,
+  scrollVariables,
+  scrollOptions,
+  variableTransition,
+  presetTransition,
+  syncToUrl,
+  persist,
+  themeBindings,
+  validateVariables: variableValidationMode,
+  onVariableViolation,
+  initTimeout,
+  signal,
+  retry,
+  transition,
+  adaptiveQuality,
+  onQualityChange,
+  onContextLost,
   onLoad,
   onError,
   sceneRef,
-}: UseUnicornSceneParams): { error: Error | null } {
+}: UseUnicornSceneParams): {
+  /** Error that occurred during scene initialization, if any */
+  error: UnicornSceneError | null;
+  /** Current lifecycle status of the scene */
+  status: UnicornSceneStatus;
+  /** Whether an old scene is still shown while its replacement loads */
+  transitioning: boolean;
+  /** Whether the user prefers reduced motion, unless the policy is `ignore` */
+  prefersReducedMotion: boolean;
+  /** Whether the scene was suspended to stay within `maxActiveScenes` */
+  suspended: boolean;
+  /** Whether the device lacks WebGL or the `minCapabilities` */
+  unsupported: boolean;
+  /** Re-runs initialization, resetting the automatic retry budget */
+  retry: () => void;
+} {
   const internalSceneRef = useRef<UnicornStudioScene | null>(null);
-  const [initError, setInitError] = useState<Error | null>(null);
+  const [initError, setInitError] = useState<UnicornSceneError | null>(null);
+  const [status, setStatus] = useState<UnicornSceneStatus>("idle");
   const initializationKeyRef = useRef<string>("");
   const isInitializingRef = useRef(false);
 
@@ -346,6 +1867,42 @@ export function useUnicornScene({
   onErrorRef.current = onError;
   const onVariableChangeRef = useRef(onVariableChange);
   onVariableChangeRef.current = onVariableChange;
+  const variableValidationRef = useRef<VariableValidation>({});
+  variableValidationRef.current = {
+    mode: variableValidationMode,
+    onViolation: onVariableViolation,
+  };
+  const retryRef = useRef(retry);
+  retryRef.current = retry;
+  const onContextLostRef = useRef(onContextLost);
+  onContextLostRef.current = onContextLost;
+
+  // Context loss: the listener on the live scene's element, the number of
+  // losses under the current configuration, and the variable values to
+  // restore on the re-created scene
+  const contextLossCleanupRef = useRef<(() => void) | null>(null);
+  const contextLossCountRef = useRef(0);
+  const recoveredVariablesRef = useRef<UnicornVariables | null>(null);
+  const transitionRef = useRef(transition);
+  transitionRef.current = transition;
+
+  // With a transition, each scene renders into its own host element and the
+  // scene being replaced is kept until the new one is ready.
+  const sceneHostRef = useRef<HTMLDivElement | null>(null);
+  const outgoingSceneRef = useRef<OutgoingScene | null>(null);
+  const transitionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
+  const [isTransitioning, setIsTransitioning] = useState(false);
+
+  const sceneTimeout =
+    (typeof initTimeout === "number" ? initTimeout : initTimeout?.addScene) ??
+    DEFAULT_VALUES.initTimeout;
+
+  // Bumped to re-run the initialization effect for a retry
+  const [attemptNonce, setAttemptNonce] = useState(0);
+  const failedAttemptsRef = useRef(0);
+  const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Variables and preset are synced to the live scene without re-initializing,
   // so the init effect reads them from refs instead of depending on them.
@@ -353,11 +1910,33 @@ export function useUnicornScene({
   variablesRef.current = variables;
   const presetRef = useRef(preset);
   presetRef.current = preset;
+  // The preset the live scene was last set to, from the props or the URL
+  const activePresetRef = useRef<string | undefined>(undefined);
+  const syncToUrlRef = useRef(syncToUrl);
+  syncToUrlRef.current = syncToUrl;
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+  const themeBindingsRef = useRef(themeBindings);
+  themeBindingsRef.current = themeBindings;
 
   // Serialized so inline object literals don't retrigger the sync effect on
   // every render.
   const variablesKey = variables ? JSON.stringify(variables) : undefined;
 
+  // Part of the initialization key, since the SDK only reads interactivity on
+  // creation; serialized so inline object literals don't re-initialize.
+  const interactivityKey = interactivity ? JSON.stringify(interactivity) : "";
+  const interactivityRef = useRef(interactivity);
+  interactivityRef.current = interactivity;
+
+  // Resolved up front, so a production build ignoring `controls` doesn't
+  // re-initialize when it changes
+  const sceneControls = resolveControls(controls);
+  const controlsKey =
+    sceneControls === undefined ? "" : JSON.stringify(sceneControls);
+  const sceneControlsRef = useRef(sceneControls);
+  sceneControlsRef.current = sceneControls;
+
   const variableUnsubscribeRef = useRef<(() => void) | null>(null);
   const sceneRefRef = useRef(sceneRef);
   const prevSceneRef = useRef(sceneRef);
@@ -365,16 +1944,77 @@ export function useUnicornScene({
   // Sync external sceneRef when the prop changes: null the old ref and
   // forward the current scene (if any) to the new one.
   if (sceneRef !== prevSceneRef.current) {
-    assignSceneRef(prevSceneRef.current, null);
+    assignSceneRef(prevSceneRef.current, null, false);
     sceneRefRef.current = sceneRef;
     prevSceneRef.current = sceneRef;
-    assignSceneRef(sceneRef, internalSceneRef.current);
+    assignSceneRef(sceneRef, internalSceneRef.current, false);
   }
 
+  // The swap above happens during render, so variable hooks bound to the old
+  // and new refs are notified once it commits
+  useEffect(() => {
+    if (!sceneRef || typeof sceneRef === "function") return;
+
+    notifySceneRef(sceneRef);
+    return () => notifySceneRef(sceneRef);
+  }, [sceneRef]);
+
+  const isOffscreen = useOffscreenState(elementRef, pauseWhenOffscreen);
+  const reducedMotionPreference = usePrefersReducedMotion(
+    reducedMotion !== "ignore",
+  );
+  const prefersReducedMotion = reducedMotionPreference === true;
+  // Read by the variables sync effect, which only re-runs on value changes
+  const variableTransitionRef = useRef<UnicornVariableTransitionOptions | null>(
+    null,
+  );
+  variableTransitionRef.current = prefersReducedMotion
+    ? null
+    : resolveVariableTransition(variableTransition);
+  const presetTransitionRef = useRef<UnicornVariableTransitionOptions | null>(
+    null,
+  );
+  presetTransitionRef.current = prefersReducedMotion
+    ? null
+    : resolveVariableTransition(presetTransition);
+  const shouldPause =
+    !!paused ||
+    isOffscreen ||
+    (prefersReducedMotion && reducedMotion === "pause");
+  // The `placeholder` policy keeps the scene from being created at all. It
+  // and `reduced-fps` wait for the preference to be read, so the scene isn't
+  // created with the wrong settings first.
+  const isMotionAllowed =
+    reducedMotion === "placeholder" || reducedMotion === "reduced-fps"
+      ? reducedMotionPreference !== null &&
+        !(prefersReducedMotion && reducedMotion === "placeholder")
+      : true;
+  const isScheduled = useSceneSchedule(elementRef, priority);
+  const webGLCapabilities = useWebGLCapabilities();
+  const capabilityError =
+    webGLCapabilities &&
+    validateWebGLCapabilities(webGLCapabilities, minCapabilities);
+  const isSceneEnabled =
+    isMotionAllowed &&
+    isScheduled === true &&
+    webGLCapabilities !== null &&
+    !capabilityError;
+  const shouldPauseRef = useRef(shouldPause);
+  shouldPauseRef.current = shouldPause;
+
+  const { tier: qualityTier, error: qualityError } = useAdaptiveQuality({
+    adaptiveQuality,
+    scale,
+    dpi,
+    fps,
+    active: status === "ready" && !shouldPause,
+    onQualityChange,
+  });
+
   // Validate parameters early and memoize the result to prevent loops
   const validationError = useMemo(() => {
-    return validateParameters(scale, fps);
-  }, [scale, fps]);
+    return validateParameters(scale, fps) ?? qualityError;
+  }, [scale, fps, qualityError]);
 
   const prevValidationError = useRef<string | null>(null);
 
@@ -383,37 +2023,165 @@ export function useUnicornScene({
       prevValidationError.current = validationError;
 
       if (validationError) {
-        const error = new Error(validationError);
+        const error = new UnicornSceneInitError(
+          validationError,
+          "INVALID_PARAMS",
+        );
         setInitError(error);
+        setStatus("error");
         onErrorRef.current?.(error);
       } else {
         setInitError(null);
+        setStatus("idle");
       }
     }
   }, [validationError]);
 
+  const prevCapabilityError = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (capabilityError === prevCapabilityError.current) return;
+    prevCapabilityError.current = capabilityError;
+
+    if (capabilityError) {
+      const error = new UnicornSceneInitError(
+        capabilityError,
+        "WEBGL_UNSUPPORTED",
+      );
+      setInitError(error);
+      setStatus("error");
+      onErrorRef.current?.(error);
+    } else {
+      setInitError(null);
+    }
+  }, [capabilityError]);
+
   const destroyScene = useCallback(() => {
+    if (internalSceneRef.current) {
+      cancelVariableAnimations(internalSceneRef.current);
+    }
     variableUnsubscribeRef.current?.();
     variableUnsubscribeRef.current = null;
+    contextLossCleanupRef.current?.();
+    contextLossCleanupRef.current = null;
     if (internalSceneRef.current?.destroy) {
       internalSceneRef.current.destroy();
       internalSceneRef.current = null;
       assignSceneRef(sceneRefRef.current, null);
     }
+    sceneHostRef.current?.remove();
+    sceneHostRef.current = null;
     isInitializingRef.current = false;
   }, []);
 
+  const destroyOutgoingScene = useCallback(() => {
+    if (transitionTimeoutRef.current) {
+      clearTimeout(transitionTimeoutRef.current);
+      transitionTimeoutRef.current = null;
+    }
+
+    const outgoing = outgoingSceneRef.current;
+    if (!outgoing) return;
+
+    outgoingSceneRef.current = null;
+    outgoing.scene.destroy?.();
+    outgoing.host.remove();
+    setIsTransitioning(false);
+  }, []);
+
+  // Keeps the ready scene rendering, detached from the hook, until
+  // revealScene() or destroyOutgoingScene() disposes of it.
+  const retireScene = useCallback(() => {
+    const scene = internalSceneRef.current;
+    const host = sceneHostRef.current;
+    if (!scene || !host) return;
+
+    destroyOutgoingScene();
+    cancelVariableAnimations(scene);
+    variableUnsubscribeRef.current?.();
+    variableUnsubscribeRef.current = null;
+    contextLossCleanupRef.current?.();
+    contextLossCleanupRef.current = null;
+    outgoingSceneRef.current = { scene, host };
+    internalSceneRef.current = null;
+    sceneHostRef.current = null;
+    assignSceneRef(sceneRefRef.current, null);
+    isInitializingRef.current = false;
+    setIsTransitioning(true);
+  }, [destroyOutgoingScene]);
+
+  // Shows the newly ready scene and replaces the outgoing one, if any
+  const revealScene = useCallback(() => {
+    const host = sceneHostRef.current;
+    if (!host) return;
+
+    const outgoing = outgoingSceneRef.current;
+    const options = resolveTransition(transitionRef.current);
+
+    if (!outgoing || options?.type !== "crossfade") {
+      host.style.opacity = "1";
+      destroyOutgoingScene();
+      return;
+    }
+
+    // Only the new scene fades; fading the old one out at the same time
+    // would let the background show through halfway.
+    host.style.transition = `opacity ${options.duration}ms ${options.easing}`;
+    host.style.opacity = "1";
+    transitionTimeoutRef.current = setTimeout(
+      destroyOutgoingScene,
+      options.duration,
+    );
+  }, [destroyOutgoingScene]);
+
+  // The settings the scene is created with; the adaptive quality tier when
+  // enabled, otherwise the props
+  const { scale: renderScale, dpi: renderDpi } = qualityTier;
+  const renderFps =
+    prefersReducedMotion && reducedMotion === "reduced-fps"
+      ? (Math.min(qualityTier.fps, DEFAULT_VALUES.reducedMotionFps) as ValidFPS)
+      : qualityTier.fps;
+
   useEffect(() => {
     let ignore = false;
 
+    // An aborted signal, the `placeholder` reduced motion policy, a
+    // scheduler suspension, or missing WebGL capabilities keeps the scene
+    // from being created at all
+    if (signal?.aborted || !isSceneEnabled) {
+      destroyOutgoingScene();
+      if (!validationError && !capabilityError) setStatus("idle");
+      return;
+    }
+
+    const handleAbort = () => {
+      // Only a pending initialization, including an SDK that is still
+      // loading, is cancelled; a ready scene stays
+      if (internalSceneRef.current) return;
+
+      ignore = true;
+      isInitializingRef.current = false;
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = null;
+      }
+      destroyOutgoingScene();
+      setStatus("idle");
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
     async function initializeScene() {
-      if (!elementRef.current || !isScriptLoaded || validationError) return;
+      if (!elementRef.current || !isScriptLoaded || validationError) {
+        destroyOutgoingScene();
+        return;
+      }
 
       // Prevent multiple concurrent initializations
       if (isInitializingRef.current) return;
 
       // Create a unique key for this configuration
-      const currentKey = `${projectId || ""}-${jsonFilePath || ""}-${scale}-${dpi}-${fps}-${production ? "prod" : "dev"}`;
+      const currentKey = `${projectId || ""}-${jsonFilePath || ""}-${renderScale}-${renderDpi}-${renderFps}-${production ? "prod" : "dev"}${fixed ? "-fixed" : ""}-${interactivityKey}-${controlsKey}`;
 
       // Check if we're already initialized with this exact configuration
       if (
@@ -423,6 +2191,13 @@ export function useUnicornScene({
         return;
       }
 
+      // A new configuration gets a fresh retry and recovery budget
+      if (initializationKeyRef.current !== currentKey) {
+        failedAttemptsRef.current = 0;
+        contextLossCountRef.current = 0;
+        recoveredVariablesRef.current = null;
+      }
+
       // Update the initialization key
       initializationKeyRef.current = currentKey;
 
@@ -431,36 +2206,92 @@ export function useUnicornScene({
 
         // Set the flag after destroyScene() which unconditionally clears it
         isInitializingRef.current = true;
+        setStatus("initializing");
 
         if (!window.UnicornStudio?.addScene) {
-          throw new Error("UnicornStudio.addScene not found");
+          throw new UnicornSdkLoadError(
+            "UnicornStudio.addScene not found",
+            "SDK_GLOBAL_MISSING",
+          );
         }
 
         // Snapshot what the scene is created with, so anything that changed
         // while addScene() was in flight can be replayed once it resolves.
-        const initialVariables = variablesRef.current;
+        // Withheld values are applied once the scene exists, and are part
+        // of the snapshot all the same so they aren't replayed over what is
+        // restored after them.
+        const validation = variableValidationRef.current;
+        const defersVariables = defersInitialVariables(validation.mode);
+        const propVariables = variablesRef.current;
+        const initialVariables = defersVariables ? undefined : propVariables;
         const initialPreset = presetRef.current;
-        const createdWith = snapshotCreatedWith(
-          initialPreset,
-          initialVariables,
-        );
+        const createdWith = snapshotCreatedWith(initialPreset, propVariables);
+
+        // Saved values take precedence over the props, and values restored
+        // from the URL over both. They are left out of the snapshot so they
+        // aren't replayed over. Saved values are withheld like validated
+        // ones: whether they match the variable definitions is only known
+        // once the scene exists.
+        const persistOptions = persistRef.current;
+        const persistStorage = persistOptions
+          ? resolvePersistStorage(persistOptions.storage)
+          : null;
+        // After a context loss, the scene is rebuilt with the values the
+        // lost scene had, with the props taking precedence. Those are newer
+        // than any saved values.
+        const recoveredVariables = recoveredVariablesRef.current ?? undefined;
+        const persisted =
+          persistOptions && persistStorage && !recoveredVariables
+            ? readPersistedState(persistStorage, persistOptions.key)
+            : null;
+        const urlSync = resolveUrlSync(syncToUrlRef.current);
+        const urlState = urlSync
+          ? readUrlState(
+              window.location.search,
+              urlSync.param ?? DEFAULT_VALUES.urlSyncParam,
+              urlSync.variables,
+            )
+          : null;
+        const urlVariables =
+          urlState && Object.keys(urlState.variables).length > 0
+            ? urlState.variables
+            : undefined;
+        const configVariables = defersVariables
+          ? recoveredVariables
+          : recoveredVariables || urlVariables
+            ? { ...recoveredVariables, ...initialVariables, ...urlVariables }
+            : initialVariables;
+        const configPreset = urlState?.preset ?? initialPreset;
+
+        if (resolveTransition(transitionRef.current)) {
+          sceneHostRef.current = createSceneHost(
+            elementRef.current,
+            outgoingSceneRef.current?.host ?? null,
+          );
+        }
 
-        const sceneConfig = buildSceneConfig(elementRef.current, {
+        const sceneElement = sceneHostRef.current ?? elementRef.current;
+        const sceneConfig = buildSceneConfig(sceneElement, {
           jsonFilePath,
           projectId,
-          scale,
-          dpi,
-          fps,
+          scale: renderScale,
+          dpi: renderDpi,
+          fps: renderFps,
           lazyLoad,
+          fixed,
+          interactivity: interactivityRef.current,
+          controls: sceneControlsRef.current,
           altText,
           ariaLabel,
           production,
-          variables: initialVariables,
-          preset: initialPreset,
+          variables: configVariables,
+          preset: configPreset,
         });
 
         const scene = await withTimeout(
           window.UnicornStudio.addScene(sceneConfig),
+          sceneTimeout,
+          "Scene initialization timeout",
         );
 
         // If the effect cleaned up while we were awaiting, destroy and bail
@@ -471,44 +2302,209 @@ export function useUnicornScene({
 
         if (scene) {
           internalSceneRef.current = scene;
+          // A scene created while paused or offscreen starts paused
+          if (shouldPauseRef.current) scene.paused = true;
           assignSceneRef(sceneRefRef.current, scene);
           variableUnsubscribeRef.current =
             scene.onVariableChange?.((name, value, values) =>
               onVariableChangeRef.current?.(name, value, values),
             ) ?? null;
 
+          recoveredVariablesRef.current = null;
+
+          // Initial values passed as `initialVariables` are only reported
+          if (configVariables) {
+            checkSceneVariables(
+              scene,
+              configVariables,
+              variableValidationRef.current,
+            );
+          }
+
+          // Theme values follow the page, so they take precedence over all
+          // other initial values. Like saved values, they wait for the
+          // scene's definitions, which give them their types.
+          const themeBindings = themeBindingsRef.current;
+          const themeVariables =
+            themeBindings && elementRef.current
+              ? readThemeBindings(
+                  elementRef.current,
+                  themeBindings,
+                  scene.getVariableDefinitions?.(),
+                )
+              : {};
+
+          // Saved values are restored if they were saved against the scene's
+          // variable definitions, and discarded otherwise
+          const isPersistedStale =
+            !!persisted && persisted.version !== getDefinitionsVersion(scene);
+          if (isPersistedStale && persistOptions && persistStorage) {
+            removePersistedState(persistStorage, persistOptions.key);
+          }
+
+          let restoredPreset = configPreset;
+          if (persisted && !isPersistedStale) {
+            restoredPreset =
+              urlState?.preset ?? persisted.preset ?? initialPreset;
+            const restoredVariables = {
+              ...persisted.variables,
+              ...urlVariables,
+            };
+            restoreSceneState(
+              scene,
+              configPreset,
+              restoredPreset,
+              {
+                ...propVariables,
+                ...restoredVariables,
+                ...themeVariables,
+              },
+              variableValidationRef.current,
+            );
+          } else {
+            const initialChanges = {
+              ...(defersVariables
+                ? { ...propVariables, ...urlVariables }
+                : undefined),
+              ...themeVariables,
+            };
+            restoreSceneState(
+              scene,
+              configPreset,
+              configPreset,
+              initialChanges,
+              variableValidationRef.current,
+              Object.keys(initialChanges),
+            );
+          }
+
           replaySceneDrift(
             scene,
             createdWith,
             presetRef.current,
             variablesRef.current,
+            variableValidationRef.current,
           );
+          activePresetRef.current =
+            presetRef.current && presetRef.current !== createdWith.preset
+              ? presetRef.current
+              : restoredPreset;
+
+          const handleContextLost = () => {
+            if (internalSceneRef.current !== scene) return;
+
+            contextLossCountRef.current += 1;
+            const attempt = contextLossCountRef.current;
+            const willRecover = attempt <= MAX_CONTEXT_RECOVERIES;
+            onContextLostRef.current?.({ attempt, willRecover });
+
+            if (willRecover) {
+              recoveredVariablesRef.current = scene.getVariables?.() ?? null;
+              setAttemptNonce((nonce) => nonce + 1);
+              return;
+            }
+
+            destroyScene();
+            const contextError = new UnicornSceneInitError(
+              "WebGL context lost",
+              "CONTEXT_LOST",
+            );
+            setInitError(contextError);
+            setStatus("error");
+            onErrorRef.current?.(contextError);
+          };
+
+          // Context events don't bubble, so listen in the capture phase to
+          // catch whichever canvas the SDK creates inside the element.
+          sceneElement.addEventListener(
+            "webglcontextlost",
+            handleContextLost,
+            true,
+          );
+          contextLossCleanupRef.current = () => {
+            sceneElement.removeEventListener(
+              "webglcontextlost",
+              handleContextLost,
+              true,
+            );
+          };
 
           setInitError(null);
           isInitializingRef.current = false;
+          failedAttemptsRef.current = 0;
+          revealScene();
+          setStatus("ready");
           onLoadRef.current?.();
         } else {
           isInitializingRef.current = false;
-          throw new Error("Failed to initialize scene");
+          throw new UnicornSceneInitError(
+            "Failed to initialize scene",
+            "UNKNOWN",
+          );
         }
       } catch (error) {
         if (ignore) return;
 
-        const err = error instanceof Error ? error : new Error("Unknown error");
-        const sanitizedError = new Error(sanitizeErrorMessage(err.message));
-        setInitError(sanitizedError);
+        const sceneError = toUnicornSceneError(error, "scene-init");
         isInitializingRef.current = false;
-        onErrorRef.current?.(sanitizedError);
+        failedAttemptsRef.current += 1;
+
+        const retryOptions = resolveRetryOptions(retryRef.current);
+        if (
+          retryOptions &&
+          shouldRetry(retryOptions, sceneError, failedAttemptsRef.current)
+        ) {
+          // Stay in `initializing` while waiting; bumping the nonce re-runs
+          // this effect.
+          retryTimeoutRef.current = setTimeout(
+            () => {
+              retryTimeoutRef.current = null;
+              setAttemptNonce((nonce) => nonce + 1);
+            },
+            getRetryDelay(retryOptions, failedAttemptsRef.current),
+          );
+          return;
+        }
+
+        destroyOutgoingScene();
+        setInitError(sceneError);
+        setStatus("error");
+        onErrorRef.current?.(sceneError);
       }
     }
 
     if (isScriptLoaded) {
       void initializeScene();
+    } else {
+      destroyOutgoingScene();
+      if (!validationError) setStatus("loading-sdk");
     }
 
     return () => {
       ignore = true;
+      signal?.removeEventListener("abort", handleAbort);
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = null;
+      }
+
+      // A ready scene being transitioned out is kept until the next run's
+      // scene is ready, or destroyed by the unmount effect below.
+      if (
+        internalSceneRef.current &&
+        sceneHostRef.current &&
+        resolveTransition(transitionRef.current)
+      ) {
+        retireScene();
+        return;
+      }
+
       destroyScene();
+      // Only report a teardown when something was started; an SDK that is
+      // still loading has nothing to destroy.
+      setStatus((current) =>
+        current === "idle" || current === "loading-sdk" ? current : "destroyed",
+      );
     };
   }, [
     isScriptLoaded,
@@ -516,37 +2512,114 @@ export function useUnicornScene({
     jsonFilePath,
     projectId,
     production,
-    scale,
-    dpi,
-    fps,
+    renderScale,
+    renderDpi,
+    renderFps,
     lazyLoad,
+    fixed,
+    interactivityKey,
+    controlsKey,
     altText,
     ariaLabel,
     destroyScene,
+    destroyOutgoingScene,
+    retireScene,
+    revealScene,
     validationError,
+    capabilityError,
+    attemptNonce,
+    sceneTimeout,
+    signal,
+    isSceneEnabled,
   ]);
 
+  // Runs after the initialization cleanup on unmount, which retires rather
+  // than destroys a scene when a transition is set
+  useEffect(() => destroyOutgoingScene, [destroyOutgoingScene]);
+
+  const retryInitialization = useCallback(() => {
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+    failedAttemptsRef.current = 0;
+    contextLossCountRef.current = 0;
+    setInitError(null);
+    setAttemptNonce((nonce) => nonce + 1);
+  }, []);
+
   // Sync paused state with scene
   useEffect(() => {
-    if (internalSceneRef.current && paused !== undefined) {
-      internalSceneRef.current.paused = paused;
+    if (internalSceneRef.current) {
+      internalSceneRef.current.paused = shouldPause;
     }
-  }, [paused]);
+  }, [shouldPause]);
 
   // Sync variable values with the live scene. Initial values are delivered
   // via `initialVariables` in the scene config, so this only applies changes
   // made after the scene has loaded.
   useEffect(() => {
-    if (variablesKey !== undefined && variablesRef.current) {
-      internalSceneRef.current?.setVariables?.(variablesRef.current);
+    const scene = internalSceneRef.current;
+    if (scene && variablesKey !== undefined && variablesRef.current) {
+      applySceneVariables(
+        scene,
+        variablesRef.current,
+        variableValidationRef.current,
+        variableTransitionRef.current,
+      );
     }
   }, [variablesKey]);
 
+  useScrollVariables(
+    elementRef,
+    internalSceneRef,
+    variableValidationRef,
+    status === "ready",
+    scrollVariables,
+    scrollOptions,
+  );
+
+  useGyroscope(
+    elementRef,
+    internalSceneRef,
+    variableValidationRef,
+    status === "ready",
+    gyroscope,
+  );
+
+  useUrlSync(
+    internalSceneRef,
+    variableValidationRef,
+    status === "ready",
+    syncToUrl,
+    activePresetRef,
+    presetRef,
+    variablesRef,
+  );
+
+  usePersistence(
+    internalSceneRef,
+    status === "ready",
+    persist,
+    activePresetRef,
+  );
+
+  useThemeBindings(
+    elementRef,
+    internalSceneRef,
+    variableValidationRef,
+    status === "ready",
+    themeBindings,
+    variableTransitionRef,
+  );
+
   // Sync preset with the live scene. The initial preset is delivered via
   // `initialPreset` in the scene config.
   useEffect(() => {
-    if (preset) {
-      internalSceneRef.current?.setPreset?.(preset);
+    const scene = internalSceneRef.current;
+    if (scene && preset) {
+      activePresetRef.current = preset;
+      applyScenePreset(scene, preset, presetTransitionRef.current);
     }
   }, [preset]);
 
@@ -566,5 +2639,13 @@ export function useUnicornScene({
     };
   }, [elementRef]);
 
-  return { error: initError };
+  return {
+    error: initError,
+    status,
+    transitioning: isTransitioning,
+    prefersReducedMotion,
+    suspended: isScheduled === false,
+    unsupported: !!capabilityError,
+    retry: retryInitialization,
+  };
 }
@@ -0,0 +1,120 @@
+import type {
+  UnicornPersistStorage,
+  UnicornStudioScene,
+  UnicornVariables,
+} from "./types";
+
+/**
+ * A scene's preset and variable values as saved by `persist`, with the
+ * version of the variable definitions they were saved against.
+ */
+export interface PersistedSceneState {
+  version: string;
+  preset?: string;
+  variables: UnicornVariables;
+}
+
+/**
+ * Resolves the `storage` option of `persist`, or returns `null` when the
+ * storage isn't available, e.g. during SSR or with storage disabled.
+ */
+export function resolvePersistStorage(
+  storage: "local" | "session" | UnicornPersistStorage = "local",
+): UnicornPersistStorage | null {
+  if (typeof storage === "object") return storage;
+  if (typeof window === "undefined") return null;
+
+  try {
+    // Reading the property throws where the browser blocks storage
+    return storage === "session" ? window.sessionStorage : window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Identifies the scene's variable definitions, so values saved against
+ * other definitions can be told apart.
+ *
+ * @remarks
+ * Covers each variable's ID, name, and type, in any order, hashed into a
+ * short string.
+ */
+export function getDefinitionsVersion(scene: UnicornStudioScene): string {
+  const signature = (scene.getVariableDefinitions?.() ?? [])
+    .map(({ id, name, type }) => `${id}:${name}:${type}`)
+    .sort()
+    .join("|");
+
+  // djb2
+  let hash = 5381;
+  for (let i = 0; i < signature.length; i++) {
+    hash = ((hash << 5) + hash + signature.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Reads the state saved under `key`, or returns `null` if there is none or
+ * it can't be read.
+ */
+export function readPersistedState(
+  storage: UnicornPersistStorage,
+  key: string,
+): PersistedSceneState | null {
+  try {
+    const text = storage.getItem(key);
+    if (!text) return null;
+
+    const state = JSON.parse(text) as Partial<PersistedSceneState> | null;
+    if (
+      !state ||
+      typeof state.version !== "string" ||
+      typeof state.variables !== "object" ||
+      !state.variables
+    ) {
+      return null;
+    }
+
+    return {
+      version: state.version,
+      preset: typeof state.preset === "string" ? state.preset : undefined,
+      variables: state.variables,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves `state` under `key`.
+ *
+ * @remarks
+ * Failures, such as an exceeded quota, are ignored: the values just aren't
+ * restored on the next visit.
+ */
+export function writePersistedState(
+  storage: UnicornPersistStorage,
+  key: string,
+  state: PersistedSceneState,
+): void {
+  try {
+    storage.setItem(key, JSON.stringify(state));
+  } catch {
+    // Ignored, see above
+  }
+}
+
+/**
+ * Removes the state saved under `key`.
+ */
+export function removePersistedState(
+  storage: UnicornPersistStorage,
+  key: string,
+): void {
+  try {
+    storage.removeItem(key);
+  } catch {
+    // Storage that can't be written to has nothing to remove
+  }
+}
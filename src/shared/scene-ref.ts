@@ -0,0 +1,44 @@
+import type { UnicornStudioScene } from "./types";
+
+const sceneRefListeners = new WeakMap<
+  React.RefObject<UnicornStudioScene | null>,
+  Set<() => void>
+>();
+
+/**
+ * Subscribes to `useUnicornScene` assigning a scene to an object ref, or
+ * clearing it.
+ *
+ * @remarks
+ * Writing `ref.current` doesn't re-render anything, so hooks reading a scene
+ * from a ref subscribe here to follow scenes being created, re-created, and
+ * destroyed.
+ *
+ * @param ref - The ref passed as `sceneRef`
+ * @param listener - Called after `ref.current` changes
+ * @returns A function that removes the listener
+ */
+export function subscribeSceneRef(
+  ref: React.RefObject<UnicornStudioScene | null>,
+  listener: () => void,
+): () => void {
+  let listeners = sceneRefListeners.get(ref);
+  if (!listeners) {
+    listeners = new Set();
+    sceneRefListeners.set(ref, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notifies the listeners of a ref that `ref.current` changed.
+ */
+export function notifySceneRef(
+  ref: React.RefObject<UnicornStudioScene | null>,
+): void {
+  sceneRefListeners.get(ref)?.forEach((listener) => listener());
+}
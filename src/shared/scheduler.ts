@@ -0,0 +1,178 @@
+/**
+ * Options for the scheduler shared by every mounted scene.
+ */
+export interface UnicornSceneSchedulerOptions {
+  /**
+   * Maximum number of scenes with a live WebGL context at once.
+   *
+   * @remarks
+   * Browsers cap live WebGL contexts (often at 8 to 16) and drop the oldest
+   * one when the cap is exceeded. Scenes beyond this budget are destroyed
+   * and shown as their placeholder until they are among the most relevant
+   * scenes again.
+   *
+   * @defaultValue Infinity
+   */
+  maxActiveScenes?: number;
+}
+
+interface ScheduledScene {
+  id: number;
+  priority: number;
+  visible: boolean;
+  /** Logical time the scene last entered or left view, or -1 if never */
+  lastVisibleAt: number;
+  active: boolean;
+  onActiveChange: (active: boolean) => void;
+}
+
+/**
+ * A scene's registration with the scheduler.
+ */
+export interface SceneRegistration {
+  /** Whether the scene may currently hold a WebGL context */
+  readonly active: boolean;
+  /** Updates the scene's priority */
+  setPriority: (priority: number) => void;
+  /** Records whether the scene's container is in view */
+  setVisible: (visible: boolean) => void;
+  /** Removes the scene, freeing its slot for another one */
+  unregister: () => void;
+}
+
+let maxActiveScenes = Infinity;
+let nextSceneId = 0;
+let visibilityClock = 0;
+const scenes = new Map<number, ScheduledScene>();
+const configListeners = new Set<() => void>();
+
+/**
+ * Orders scenes from most to least relevant: higher priority first, then
+ * visible scenes, then the most recently visible, then the earliest mounted,
+ * so newly mounted scenes don't take the slots of scenes already running.
+ */
+function compareScenes(a: ScheduledScene, b: ScheduledScene): number {
+  return (
+    b.priority - a.priority ||
+    Number(b.visible) - Number(a.visible) ||
+    b.lastVisibleAt - a.lastVisibleAt ||
+    a.id - b.id
+  );
+}
+
+/**
+ * Recomputes which scenes are active and notifies those that changed.
+ *
+ * @remarks
+ * Scenes are deactivated before others are activated, so a context is freed
+ * before a new one is created.
+ */
+function reschedule() {
+  const ranked = [...scenes.values()].sort(compareScenes);
+  const changed: ScheduledScene[] = [];
+
+  ranked.forEach((scene, index) => {
+    const active = index < maxActiveScenes;
+    if (scene.active !== active) {
+      scene.active = active;
+      changed.push(scene);
+    }
+  });
+
+  changed
+    .sort((a, b) => Number(a.active) - Number(b.active))
+    .forEach((scene) => scene.onActiveChange(scene.active));
+}
+
+/**
+ * Configures the scheduler shared by every mounted `UnicornScene`.
+ *
+ * @remarks
+ * Takes effect immediately: scenes over a lowered budget are destroyed, and
+ * suspended scenes are re-created when the budget is raised.
+ *
+ * @param options - The scheduler options
+ *
+ * @example
+ * ```ts
+ * import { configureSceneScheduler } from "unicornstudio-react";
+ *
+ * configureSceneScheduler({ maxActiveScenes: 6 });
+ * ```
+ */
+export function configureSceneScheduler({
+  maxActiveScenes: limit = Infinity,
+}: UnicornSceneSchedulerOptions): void {
+  if (!(limit >= 0)) {
+    throw new RangeError(
+      `Invalid maxActiveScenes: ${limit}. It must be zero or greater`,
+    );
+  }
+
+  maxActiveScenes = limit;
+  reschedule();
+  configListeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the current `maxActiveScenes` budget.
+ */
+export function getMaxActiveScenes(): number {
+  return maxActiveScenes;
+}
+
+/**
+ * Subscribes to scheduler configuration changes.
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeSceneScheduler(listener: () => void): () => void {
+  configListeners.add(listener);
+  return () => {
+    configListeners.delete(listener);
+  };
+}
+
+/**
+ * Registers a scene with the scheduler.
+ *
+ * @param priority - Higher priorities are kept active first
+ * @param onActiveChange - Called when the scene gains or loses its slot
+ */
+export function registerScene(
+  priority: number,
+  onActiveChange: (active: boolean) => void,
+): SceneRegistration {
+  const scene: ScheduledScene = {
+    id: nextSceneId++,
+    priority,
+    visible: false,
+    lastVisibleAt: -1,
+    active: false,
+    onActiveChange,
+  };
+
+  scenes.set(scene.id, scene);
+  reschedule();
+
+  return {
+    get active() {
+      return scene.active;
+    },
+    setPriority(nextPriority) {
+      if (scene.priority === nextPriority) return;
+      scene.priority = nextPriority;
+      reschedule();
+    },
+    setVisible(visible) {
+      if (scene.visible === visible) return;
+      scene.visible = visible;
+      scene.lastVisibleAt = visibilityClock++;
+      reschedule();
+    },
+    unregister() {
+      if (!scenes.delete(scene.id)) return;
+      reschedule();
+    },
+  };
+}
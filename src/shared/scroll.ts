@@ -0,0 +1,128 @@
+import { interpolateValue, resolveEasing } from "./animation";
+import type {
+  UnicornScrollKeyframe,
+  UnicornScrollOptions,
+  UnicornScrollVariables,
+  UnicornVariableEasing,
+  UnicornVariables,
+  UnicornVariableValue,
+} from "./types";
+
+/**
+ * Resolves the `scrollContainer` option to an element, or `null` for the
+ * window.
+ */
+export function resolveScrollContainer(
+  scrollContainer: UnicornScrollOptions["scrollContainer"],
+): HTMLElement | null {
+  if (!scrollContainer) return null;
+  return "current" in scrollContainer
+    ? scrollContainer.current
+    : scrollContainer;
+}
+
+/**
+ * Measures the scroll progress of `element`, unclamped.
+ *
+ * @param element - The scene container
+ * @param source - What the progress measures
+ * @param scrollContainer - The element that scrolls, or `null` for the window
+ */
+export function getScrollProgress(
+  element: HTMLElement,
+  source: NonNullable<UnicornScrollOptions["source"]>,
+  scrollContainer: HTMLElement | null,
+): number {
+  if (source === "page") {
+    const scrollTop = scrollContainer
+      ? scrollContainer.scrollTop
+      : window.scrollY;
+    const scrollRange = scrollContainer
+      ? scrollContainer.scrollHeight - scrollContainer.clientHeight
+      : document.documentElement.scrollHeight - window.innerHeight;
+
+    return scrollRange > 0 ? scrollTop / scrollRange : 0;
+  }
+
+  const viewport = scrollContainer
+    ? scrollContainer.getBoundingClientRect()
+    : { top: 0, height: window.innerHeight };
+  const rect = element.getBoundingClientRect();
+  const distance = viewport.height + rect.height;
+
+  return distance > 0
+    ? (viewport.top + viewport.height - rect.top) / distance
+    : 0;
+}
+
+/**
+ * Samples a keyframe timeline at `progress`.
+ *
+ * @remarks
+ * Values that can't be interpolated hold until the next keyframe is reached.
+ */
+function sampleKeyframes(
+  keyframes: UnicornScrollKeyframe[],
+  progress: number,
+  easing: (progress: number) => number,
+  clamp: boolean,
+): UnicornVariableValue | undefined {
+  const sorted = [...keyframes].sort(([a], [b]) => a - b);
+  if (sorted.length === 0) return undefined;
+  if (sorted.length === 1) return sorted[0][1];
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (clamp && progress <= first[0]) return first[1];
+  if (clamp && progress >= last[0]) return last[1];
+
+  // Outside the keyframes, the nearest segment is extrapolated
+  let index = sorted.findIndex(([offset]) => offset > progress);
+  if (index === -1) index = sorted.length - 1;
+  if (index === 0) index = 1;
+
+  const [fromOffset, from] = sorted[index - 1];
+  const [toOffset, to] = sorted[index];
+  const span = toOffset - fromOffset;
+  const segmentProgress = span > 0 ? (progress - fromOffset) / span : 1;
+  const eased =
+    segmentProgress >= 0 && segmentProgress <= 1
+      ? easing(segmentProgress)
+      : segmentProgress;
+
+  return (
+    interpolateValue(from, to, eased) ?? (segmentProgress >= 1 ? to : from)
+  );
+}
+
+/**
+ * Computes the values of scroll-driven variables at a scroll progress.
+ *
+ * @param scrollVariables - The variables' timelines
+ * @param progress - The scroll progress, unclamped
+ * @param options - The timelines' default easing and clamping
+ */
+export function sampleScrollVariables(
+  scrollVariables: UnicornScrollVariables,
+  progress: number,
+  {
+    easing = "linear",
+    clamp = true,
+  }: { easing?: UnicornVariableEasing; clamp?: boolean } = {},
+): UnicornVariables {
+  const values: UnicornVariables = {};
+
+  Object.entries(scrollVariables).forEach(([name, timeline]) => {
+    const track = Array.isArray(timeline) ? { keyframes: timeline } : timeline;
+    const value = sampleKeyframes(
+      track.keyframes,
+      progress,
+      resolveEasing(track.easing ?? easing),
+      clamp,
+    );
+
+    if (value !== undefined) values[name] = value;
+  });
+
+  return values;
+}
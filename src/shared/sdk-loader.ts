@@ -1,5 +1,6 @@
 import { BUNDLED_UNICORN_SDK } from "./sdk-bundle";
 import { UNICORN_STUDIO_MODEL_RENDERER_URL } from "./constants";
+import { UnicornSdkLoadError, type UnicornSceneErrorCode } from "./errors";
 
 export interface BundledUnicornStudioImportMap {
   imports: Record<string, string>;
@@ -12,8 +13,11 @@ const MISSING_BUNDLED_SDK_MESSAGE =
 const externalScriptPromises = new Map<string, Promise<void>>();
 let bundledScriptPromise: Promise<void> | null = null;
 
-function createLoadError(message: string = SCRIPT_ERROR_MESSAGE): Error {
-  return new Error(message);
+function createLoadError(
+  message: string = SCRIPT_ERROR_MESSAGE,
+  code: UnicornSceneErrorCode = "SDK_LOAD_FAILED",
+): UnicornSdkLoadError {
+  return new UnicornSdkLoadError(message, code);
 }
 
 function assertBrowserEnvironment() {
@@ -26,7 +30,10 @@ function assertBrowserEnvironment() {
 
 function assertSdkAvailable() {
   if (!window.UnicornStudio?.addScene) {
-    throw createLoadError("UnicornStudio global not found after script load");
+    throw createLoadError(
+      "UnicornStudio global not found after script load",
+      "SDK_GLOBAL_MISSING",
+    );
   }
 }
 
@@ -179,7 +186,7 @@ function loadBundledSdk(): Promise<void> {
   bundledScriptPromise = Promise.resolve()
     .then(() => {
       if (!BUNDLED_UNICORN_SDK.available) {
-        throw createLoadError(MISSING_BUNDLED_SDK_MESSAGE);
+        throw createLoadError(MISSING_BUNDLED_SDK_MESSAGE, "SDK_MISSING");
       }
 
       const coreScript = BUNDLED_UNICORN_SDK.scripts.find(
@@ -197,7 +204,7 @@ function loadBundledSdk(): Promise<void> {
         !threeBundleScript?.content.trim() ||
         !modelRendererScript?.content.trim()
       ) {
-        throw createLoadError(MISSING_BUNDLED_SDK_MESSAGE);
+        throw createLoadError(MISSING_BUNDLED_SDK_MESSAGE, "SDK_MISSING");
       }
 
       setupBundledExtensions(
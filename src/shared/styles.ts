@@ -19,6 +19,32 @@ export const unicornStyles = {
     height: "var(--unicorn-height)",
   },
 
+  /**
+   * Styles for the container of a `fixed` background scene.
+   *
+   * @remarks
+   * Covers the viewport and lets pointer events through to the page.
+   */
+  fixedContainer: {
+    position: "fixed" as const,
+    inset: 0,
+    width: "100%",
+    height: "100%",
+    pointerEvents: "none" as const,
+  },
+
+  /**
+   * Styles for the wrapper of the error fallback and children of a `fixed`
+   * background scene.
+   *
+   * @remarks
+   * Adds no box of its own, and makes its content interactive again.
+   */
+  fixedContent: {
+    display: "contents",
+    pointerEvents: "auto" as const,
+  },
+
   /**
    * Styles for the error message wrapper.
    */
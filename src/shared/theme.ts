@@ -0,0 +1,315 @@
+import type {
+  UnicornThemeBinding,
+  UnicornThemeBindings,
+  UnicornVariableDefinition,
+  UnicornVariableValue,
+  UnicornVariables,
+} from "./types";
+import { formatHexColor, oklabToRgb } from "./animation";
+
+/**
+ * Where a theme binding reads its value from.
+ */
+export type ThemeSource =
+  | { kind: "property"; name: string; fallback?: string }
+  | { kind: "media"; query: string };
+
+const HEX_COLOR_PATTERN =
+  /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const CSS_NUMBER_PATTERN =
+  /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)(%|[a-z]*)$/i;
+
+/**
+ * Parses a theme binding, or returns `null` if it isn't one.
+ */
+export function parseThemeSource(
+  binding: UnicornThemeBinding,
+): ThemeSource | null {
+  const trimmed = binding.trim();
+  if (trimmed === "prefers-color-scheme") {
+    return { kind: "media", query: "(prefers-color-scheme: dark)" };
+  }
+  if (trimmed.startsWith("(")) return { kind: "media", query: trimmed };
+
+  const property = /^var\(\s*(--[^\s,)]+)\s*(?:,\s*(.*))?\)$/.exec(trimmed);
+  if (!property) return null;
+
+  return property[2]
+    ? { kind: "property", name: property[1], fallback: property[2].trim() }
+    : { kind: "property", name: property[1] };
+}
+
+/**
+ * Reads a theme source: a custom property's computed value on `element`, or
+ * whether a media query matches.
+ *
+ * @returns The value, or `null` for a custom property that isn't set and
+ * has no fallback
+ */
+export function readThemeSource(
+  element: Element,
+  source: ThemeSource,
+): string | boolean | null {
+  if (source.kind === "media") {
+    return (
+      typeof window.matchMedia === "function" &&
+      window.matchMedia(source.query).matches
+    );
+  }
+
+  const value = getComputedStyle(element).getPropertyValue(source.name).trim();
+  return value || source.fallback || null;
+}
+
+/**
+ * Parses a CSS number, dropping its unit and reading percentages as
+ * fractions, or returns `null` if it isn't one.
+ */
+function parseCssNumber(text: string): number | null {
+  const match = CSS_NUMBER_PATTERN.exec(text.trim());
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  return match[2] === "%" ? value / 100 : value;
+}
+
+/**
+ * Parses the channels of a color function: its arguments split on commas,
+ * spaces, and the slash before alpha. `scales` maps percentages of each
+ * channel onto the number they stand for.
+ */
+function parseChannels(args: string, scales: number[]): number[] | null {
+  const parts = args.trim().split(/\s*[,/]\s*|\s+/);
+  if (parts.length < 3 || parts.length > 4) return null;
+
+  const channels = parts.map((part, index) => {
+    if (part === "none") return 0;
+    const match = CSS_NUMBER_PATTERN.exec(part);
+    if (!match) return NaN;
+
+    const value = Number(match[1]);
+    if (match[2] === "%") return (value / 100) * (scales[index] ?? 1);
+    // Hues may come with an angle unit
+    if (match[2] === "turn") return value * 360;
+    if (match[2] === "rad") return (value * 180) / Math.PI;
+    return value;
+  });
+
+  return channels.every(Number.isFinite) ? channels : null;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number) {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (offset: number) => {
+    const k = (offset + hue / 30) % 12;
+    return lightness - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Resolves a named color, such as `rebeccapurple`, through the browser.
+ */
+function resolveNamedColor(name: string): string | null {
+  if (!/^[a-z]+$/i.test(name) || typeof document === "undefined") {
+    return null;
+  }
+
+  const probe = document.createElement("div");
+  probe.style.color = name;
+  if (!probe.style.color) return null;
+
+  document.documentElement.appendChild(probe);
+  const color = getComputedStyle(probe).color;
+  probe.remove();
+
+  return color.startsWith("rgb") ? color : null;
+}
+
+/**
+ * Converts a CSS color to a hex color, or returns `null` if it isn't one.
+ *
+ * @remarks
+ * Understands hex colors, `rgb()`, `hsl()`, `oklab()`, `oklch()`, and named
+ * colors. Alpha is kept only when the color is translucent.
+ */
+export function parseCssColor(text: string): string | null {
+  const color = text.trim().toLowerCase();
+  if (HEX_COLOR_PATTERN.test(color)) {
+    const digits = color.slice(1);
+    if (digits.length > 4) return color;
+    // Expand the short forms, which the SDK doesn't document
+    return `#${digits.replace(/./g, (digit) => digit + digit)}`;
+  }
+
+  const match = /^([a-z]+)\((.*)\)$/.exec(color);
+  if (!match) {
+    const named = resolveNamedColor(color);
+    return named ? parseCssColor(named) : null;
+  }
+
+  const [, name, args] = match;
+  let rgb: number[];
+  let alpha = 1;
+  switch (name) {
+    case "rgb":
+    case "rgba": {
+      const channels = parseChannels(args, [255, 255, 255, 1]);
+      if (!channels) return null;
+      rgb = channels.slice(0, 3).map((channel) => channel / 255);
+      alpha = channels[3] ?? 1;
+      break;
+    }
+    case "hsl":
+    case "hsla": {
+      const channels = parseChannels(args, [1, 100, 100, 1]);
+      if (!channels) return null;
+      const [hue, saturation, lightness] = channels;
+      rgb = hslToRgb(
+        ((hue % 360) + 360) % 360,
+        saturation / 100,
+        lightness / 100,
+      );
+      alpha = channels[3] ?? 1;
+      break;
+    }
+    case "oklab": {
+      const channels = parseChannels(args, [1, 0.4, 0.4, 1]);
+      if (!channels) return null;
+      rgb = oklabToRgb([channels[0], channels[1], channels[2]]);
+      alpha = channels[3] ?? 1;
+      break;
+    }
+    case "oklch": {
+      const channels = parseChannels(args, [1, 0.4, 1, 1]);
+      if (!channels) return null;
+      const [lightness, chroma, hue] = channels;
+      const radians = (hue * Math.PI) / 180;
+      rgb = oklabToRgb([
+        lightness,
+        chroma * Math.cos(radians),
+        chroma * Math.sin(radians),
+      ]);
+      alpha = channels[3] ?? 1;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const [r, g, b] = rgb;
+  return formatHexColor([r, g, b, alpha], alpha < 1);
+}
+
+/**
+ * Parses a vector from numbers separated by commas or spaces.
+ */
+function parseCssVector(
+  text: string,
+  size?: 2 | 3,
+): UnicornVariableValue | null {
+  const parts = text.trim().split(/\s*,\s*|\s+/);
+  if (size ? parts.length !== size : parts.length < 2 || parts.length > 3) {
+    return null;
+  }
+
+  const components = parts.map(parseCssNumber);
+  if (components.some((component) => component === null)) return null;
+
+  const [x, y, z] = components as number[];
+  return parts.length === 3
+    ? { type: "Vec3", x, y, z }
+    : { type: "Vec2", x, y };
+}
+
+/**
+ * Unwraps a quoted string or `url()`.
+ */
+function parseCssString(text: string): string {
+  const value = text.trim();
+  const url = /^url\(\s*(.*?)\s*\)$/i.exec(value);
+  const inner = url ? url[1] : value;
+
+  return /^(["']).*\1$/.test(inner) ? inner.slice(1, -1) : inner;
+}
+
+/**
+ * Converts a value read from a theme source into a variable value.
+ *
+ * @remarks
+ * With the variable's definition `type`, the value is converted to that
+ * type. Otherwise the type is inferred: `true`/`false`, numbers, vectors,
+ * colors, then strings.
+ *
+ * @returns The value, or `null` if it can't be converted to `type`
+ */
+export function normalizeThemeValue(
+  value: string | boolean,
+  type?: string,
+): UnicornVariableValue | null {
+  if (typeof value === "boolean") {
+    if (type === "number") return value ? 1 : 0;
+    return type === undefined || type === "boolean" ? value : null;
+  }
+
+  switch (type) {
+    case "color":
+      return parseCssColor(value);
+    case "number":
+      return parseCssNumber(value);
+    case "boolean": {
+      const keyword = value.trim().toLowerCase();
+      if (keyword === "true" || keyword === "1") return true;
+      if (keyword === "false" || keyword === "0") return false;
+      return null;
+    }
+    case "vec2":
+      return parseCssVector(value, 2);
+    case "vec3":
+      return parseCssVector(value, 3);
+    case "string":
+    case "texture":
+      return parseCssString(value);
+  }
+
+  const keyword = value.trim().toLowerCase();
+  if (keyword === "true" || keyword === "false") return keyword === "true";
+
+  return (
+    parseCssNumber(value) ??
+    parseCssVector(value) ??
+    parseCssColor(value) ??
+    parseCssString(value)
+  );
+}
+
+/**
+ * Reads the values of `bindings` on `element`, converted to the types of
+ * the variables' `definitions` where known.
+ *
+ * @remarks
+ * Bindings that can't be parsed, custom properties that aren't set, and
+ * values that can't be converted are left out.
+ */
+export function readThemeBindings(
+  element: Element,
+  bindings: UnicornThemeBindings,
+  definitions?: UnicornVariableDefinition[],
+): UnicornVariables {
+  const values: UnicornVariables = {};
+
+  Object.entries(bindings).forEach(([name, binding]) => {
+    const source = parseThemeSource(binding);
+    const raw = source ? readThemeSource(element, source) : null;
+    if (raw === null) return;
+
+    const type = definitions?.find(
+      (definition) => definition.name === name,
+    )?.type;
+    const value = normalizeThemeValue(raw, type);
+    if (value !== null) values[name] = value;
+  });
+
+  return values;
+}
@@ -1,3 +1,5 @@
+import type { UnicornSceneError, UnicornSceneErrorCode } from "./errors";
+
 /**
  * Valid frames per second values supported by Unicorn Studio.
  *
@@ -34,105 +36,914 @@ export interface UnicornVec3 {
 }
 
 /**
- * Value accepted by a Unicorn Studio scene variable.
- *
- * @remarks
- * Colors are hex strings (e.g. `#7c3aed`), textures are URL strings, and
- * vector variables use {@link UnicornVec2} / {@link UnicornVec3} objects.
+ * Value accepted by a Unicorn Studio scene variable.
+ *
+ * @remarks
+ * Colors are hex strings (e.g. `#7c3aed`), textures are URL strings, and
+ * vector variables use {@link UnicornVec2} / {@link UnicornVec3} objects.
+ */
+export type UnicornVariableValue =
+  number | boolean | string | UnicornVec2 | UnicornVec3;
+
+/**
+ * A map of variable names to values, as accepted by `setVariables()` and
+ * the `variables` prop.
+ */
+export type UnicornVariables = Record<string, UnicornVariableValue>;
+
+/**
+ * Describes the variables, presets, and layers of a scene, so the `variables`
+ * and `preset` props and the scene instance's methods can be type-checked.
+ *
+ * @remarks
+ * Generate one from a scene JSON with the `unicornstudio-types` command or
+ * `generateSceneTypes()` from `unicornstudio-react/codegen`. The default
+ * schema accepts any names and values.
+ *
+ * @example
+ * ```tsx
+ * import type { HeroScene } from "./hero-scene.generated";
+ *
+ * <UnicornScene<HeroScene>
+ *   jsonFilePath="/scenes/hero.json"
+ *   variables={{ brandColor: "#7c3aed" }}
+ *   preset="Night"
+ * />
+ * ```
+ */
+export interface UnicornSceneSchema {
+  /** Variable names mapped to the type of their values */
+  variables: UnicornVariables;
+  /** Union of preset names */
+  presets: string;
+  /** Union of layer names */
+  layers: string;
+}
+
+/**
+ * A variable definition authored and published with the scene.
+ */
+export interface UnicornVariableDefinition {
+  id: string;
+  name: string;
+  type: string;
+  defaultValue?: UnicornVariableValue;
+  description?: string;
+  validation?: {
+    min?: number;
+    max?: number;
+    step?: number;
+  };
+}
+
+/**
+ * A binding connecting a variable to a layer target.
+ */
+export interface UnicornVariableBinding {
+  layerId: string;
+  kind: "prop" | "source" | "texture";
+  target: string;
+  enabled: boolean;
+}
+
+/**
+ * A variable definition enriched with its current value and binding metadata,
+ * as returned by `scene.getVariableManifest()`.
+ */
+export interface UnicornVariableManifestEntry extends UnicornVariableDefinition {
+  currentValue?: UnicornVariableValue;
+  bindingCount: number;
+  bindings: UnicornVariableBinding[];
+}
+
+/**
+ * An authored group of variable values published with the scene.
+ */
+export interface UnicornPreset {
+  id: string;
+  name: string;
+  values?: UnicornVariables;
+}
+
+/**
+ * Lightweight layer descriptor returned by `scene.getLayers()`.
+ */
+export interface UnicornLayerDescriptor {
+  id: string;
+  publicId?: string;
+  name?: string;
+  type?: string;
+}
+
+/**
+ * Runtime layer object returned by `scene.getLayer()`.
+ */
+export interface UnicornLayer {
+  hide: () => UnicornLayer;
+  show: () => UnicornLayer;
+}
+
+/**
+ * Callback invoked when a scene variable changes.
+ *
+ * @param name - The changed variable name
+ * @param value - The value passed to `setVariable()`
+ * @param values - Current variable values after the change
+ */
+export type UnicornVariableChangeCallback = (
+  name: string,
+  value: UnicornVariableValue,
+  values: UnicornVariables,
+) => void;
+
+/**
+ * Easing of a variable animation: a named curve, or a function mapping
+ * linear progress from 0 to 1 to eased progress.
+ */
+export type UnicornVariableEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | ((progress: number) => number);
+
+/**
+ * Options for animating variables to new values.
+ */
+export interface UnicornVariableTransitionOptions {
+  /**
+   * Animation duration in milliseconds. `0` applies the values immediately.
+   *
+   * @defaultValue 300
+   */
+  duration?: number;
+
+  /**
+   * Easing curve of the animation.
+   *
+   * @defaultValue "ease-in-out"
+   */
+  easing?: UnicornVariableEasing;
+}
+
+/**
+ * A point on a scroll timeline: the scroll progress from 0 to 1, and the
+ * variable's value at that progress.
+ */
+export type UnicornScrollKeyframe = [
+  progress: number,
+  value: UnicornVariableValue,
+];
+
+/**
+ * A variable's scroll timeline with its own easing.
+ */
+export interface UnicornScrollTrack {
+  /** The keyframes, in any order */
+  keyframes: UnicornScrollKeyframe[];
+  /** Easing between keyframes, overriding the timeline's `easing` */
+  easing?: UnicornVariableEasing;
+}
+
+/**
+ * Variable names mapped to their scroll timelines.
+ */
+export type UnicornScrollVariables = Record<
+  string,
+  UnicornScrollKeyframe[] | UnicornScrollTrack
+>;
+
+/**
+ * Options for `scrollVariables`.
+ */
+export interface UnicornScrollOptions {
+  /**
+   * What the scroll progress measures.
+   *
+   * @remarks
+   * - `container`: the scene container passing through the viewport, from
+   *   `0` when its top enters at the bottom to `1` when its bottom leaves at
+   *   the top
+   * - `page`: the scroll position of the scroll container, from `0` at the
+   *   top to `1` at the bottom
+   *
+   * @defaultValue "container"
+   */
+  source?: "container" | "page";
+
+  /**
+   * The element that scrolls, for scenes inside a scrollable element instead
+   * of the page.
+   *
+   * @defaultValue the window
+   */
+  scrollContainer?: React.RefObject<HTMLElement | null> | HTMLElement | null;
+
+  /**
+   * Easing between keyframes.
+   *
+   * @defaultValue "linear"
+   */
+  easing?: UnicornVariableEasing;
+
+  /**
+   * Holds values at the first and last keyframes. When `false`, numbers,
+   * colors, and vectors are extrapolated beyond them.
+   *
+   * @defaultValue true
+   */
+  clamp?: boolean;
+}
+
+/**
+ * How `variables` are checked against the scene's variable definitions.
+ *
+ * @remarks
+ * - `warn`: values are applied unchanged and violations are reported
+ * - `clamp`: numbers are clamped to `min`/`max` and snapped to `step`; values
+ *   of the wrong type or for unknown variables are dropped
+ * - `strict`: every value with a violation is dropped
+ */
+export type UnicornVariableValidationMode = "warn" | "clamp" | "strict";
+
+/**
+ * Why a variable value failed validation.
+ *
+ * @remarks
+ * - `unknown`: the scene has no variable with this name
+ * - `type`: the value doesn't match the variable's type, e.g. a color that
+ *   isn't a hex string
+ * - `range`: the number is below `min` or above `max`
+ * - `step`: the number isn't a multiple of `step` from `min`
+ */
+export type UnicornVariableViolationReason =
+  "unknown" | "type" | "range" | "step";
+
+/**
+ * A variable value that failed validation against its definition.
+ */
+export interface UnicornVariableViolation {
+  /** The variable name */
+  name: string;
+  /** The value that was passed */
+  value: UnicornVariableValue;
+  /** Why the value failed validation */
+  reason: UnicornVariableViolationReason;
+  /** A readable description of the violation */
+  message: string;
+  /** The variable's definition, unless the variable is unknown */
+  definition?: UnicornVariableDefinition;
+  /** The value applied instead, or `undefined` if the value was dropped */
+  appliedValue?: UnicornVariableValue;
+}
+
+/**
+ * Audio analysed by `useUnicornAudio`: a media element, a ref to one, or a
+ * stream such as microphone input.
+ */
+export type UnicornAudioSource =
+  HTMLMediaElement | React.RefObject<HTMLMediaElement | null> | MediaStream;
+
+/**
+ * A measurement of the audio, from 0 to 1.
+ *
+ * @remarks
+ * - `rms`: the RMS level of the waveform
+ * - `bass`, `mid`, `treble`: the average level of the 20–250 Hz, 250–4000 Hz,
+ *   and 4000–16000 Hz frequency bands
+ * - `[minHz, maxHz]`: the average level of a custom frequency band
+ * - `beat`: `1` on a detected beat, decaying to `0` over 250ms
+ */
+export type UnicornAudioFeature =
+  "rms" | "bass" | "mid" | "treble" | "beat" | [minHz: number, maxHz: number];
+
+/**
+ * How an audio feature drives a variable.
+ */
+export interface UnicornAudioMapping {
+  /** The measurement driving the variable */
+  feature: UnicornAudioFeature;
+
+  /**
+   * The variable's values at silence and at full level. Numbers, hex colors,
+   * and Vec2/Vec3 values are interpolated in between; other values switch
+   * halfway.
+   *
+   * @defaultValue [0, 1]
+   */
+  range?: [silent: UnicornVariableValue, full: UnicornVariableValue];
+
+  /**
+   * How much of the previous level is kept on each update, from `0` (none)
+   * to below `1`. Overrides the hook's `smoothing`.
+   */
+  smoothing?: number;
+}
+
+/**
+ * Variable names mapped to the audio features driving them.
+ */
+export type UnicornAudioMappings<
+  TScene extends UnicornSceneSchema = UnicornSceneSchema,
+> = {
+  [TName in keyof TScene["variables"] & string]?:
+    UnicornAudioFeature | UnicornAudioMapping;
+};
+
+/**
+ * Options for `useUnicornAudio`.
+ */
+export interface UnicornAudioOptions {
+  /**
+   * The context to analyse the audio in. By default, one context is shared
+   * by every `useUnicornAudio` call.
+   */
+  audioContext?: AudioContext;
+
+  /**
+   * The analyser's FFT size, a power of two from 32 to 32768. Larger sizes
+   * resolve frequencies more finely, but react more slowly.
+   *
+   * @defaultValue 1024
+   */
+  fftSize?: number;
+
+  /**
+   * Milliseconds between `setVariables()` calls.
+   *
+   * @defaultValue 33
+   */
+  updateInterval?: number;
+
+  /**
+   * How much of the previous level is kept on each update, from `0` (none)
+   * to below `1`. Doesn't apply to `beat`.
+   *
+   * @defaultValue 0.6
+   */
+  smoothing?: number;
+
+  /**
+   * Callback fired with the mapping ranges that failed validation against the
+   * scene's variable definitions. Without it, violations are logged with
+   * `console.warn`.
+   */
+  onVariableViolation?: (violations: UnicornVariableViolation[]) => void;
+
+  /**
+   * Callback fired when the source can't be analysed, such as a media
+   * element already routed through another audio context.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Lifecycle status of a Unicorn Studio scene.
+ *
+ * @remarks
+ * - `idle`: nothing has been started yet
+ * - `loading-sdk`: waiting for the Unicorn Studio SDK script
+ * - `initializing`: `addScene()` is in flight
+ * - `ready`: the scene is initialized and rendering
+ * - `error`: the SDK or the scene failed to load
+ * - `destroyed`: the scene was torn down (unmount or re-initialization)
+ */
+export type UnicornSceneStatus =
+  "idle" | "loading-sdk" | "initializing" | "ready" | "error" | "destroyed";
+
+/**
+ * State passed to a `children` render function of the UnicornScene component.
+ */
+export interface UnicornSceneRenderState {
+  /**
+   * Current lifecycle status of the scene.
+   */
+  status: UnicornSceneStatus;
+
+  /**
+   * The SDK or scene error, if any.
+   */
+  error: UnicornSceneError | null;
+
+  /**
+   * Re-attempts loading after a failure.
+   */
+  retry: () => void;
+}
+
+/**
+ * Per-phase initialization timeouts, in milliseconds.
+ */
+export interface UnicornInitTimeouts {
+  /**
+   * Timeout for loading the Unicorn Studio SDK script.
+   *
+   * @remarks
+   * No timeout is applied when omitted.
+   */
+  sdkLoad?: number;
+
+  /**
+   * Timeout for `addScene()` to resolve.
+   *
+   * @defaultValue 15000
+   */
+  addScene?: number;
+}
+
+/**
+ * Options for the `useUnicornStudioScript` hook.
+ */
+export interface UseUnicornStudioScriptOptions {
+  /**
+   * Timeout in milliseconds for the SDK to load.
+   *
+   * @remarks
+   * No timeout is applied when omitted.
+   */
+  timeout?: number;
+
+  /**
+   * Signal that stops waiting for the SDK when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Backoff strategy used between automatic retry attempts.
+ */
+export type UnicornRetryBackoff = "exponential" | "linear" | "fixed";
+
+/**
+ * Automatic retry policy for failed scene initialization.
+ */
+export interface UnicornRetryOptions {
+  /**
+   * Maximum number of retries after the first failed attempt.
+   *
+   * @defaultValue 3
+   */
+  attempts?: number;
+
+  /**
+   * How the delay grows between retries.
+   *
+   * @defaultValue "exponential"
+   */
+  backoff?: UnicornRetryBackoff;
+
+  /**
+   * Base delay in milliseconds before the first retry.
+   *
+   * @defaultValue 1000
+   */
+  delay?: number;
+
+  /**
+   * Upper bound in milliseconds for the delay between retries.
+   *
+   * @defaultValue 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Error codes to retry, or a predicate deciding per failure.
+   *
+   * @defaultValue ["TIMEOUT", "NETWORK"]
+   */
+  retryOn?:
+    | UnicornSceneErrorCode[]
+    | ((error: UnicornSceneError, attempt: number) => boolean);
+}
+
+/**
+ * How a ready scene is replaced when the scene is re-initialized.
+ *
+ * @remarks
+ * - `cut`: swap to the new scene in a single frame once it is ready
+ * - `crossfade`: fade the new scene in over the old one
+ */
+export type UnicornSceneTransitionType = "cut" | "crossfade";
+
+/**
+ * Options for swapping a ready scene for a new one.
+ */
+export interface UnicornSceneTransitionOptions {
+  /**
+   * How the new scene replaces the old one.
+   */
+  type: UnicornSceneTransitionType;
+
+  /**
+   * Crossfade duration in milliseconds. Ignored for `cut`.
+   *
+   * @defaultValue 300
+   */
+  duration?: number;
+
+  /**
+   * CSS timing function for the crossfade.
+   *
+   * @defaultValue "ease"
+   */
+  easing?: string;
+}
+
+/**
+ * A combination of rendering settings the adaptive quality governor can
+ * switch between.
+ */
+export interface UnicornQualityTier {
+  /** Rendering scale (0.25 to 1.0) */
+  scale: ScaleRange;
+  /** Device pixel ratio */
+  dpi: number;
+  /** Target frames per second */
+  fps: ValidFPS;
+}
+
+/**
+ * Options for tuning rendering quality from measured frame rates.
+ */
+export interface UnicornAdaptiveQualityOptions {
+  /**
+   * Quality tiers ordered from highest to lowest.
+   *
+   * @remarks
+   * Defaults to the `scale`, `dpi`, and `fps` props as the top tier,
+   * followed by the built-in lower tiers.
+   */
+  tiers?: UnicornQualityTier[];
+
+  /**
+   * Length in milliseconds of each frame rate sample.
+   *
+   * @defaultValue 2000
+   */
+  sampleDuration?: number;
+
+  /**
+   * Step down when the measured frame rate falls below this fraction of the
+   * current tier's `fps`.
+   *
+   * @defaultValue 0.85
+   */
+  downgradeRatio?: number;
+
+  /**
+   * Step up when the measured frame rate reaches this fraction of the next
+   * higher tier's `fps`.
+   *
+   * @defaultValue 0.95
+   */
+  upgradeRatio?: number;
+
+  /**
+   * Minimum time in milliseconds between two tier changes.
+   *
+   * @defaultValue 10000
+   */
+  cooldown?: number;
+}
+
+/**
+ * Details of a quality tier change reported by `onQualityChange`.
+ */
+export interface UnicornQualityChange {
+  /** The tier now in use */
+  tier: UnicornQualityTier;
+  /** Index of the tier now in use */
+  tierIndex: number;
+  /** Index of the tier that was in use before */
+  previousTierIndex: number;
+  /** Frame rate measured in the sample that triggered the change */
+  measuredFps: number;
+}
+
+/**
+ * How a scene responds when the user prefers reduced motion.
+ *
+ * @remarks
+ * - `pause`: pause the scene
+ * - `placeholder`: show the placeholder instead of creating the scene
+ * - `reduced-fps`: keep animating at 15 frames per second
+ * - `ignore`: animate as usual
+ */
+export type UnicornReducedMotionPolicy =
+  "pause" | "placeholder" | "reduced-fps" | "ignore";
+
+/**
+ * Options for pausing a scene while it cannot be seen.
+ */
+export interface UnicornPauseWhenOffscreenOptions {
+  /**
+   * Fraction of the container that must be in view for the scene to run.
+   *
+   * @defaultValue 0
+   */
+  threshold?: number;
+
+  /**
+   * Margin around the viewport, in CSS `margin` syntax, used when checking
+   * whether the container is in view.
+   *
+   * @defaultValue "0px"
+   */
+  rootMargin?: string;
+
+  /**
+   * Also pause while the container is covered by other content or visually
+   * obscured, where the browser supports IntersectionObserver v2.
+   *
+   * @defaultValue false
+   */
+  trackVisibility?: boolean;
+}
+
+/**
+ * Details of a WebGL context loss reported by `onContextLost`.
+ */
+export interface UnicornContextLossEvent {
+  /** Number of context losses since the scene was configured, from 1 */
+  attempt: number;
+  /** Whether the scene will be re-created, or has hit the recovery cap */
+  willRecover: boolean;
+}
+
+/**
+ * How a scene responds to the cursor and touch input.
+ */
+export interface UnicornInteractivityOptions {
+  /**
+   * Mouse interaction settings. On touch devices, touches drive the same
+   * mouse-driven states.
+   */
+  mouse?: {
+    /**
+     * Ignore the cursor, so hover and mouse-move states never trigger.
+     *
+     * @defaultValue false
+     */
+    disabled?: boolean;
+
+    /**
+     * Ignore touch input on mobile devices, keeping mouse interactions on
+     * desktop.
+     *
+     * @defaultValue false
+     */
+    disableMobile?: boolean;
+  };
+}
+
+/**
+ * A device orientation from `deviceorientation` events, in degrees.
+ */
+export interface UnicornDeviceOrientation {
+  /** Front-to-back tilt, from -180 to 180 */
+  beta: number;
+  /** Left-to-right tilt, from -90 to 90 */
+  gamma: number;
+}
+
+/**
+ * Options for `gyroscope`.
+ */
+export interface UnicornGyroscopeOptions {
+  /**
+   * Moves a virtual pointer over the scene, so mouse-tracking effects such
+   * as `trackMouse` and `axisTilt` follow the tilt.
+   *
+   * @defaultValue true
+   */
+  pointer?: boolean;
+
+  /**
+   * Vec2 variables set to the tilt, from `-1` to `1` on each axis with
+   * `{ x: 0, y: 0 }` at the neutral orientation. `y` grows as the top of the
+   * device tilts towards the user.
+   */
+  variables?: string[];
+
+  /**
+   * The orientation treated as neutral. With `auto`, it's the orientation
+   * the device is held at when tilting starts, and again after the screen
+   * rotates.
+   *
+   * @defaultValue "auto"
+   */
+  calibration?: "auto" | UnicornDeviceOrientation;
+
+  /**
+   * Degrees of tilt from the neutral orientation that reach the edge of the
+   * scene. Larger tilts are clamped.
+   *
+   * @defaultValue 30
+   */
+  range?: number;
+
+  /**
+   * How much of the previous tilt is kept on each reading, from `0` (none)
+   * to below `1`. Higher values move more smoothly, but lag behind.
+   *
+   * @defaultValue 0.8
+   */
+  smoothing?: number;
+}
+
+/**
+ * Options for `syncToUrl`.
+ */
+export interface UnicornUrlSyncOptions {
+  /**
+   * Query parameter holding the preset. Variables are kept as
+   * `<param>.<name>`, so scenes on the same page need different parameters.
+   *
+   * @defaultValue "scene"
+   */
+  param?: string;
+
+  /**
+   * How changes are written to the browser history. With `push`, going back
+   * and forward restores the scene's earlier states.
+   *
+   * @defaultValue "replace"
+   */
+  history?: "replace" | "push";
+
+  /**
+   * The variables kept in the URL, or all when omitted.
+   */
+  variables?: string[];
+
+  /**
+   * Delay in milliseconds after the last change before the URL is written,
+   * so dragging a control doesn't flood the history.
+   *
+   * @defaultValue 250
+   */
+  debounce?: number;
+}
+
+/**
+ * Storage for `persist`. `localStorage` and `sessionStorage` qualify, and
+ * any adapter with the same synchronous methods does too.
  */
-export type UnicornVariableValue =
-  | number
-  | boolean
-  | string
-  | UnicornVec2
-  | UnicornVec3;
+export interface UnicornPersistStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
 
 /**
- * A map of variable names to values, as accepted by `setVariables()` and
- * the `variables` prop.
+ * Options for `persist`.
  */
-export type UnicornVariables = Record<string, UnicornVariableValue>;
+export interface UnicornPersistOptions {
+  /**
+   * Storage key of the saved values. Scenes need different keys.
+   */
+  key: string;
 
-/**
- * A variable definition authored and published with the scene.
- */
-export interface UnicornVariableDefinition {
-  id: string;
-  name: string;
-  type: string;
-  defaultValue?: UnicornVariableValue;
-  description?: string;
-  validation?: {
-    min?: number;
-    max?: number;
-    step?: number;
-  };
+  /**
+   * Where the values are saved: `localStorage`, `sessionStorage`, or a
+   * custom adapter.
+   *
+   * @defaultValue "local"
+   */
+  storage?: "local" | "session" | UnicornPersistStorage;
+
+  /**
+   * The variables saved, or all when omitted.
+   */
+  variables?: string[];
+
+  /**
+   * Delay in milliseconds after the last change before the values are
+   * saved. Pending values are saved right away when the scene unmounts or
+   * the page unloads.
+   *
+   * @defaultValue 250
+   */
+  debounce?: number;
 }
 
 /**
- * A binding connecting a variable to a layer target.
+ * Where a bound variable's value comes from: a CSS custom property, with an
+ * optional fallback, read on the scene container (`var(--brand-500)`),
+ * `prefers-color-scheme` for whether the user prefers a dark theme, or any
+ * media query in parentheses (`(prefers-contrast: more)`).
  */
-export interface UnicornVariableBinding {
-  layerId: string;
-  kind: "prop" | "source" | "texture";
-  target: string;
-  enabled: boolean;
-}
+export type UnicornThemeBinding =
+  `var(--${string})` | "prefers-color-scheme" | `(${string})`;
 
 /**
- * A variable definition enriched with its current value and binding metadata,
- * as returned by `scene.getVariableManifest()`.
+ * Variable names mapped to the theme values they follow.
  */
-export interface UnicornVariableManifestEntry extends UnicornVariableDefinition {
-  currentValue?: UnicornVariableValue;
-  bindingCount: number;
-  bindings: UnicornVariableBinding[];
-}
+export type UnicornThemeBindings = Record<string, UnicornThemeBinding>;
 
 /**
- * An authored group of variable values published with the scene.
+ * Options for the Unicorn Studio controls panel.
  */
-export interface UnicornPreset {
-  id: string;
-  name: string;
-  values?: UnicornVariables;
+export interface UnicornControlsOptions {
+  /**
+   * Title shown on the panel.
+   *
+   * @defaultValue The scene name
+   */
+  title?: string;
+
+  /**
+   * Whether the panel can be dragged around the page.
+   *
+   * @defaultValue true
+   */
+  draggable?: boolean;
+
+  /**
+   * URL of the controls script, to self-host it.
+   *
+   * @defaultValue The Unicorn Studio CDN
+   */
+  src?: string;
+
+  /**
+   * Also show the panel in production builds, where it is otherwise left
+   * out, for example on a staging deployment.
+   *
+   * @defaultValue false
+   */
+  force?: boolean;
 }
 
 /**
- * Lightweight layer descriptor returned by `scene.getLayers()`.
+ * Options for rendering a scene as a fixed, full-viewport background.
  */
-export interface UnicornLayerDescriptor {
-  id: string;
-  publicId?: string;
-  name?: string;
-  type?: string;
+export interface UnicornFixedSceneOptions {
+  /**
+   * Stack order of the background. The default keeps it behind the page
+   * content and above the page's own background.
+   *
+   * @defaultValue -1
+   */
+  zIndex?: number;
 }
 
 /**
- * Runtime layer object returned by `scene.getLayer()`.
+ * WebGL features detected on the current device by `getWebGLCapabilities()`.
  */
-export interface UnicornLayer {
-  hide: () => UnicornLayer;
-  show: () => UnicornLayer;
+export interface UnicornWebGLCapabilities {
+  /** Whether a WebGL context could be created at all */
+  supported: boolean;
+  /** Whether the context is WebGL2 */
+  webgl2: boolean;
+  /** Largest supported texture width and height in pixels, or 0 without WebGL */
+  maxTextureSize: number;
+  /** Whether 32-bit float textures can be rendered to */
+  floatRenderTarget: boolean;
+  /** Whether 16-bit float textures can be rendered to */
+  halfFloatRenderTarget: boolean;
+  /** The GPU renderer string, unmasked where the browser allows it */
+  renderer: string | null;
+  /**
+   * Whether a context is only available with a major performance caveat,
+   * such as software rendering
+   */
+  majorPerformanceCaveat: boolean;
 }
 
 /**
- * Callback invoked when a scene variable changes.
- *
- * @param name - The changed variable name
- * @param value - The value passed to `setVariable()`
- * @param values - Current variable values after the change
+ * Minimum WebGL features a device needs to render the scene.
  */
-export type UnicornVariableChangeCallback = (
-  name: string,
-  value: UnicornVariableValue,
-  values: UnicornVariables,
-) => void;
+export interface UnicornMinWebGLCapabilities {
+  /** Require WebGL2 */
+  webgl2?: boolean;
+  /** Minimum texture width and height in pixels */
+  maxTextureSize?: number;
+  /** Require rendering to 32-bit float textures */
+  floatRenderTarget?: boolean;
+  /** Require rendering to 16-bit float textures */
+  halfFloatRenderTarget?: boolean;
+  /**
+   * Reject devices that only offer a context with a major performance
+   * caveat, such as software rendering. Mirrors the WebGL context attribute
+   * of the same name.
+   */
+  failIfMajorPerformanceCaveat?: boolean;
+  /**
+   * Renderers to treat as unsupported. Strings match case-insensitively
+   * anywhere in the renderer string.
+   */
+  blockedRenderers?: readonly (string | RegExp)[];
+}
 
 /**
  * Props for the UnicornScene component.
+ *
+ * @typeParam TScene - The scene's generated {@link UnicornSceneSchema}
  */
-export interface UnicornSceneProps {
+export interface UnicornSceneProps<
+  TScene extends UnicornSceneSchema = UnicornSceneSchema,
+> {
   /**
    * The Unicorn Studio project ID to load.
    *
@@ -222,6 +1033,66 @@ export interface UnicornSceneProps {
    */
   className?: string;
 
+  /**
+   * Renders the scene as a fixed, full-viewport background, portaled to
+   * `document.body`. Pass an object to set its `zIndex`.
+   *
+   * @remarks
+   * `width` and `height` are ignored, and the background lets pointer events
+   * through to the page; children that should be interactive need
+   * `pointer-events: auto`. Scroll-dependent states follow the page scroll.
+   * The background is rendered after hydration, since portals cannot be
+   * server rendered.
+   *
+   * @defaultValue false
+   */
+  fixed?: boolean | UnicornFixedSceneOptions;
+
+  /**
+   * How the scene responds to the cursor and touch input. Changing it
+   * re-initializes the scene.
+   *
+   * @example
+   * ```tsx
+   * // A decorative scene behind a form that ignores the cursor
+   * <UnicornScene projectId="..." interactivity={{ mouse: { disabled: true } }} />
+   * ```
+   */
+  interactivity?: UnicornInteractivityOptions;
+
+  /**
+   * Drives the scene from the device's tilt on phones and tablets, where
+   * there is no cursor to hover with. Pass `true` to move a virtual pointer
+   * with the defaults.
+   *
+   * @remarks
+   * Only applies on devices whose primary input can't hover. On iOS, motion
+   * access is requested on the first tap on the page. Without a sensor, or
+   * without permission, the scene behaves as if it weren't set.
+   *
+   * @defaultValue false
+   *
+   * @example
+   * ```tsx
+   * <UnicornScene
+   *   projectId="..."
+   *   gyroscope={{ variables: ["tilt"], range: 20, smoothing: 0.9 }}
+   * />
+   * ```
+   */
+  gyroscope?: boolean | UnicornGyroscopeOptions;
+
+  /**
+   * Shows the Unicorn Studio controls panel for tuning the scene's variables.
+   * Pass an object to set its `title`, `draggable`, or script `src`.
+   *
+   * @remarks
+   * Ignored in production builds (`NODE_ENV=production`) unless `force` is
+   * set. `false` also disables the panel the SDK opens for a `?controls=1`
+   * URL parameter. Changing it re-initializes the scene.
+   */
+  controls?: boolean | UnicornControlsOptions;
+
   /**
    * Whether to lazy load the scene when it enters the viewport.
    *
@@ -243,6 +1114,55 @@ export interface UnicornSceneProps {
    */
   paused?: boolean;
 
+  /**
+   * Pauses the scene while the container is scrolled out of view or the page
+   * is hidden, and resumes it once it is visible again.
+   *
+   * @remarks
+   * Combines with `paused`: a scene paused through the prop stays paused
+   * when it comes back into view.
+   *
+   * @defaultValue false
+   */
+  pauseWhenOffscreen?: boolean | UnicornPauseWhenOffscreenOptions;
+
+  /**
+   * How the scene responds to the `prefers-reduced-motion` media query.
+   *
+   * @remarks
+   * Follows changes to the preference while the page is open. `placeholder`
+   * falls back to `pause` when no `placeholder` or `placeholderClassName` is
+   * given.
+   *
+   * @defaultValue "pause"
+   */
+  reducedMotion?: UnicornReducedMotionPolicy;
+
+  /**
+   * Priority for keeping this scene alive when more scenes are mounted than
+   * `configureSceneScheduler({ maxActiveScenes })` allows.
+   *
+   * @remarks
+   * Higher priorities are kept first, then scenes in view, then the most
+   * recently visible ones. Suspended scenes are destroyed to free their
+   * WebGL context and show the placeholder until they are re-created.
+   *
+   * @defaultValue 0
+   */
+  priority?: number;
+
+  /**
+   * Minimum WebGL features the device needs. Devices that fall short show
+   * the placeholder and report a `WEBGL_UNSUPPORTED` error instead of
+   * creating a scene that renders incorrectly.
+   *
+   * @remarks
+   * Capabilities are probed once per page and cached. They are unknown while
+   * server rendering, so the server and hydration output never depend on
+   * them.
+   */
+  minCapabilities?: UnicornMinWebGLCapabilities;
+
   /**
    * Values for variables authored and published with the scene.
    *
@@ -250,9 +1170,10 @@ export interface UnicornSceneProps {
    * Applied as `initialVariables` when the scene is created, then synced to
    * the live scene via `setVariables()` whenever the values change — without
    * re-initializing the scene. Unknown names or invalid values are ignored by
-   * the SDK with a console warning.
+   * the SDK with a console warning, unless a {@link UnicornSceneSchema}
+   * catches them at compile time.
    */
-  variables?: UnicornVariables;
+  variables?: Partial<TScene["variables"]>;
 
   /**
    * Authored preset ID or name to apply to the scene.
@@ -262,7 +1183,7 @@ export interface UnicornSceneProps {
    * `setPreset()` whenever it changes. Presets are applied before
    * `variables`, so explicit variable values override the preset on load.
    */
-  preset?: string;
+  preset?: TScene["presets"];
 
   /**
    * Callback fired when a scene variable changes, including changes made
@@ -271,6 +1192,155 @@ export interface UnicornSceneProps {
    */
   onVariableChange?: UnicornVariableChangeCallback;
 
+  /**
+   * Variables driven by scroll progress, as keyframes of
+   * `[progress, value]` pairs.
+   *
+   * @remarks
+   * Values between keyframes are interpolated like `variableTransition`
+   * does; booleans and other strings switch at the next keyframe. The
+   * values are applied through `setVariables()` on the frame after a scroll
+   * or resize, and only while the container is in view for the `container`
+   * source. Avoid driving a variable from both this and `variables`.
+   *
+   * @example
+   * ```tsx
+   * <UnicornScene
+   *   projectId="..."
+   *   scrollVariables={{
+   *     intensity: [[0, 0.2], [1, 1]],
+   *     tint: [[0, "#000000"], [1, "#7c3aed"]],
+   *   }}
+   * />
+   * ```
+   */
+  scrollVariables?: UnicornScrollVariables;
+
+  /**
+   * What the `scrollVariables` progress measures, and how it maps to values.
+   */
+  scrollOptions?: UnicornScrollOptions;
+
+  /**
+   * Animates changes to `variables` instead of applying them instantly.
+   * Pass `true` for the defaults.
+   *
+   * @remarks
+   * Numbers, hex colors (interpolated in the perceptual OKLab color space),
+   * and Vec2/Vec3 values are interpolated on `requestAnimationFrame`; other
+   * values change immediately. A change mid-animation continues from the
+   * current value. Initial values, and changes while the user prefers
+   * reduced motion, are applied without animating.
+   *
+   * @defaultValue false
+   */
+  variableTransition?: boolean | UnicornVariableTransitionOptions;
+
+  /**
+   * Animates `preset` changes instead of snapping every variable at once.
+   * Pass `true` for the defaults.
+   *
+   * @remarks
+   * The preset's values are read with `getPreset()` and animated to from the
+   * current values like `variableTransition`. Values that can't be
+   * interpolated, such as booleans and texture URLs, switch halfway through.
+   * Changing `preset` mid-transition continues from the current values. The
+   * initial preset, and changes while the user prefers reduced motion, are
+   * applied without animating.
+   *
+   * @defaultValue false
+   */
+  presetTransition?: boolean | UnicornVariableTransitionOptions;
+
+  /**
+   * Keeps the preset and the variables that differ from it in the URL's
+   * query string, so a link restores the scene as it was.
+   *
+   * @remarks
+   * Values in the URL are applied as `initialVariables` and `initialPreset`
+   * when the scene is created, taking precedence over `variables` and
+   * `preset`. Changes are written with `history.replaceState()` or
+   * `pushState()` without a navigation, which the Next.js App Router picks
+   * up for `useSearchParams()`. Changing the option never re-initializes the
+   * scene.
+   *
+   * @defaultValue false
+   *
+   * @example
+   * ```tsx
+   * // ?scene=Night&scene.intensity=0.8&scene.tint=x7c3aed
+   * <UnicornScene projectId="..." syncToUrl={{ history: "push" }} />
+   * ```
+   */
+  syncToUrl?: boolean | UnicornUrlSyncOptions;
+
+  /**
+   * Saves the scene's preset and variable values to storage as they change,
+   * and restores them when the scene is next created.
+   *
+   * @remarks
+   * Saved values are applied as `initialVariables` and `initialPreset`,
+   * taking precedence over `variables` and `preset` but not over values
+   * restored by `syncToUrl`. Values saved against other variable
+   * definitions, such as before the scene was republished with new
+   * variables, are discarded once the scene is created, and the scene
+   * returns to the values of its props.
+   *
+   * @example
+   * ```tsx
+   * <UnicornScene projectId="..." persist={{ key: "hero-configurator" }} />
+   * ```
+   */
+  persist?: UnicornPersistOptions;
+
+  /**
+   * Binds variables to CSS custom properties and media queries, so the scene
+   * follows the page's theme.
+   *
+   * @remarks
+   * Values are converted to the variable's type from its definition: colors
+   * (hex, `rgb()`, `hsl()`, `oklab()`, `oklch()`, and named colors) to hex
+   * colors, numbers without their unit (percentages as fractions), `true`
+   * and `false` or media queries to booleans, and space- or comma-separated
+   * numbers to vectors. They are applied as `initialVariables` when the scene
+   * is created, taking precedence over other initial values, and applied
+   * like `variables` changes, including `variableTransition`, when a media
+   * query changes or an attribute such as `class` or `style` changes on the
+   * container or one of its ancestors.
+   *
+   * @example
+   * ```tsx
+   * <UnicornScene
+   *   projectId="..."
+   *   themeBindings={{
+   *     brandColor: "var(--brand-500)",
+   *     darkMode: "prefers-color-scheme",
+   *   }}
+   * />
+   * ```
+   */
+  themeBindings?: UnicornThemeBindings;
+
+  /**
+   * Checks `variables` against the scene's variable definitions before they
+   * are applied: the value type (hex colors, Vec2/Vec3 shapes, booleans,
+   * numbers) and the `min`, `max`, and `step` constraints.
+   *
+   * @remarks
+   * Definitions are only known once the scene is created, so in `clamp` and
+   * `strict` modes the initial values are applied right after creation
+   * instead of as `initialVariables`. Violations are reported through
+   * `onVariableViolation`, or logged with `console.warn` without it. Values
+   * set imperatively on the scene instance are not checked.
+   */
+  validateVariables?: UnicornVariableValidationMode;
+
+  /**
+   * Callback fired with the values that failed `validateVariables`, each
+   * time `variables` are applied.
+   */
+  onVariableViolation?: (violations: UnicornVariableViolation[]) => void;
+
   /**
    * Placeholder content to display while loading or on error.
    *
@@ -311,7 +1381,110 @@ export interface UnicornSceneProps {
    *
    * @param error - The error that occurred
    */
-  onError?: (error: Error) => void;
+  onError?: (error: UnicornSceneError) => void;
+
+  /**
+   * Initialization timeout in milliseconds.
+   *
+   * @remarks
+   * A number limits scene creation (`addScene()`). Pass an object to set
+   * per-phase timeouts for loading the SDK and creating the scene. A timed
+   * out scene reports an error, so the placeholder stays up when
+   * `showPlaceholderOnError` is enabled.
+   *
+   * @defaultValue 15000
+   */
+  initTimeout?: number | UnicornInitTimeouts;
+
+  /**
+   * Signal that cancels pending SDK loading and scene initialization.
+   *
+   * @remarks
+   * Aborting leaves the status `idle` and keeps the placeholder up. A scene
+   * that resolves after the abort is destroyed immediately; a scene that is
+   * already ready is left untouched. Pass a new signal to start again.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Automatic retry policy for failed scene initialization.
+   *
+   * @remarks
+   * Pass `true` to use the default policy. While a retry is pending the
+   * status stays `initializing`; `onError` only fires once retries are
+   * exhausted.
+   *
+   * @defaultValue false
+   */
+  retry?: boolean | UnicornRetryOptions;
+
+  /**
+   * Keeps the current scene rendering while a new one loads, e.g. when
+   * `projectId` or `jsonFilePath` changes.
+   *
+   * @remarks
+   * Each scene is rendered into its own element inside the container. The
+   * old scene is destroyed once the new one is ready and the transition has
+   * finished, so the placeholder does not flash back in between. Without a
+   * transition the old scene is destroyed before the new one is created.
+   */
+  transition?: UnicornSceneTransitionType | UnicornSceneTransitionOptions;
+
+  /**
+   * Adjusts `scale`, `dpi`, and `fps` at runtime from measured frame rates.
+   *
+   * @remarks
+   * While the scene is ready and running, frame rates are sampled and the
+   * governor steps down through the quality tiers when frames are dropped,
+   * and back up when there is headroom. Every change re-initializes the
+   * scene, so changes are spaced by a cooldown and a tier that had to be
+   * left twice is not stepped back up to. Pass `true` for the defaults.
+   *
+   * @defaultValue false
+   */
+  adaptiveQuality?: boolean | UnicornAdaptiveQualityOptions;
+
+  /**
+   * Callback fired when the adaptive quality governor changes tier.
+   */
+  onQualityChange?: (change: UnicornQualityChange) => void;
+
+  /**
+   * Custom content shown instead of the default error box.
+   *
+   * @remarks
+   * Pass a function to receive the error and a `retry` callback.
+   */
+  errorFallback?:
+    | React.ReactNode
+    | ((error: UnicornSceneError, retry: () => void) => React.ReactNode);
+
+  /**
+   * Callback fired whenever the scene lifecycle status changes.
+   *
+   * @param status - The new status
+   */
+  onStatusChange?: (status: UnicornSceneStatus) => void;
+
+  /**
+   * Callback fired when the scene's WebGL context is lost, e.g. after a GPU
+   * reset or when a mobile browser reclaims a backgrounded tab.
+   *
+   * @remarks
+   * The scene is re-created with the current props and its live variable
+   * values, up to 3 times; after that it reports a `CONTEXT_LOST` error.
+   */
+  onContextLost?: (event: UnicornContextLossEvent) => void;
+
+  /**
+   * Content rendered inside the scene container, above the canvas.
+   *
+   * @remarks
+   * Pass a function to render based on the current lifecycle status, e.g.
+   * skeletons while `status !== "ready"`.
+   */
+  children?:
+    React.ReactNode | ((state: UnicornSceneRenderState) => React.ReactNode);
 
   /**
    * Optional ref that receives the initialized Unicorn Studio scene instance.
@@ -320,13 +1493,17 @@ export interface UnicornSceneProps {
    * This is set after the scene finishes initializing and cleared when the
    * scene is destroyed or re-initialized.
    */
-  sceneRef?: React.Ref<UnicornStudioScene | null>;
+  sceneRef?: React.Ref<UnicornStudioScene<TScene> | null>;
 }
 
 /**
  * Represents an initialized Unicorn Studio scene instance.
+ *
+ * @typeParam TScene - The scene's generated {@link UnicornSceneSchema}
  */
-export interface UnicornStudioScene {
+export interface UnicornStudioScene<
+  TScene extends UnicornSceneSchema = UnicornSceneSchema,
+> {
   /**
    * The DOM element containing the scene.
    */
@@ -358,25 +1535,29 @@ export interface UnicornStudioScene {
   /**
    * Sets a single authored variable value.
    */
-  setVariable?: (
-    name: string,
-    value: UnicornVariableValue,
-  ) => UnicornStudioScene;
+  setVariable?: <TName extends keyof TScene["variables"] & string>(
+    name: TName,
+    value: TScene["variables"][TName],
+  ) => UnicornStudioScene<TScene>;
 
   /**
    * Sets multiple authored variable values at once.
    */
-  setVariables?: (values: UnicornVariables) => UnicornStudioScene;
+  setVariables?: (
+    values: Partial<TScene["variables"]>,
+  ) => UnicornStudioScene<TScene>;
 
   /**
    * Returns the current value for a variable name.
    */
-  getVariable?: (name: string) => UnicornVariableValue | undefined;
+  getVariable?: <TName extends keyof TScene["variables"] & string>(
+    name: TName,
+  ) => TScene["variables"][TName] | undefined;
 
   /**
    * Returns all current variable values keyed by name.
    */
-  getVariables?: () => UnicornVariables;
+  getVariables?: () => TScene["variables"];
 
   /**
    * Returns a variable definition, or `null` if unknown.
@@ -408,12 +1589,12 @@ export interface UnicornStudioScene {
   /**
    * Returns a preset by ID or name, or `null` if unknown.
    */
-  getPreset?: (idOrName: string) => UnicornPreset | null;
+  getPreset?: (idOrName: TScene["presets"]) => UnicornPreset | null;
 
   /**
    * Applies an authored preset by ID or name.
    */
-  setPreset?: (idOrName: string) => UnicornStudioScene;
+  setPreset?: (idOrName: TScene["presets"]) => UnicornStudioScene<TScene>;
 
   /**
    * Applies a runtime override to a layer property.
@@ -422,19 +1603,19 @@ export interface UnicornStudioScene {
    * Prefer authored variables when they exist for the same value.
    */
   setProp?: (
-    layerIdOrName: string,
+    layerIdOrName: TScene["layers"],
     prop: string,
     value: unknown,
-  ) => UnicornStudioScene;
+  ) => UnicornStudioScene<TScene>;
 
   /**
    * Replaces a named shader sampler on a layer.
    */
   setTexture?: (
-    layerIdOrName: string,
+    layerIdOrName: TScene["layers"],
     samplerName: string,
     value: string | object,
-  ) => UnicornStudioScene;
+  ) => UnicornStudioScene<TScene>;
 
   /**
    * Returns lightweight layer descriptors for the scene.
@@ -444,7 +1625,7 @@ export interface UnicornStudioScene {
   /**
    * Returns the runtime layer object for a layer ID or name, or `null`.
    */
-  getLayer?: (idOrName: string) => UnicornLayer | null;
+  getLayer?: (idOrName: TScene["layers"]) => UnicornLayer | null;
 
   /**
    * Returns the latest scene-level pointer position.
@@ -525,17 +1706,24 @@ export interface UnicornSceneConfig {
   /**
    * Interactivity configuration options.
    */
-  interactivity?: {
-    /**
-     * Mouse interaction settings.
-     */
-    mouse?: {
-      /**
-       * Whether to disable mouse interactions on mobile devices.
-       */
-      disableMobile?: boolean;
-    };
-  };
+  interactivity?: UnicornInteractivityOptions;
+
+  /**
+   * Controls panel settings. `false` disables the panel, including for a
+   * `?controls=1` URL parameter.
+   */
+  controls?:
+    | boolean
+    | {
+        /** Whether to show the panel */
+        enabled?: boolean;
+        /** Title shown on the panel */
+        title?: string;
+        /** Whether the panel can be dragged */
+        draggable?: boolean;
+        /** URL of the controls script */
+        src?: string;
+      };
 }
 
 /**
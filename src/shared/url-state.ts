@@ -0,0 +1,183 @@
+import type {
+  UnicornStudioScene,
+  UnicornVariableValue,
+  UnicornVariables,
+} from "./types";
+import { getPresetValues } from "./animation";
+
+/**
+ * A preset and variable values, as kept in the query string by `syncToUrl`.
+ */
+export interface UrlSceneState {
+  preset?: string;
+  variables: UnicornVariables;
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Encodes a variable value as a compact query parameter value.
+ *
+ * @remarks
+ * Numbers are written as is and vectors as their components joined by `_`
+ * (`0.5_-1`). Other values start with a letter telling their type: `t` and
+ * `f` for booleans, `x` for hex colors (`x7c3aed`), and `s` for other
+ * strings. None of these characters need escaping in a URL.
+ *
+ * @returns The encoded value, or `null` for values that can't be restored,
+ * such as non-finite numbers
+ */
+export function encodeVariableValue(
+  value: UnicornVariableValue,
+): string | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : null;
+  }
+  if (typeof value === "boolean") return value ? "t" : "f";
+  if (typeof value === "string") {
+    return HEX_COLOR.test(value) ? `x${value.slice(1)}` : `s${value}`;
+  }
+
+  const components =
+    value.type === "Vec3" ? [value.x, value.y, value.z] : [value.x, value.y];
+  return components.every(Number.isFinite) ? components.join("_") : null;
+}
+
+/**
+ * Decodes a query parameter value written by {@link encodeVariableValue}.
+ *
+ * @returns The value, or `null` if the text isn't a valid encoding
+ */
+export function decodeVariableValue(text: string): UnicornVariableValue | null {
+  if (text === "t" || text === "f") return text === "t";
+
+  const tag = text.charAt(0);
+  if (tag === "s") return text.slice(1);
+  if (tag === "x") {
+    const color = `#${text.slice(1)}`;
+    return HEX_COLOR.test(color) ? color : null;
+  }
+  if (!/^[-.\d]/.test(text)) return null;
+
+  const components = text.split("_").map(Number);
+  if (!components.every(Number.isFinite)) return null;
+
+  const [x, y, z] = components;
+  switch (components.length) {
+    case 1:
+      return x;
+    case 2:
+      return { type: "Vec2", x, y };
+    case 3:
+      return { type: "Vec3", x, y, z };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads the state kept under `param` from a query string: the preset as
+ * `param` and each variable as `param.name`.
+ *
+ * @remarks
+ * Values that can't be decoded are ignored.
+ *
+ * @param names - The variables to read, or all when omitted
+ */
+export function readUrlState(
+  search: string,
+  param: string,
+  names?: string[],
+): UrlSceneState {
+  const state: UrlSceneState = { variables: {} };
+  const prefix = `${param}.`;
+
+  new URLSearchParams(search).forEach((text, key) => {
+    if (key === param) {
+      if (text) state.preset = text;
+      return;
+    }
+    if (!key.startsWith(prefix)) return;
+
+    const name = key.slice(prefix.length);
+    if (!name || (names && !names.includes(name))) return;
+
+    const value = decodeVariableValue(text);
+    if (value !== null) state.variables[name] = value;
+  });
+
+  return state;
+}
+
+/**
+ * Writes `state` under `param` into a query string, replacing the state
+ * written before and keeping all other parameters.
+ *
+ * @returns The query string, without a leading `?`
+ */
+export function writeUrlState(
+  search: string,
+  param: string,
+  state: UrlSceneState,
+): string {
+  const params = new URLSearchParams(search);
+  const prefix = `${param}.`;
+
+  Array.from(params.keys()).forEach((key) => {
+    if (key === param || key.startsWith(prefix)) params.delete(key);
+  });
+
+  if (state.preset) params.set(param, state.preset);
+  Object.entries(state.variables).forEach(([name, value]) => {
+    const text = encodeVariableValue(value);
+    if (text !== null) params.set(`${prefix}${name}`, text);
+  });
+
+  return params.toString();
+}
+
+/**
+ * Reads the values a scene has with only `preset` applied: the variables'
+ * default values, overridden by the preset's.
+ */
+export function getBaselineValues(
+  scene: UnicornStudioScene,
+  preset: string | undefined,
+): UnicornVariables {
+  const values: UnicornVariables = {};
+  scene.getVariableDefinitions?.().forEach(({ name, defaultValue }) => {
+    if (defaultValue !== undefined) values[name] = defaultValue;
+  });
+
+  return preset ? { ...values, ...getPresetValues(scene, preset) } : values;
+}
+
+/**
+ * Reads the scene's variables that differ from their {@link getBaselineValues}.
+ *
+ * @param names - The variables to compare, or all when omitted
+ */
+export function getChangedVariables(
+  scene: UnicornStudioScene,
+  preset: string | undefined,
+  names?: string[],
+): UnicornVariables {
+  const values = scene.getVariables?.();
+  if (!values) return {};
+
+  const baseline = getBaselineValues(scene, preset);
+  const changed: UnicornVariables = {};
+  Object.entries(values).forEach(([name, value]) => {
+    if (names && !names.includes(name)) return;
+
+    const baselineValue: UnicornVariableValue | undefined = baseline[name];
+    if (
+      baselineValue === undefined ||
+      encodeVariableValue(value) !== encodeVariableValue(baselineValue)
+    ) {
+      changed[name] = value;
+    }
+  });
+
+  return changed;
+}
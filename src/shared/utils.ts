@@ -1,33 +1,181 @@
 import { VALID_FPS } from "./constants";
-import type { ScaleRange, ValidFPS } from "./types";
+import type {
+  ScaleRange,
+  UnicornMinWebGLCapabilities,
+  UnicornQualityTier,
+  UnicornWebGLCapabilities,
+  ValidFPS,
+} from "./types";
+
+type ProbedContext =
+  | { gl: WebGL2RenderingContext; webgl2: true }
+  | { gl: WebGLRenderingContext; webgl2: false };
+
+const NO_WEBGL_CAPABILITIES: UnicornWebGLCapabilities = {
+  supported: false,
+  webgl2: false,
+  maxTextureSize: 0,
+  floatRenderTarget: false,
+  halfFloatRenderTarget: false,
+  renderer: null,
+  majorPerformanceCaveat: false,
+};
+
+let cachedWebGLCapabilities: UnicornWebGLCapabilities | undefined;
+
+/**
+ * Creates a throwaway context, preferring WebGL2.
+ */
+function createProbeContext(
+  failIfMajorPerformanceCaveat: boolean,
+): ProbedContext | null {
+  const canvas = document.createElement("canvas");
+  const attributes: WebGLContextAttributes = { failIfMajorPerformanceCaveat };
+
+  const gl2 = canvas.getContext("webgl2", attributes);
+  if (gl2) return { gl: gl2, webgl2: true };
+
+  const gl = (canvas.getContext("webgl", attributes) ??
+    canvas.getContext(
+      "experimental-webgl",
+      attributes,
+    )) as WebGLRenderingContext | null;
+  return gl ? { gl, webgl2: false } : null;
+}
+
+function probeWebGLCapabilities(): UnicornWebGLCapabilities {
+  try {
+    let majorPerformanceCaveat = false;
+    let context = createProbeContext(true);
+    if (!context) {
+      context = createProbeContext(false);
+      majorPerformanceCaveat = context !== null;
+    }
+    if (!context) return NO_WEBGL_CAPABILITIES;
+
+    const { gl, webgl2 } = context;
+    const hasExtension = (name: string) => gl.getExtension(name) !== null;
+
+    // WebGL2 renders to float textures with EXT_color_buffer_float, which
+    // also covers half floats; WebGL1 needs a texture and a color buffer
+    // extension for each.
+    const floatRenderTarget = webgl2
+      ? hasExtension("EXT_color_buffer_float")
+      : hasExtension("OES_texture_float") &&
+        hasExtension("WEBGL_color_buffer_float");
+    const halfFloatRenderTarget = webgl2
+      ? floatRenderTarget || hasExtension("EXT_color_buffer_half_float")
+      : hasExtension("OES_texture_half_float") &&
+        hasExtension("EXT_color_buffer_half_float");
+
+    const debugInfo = gl.getExtension("WEBGL_debug_renderer_info");
+    const renderer: unknown = gl.getParameter(
+      debugInfo ? debugInfo.UNMASKED_RENDERER_WEBGL : gl.RENDERER,
+    );
+    const maxTextureSize: unknown = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+
+    const capabilities: UnicornWebGLCapabilities = {
+      supported: true,
+      webgl2,
+      maxTextureSize: typeof maxTextureSize === "number" ? maxTextureSize : 0,
+      floatRenderTarget,
+      halfFloatRenderTarget,
+      renderer: typeof renderer === "string" ? renderer : null,
+      majorPerformanceCaveat,
+    };
+
+    // Free the context right away; browsers cap how many can be alive
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+
+    return capabilities;
+  } catch {
+    return NO_WEBGL_CAPABILITIES;
+  }
+}
 
 /**
- * Checks if WebGL is supported in the current browser environment.
+ * Probes the WebGL features of the current device.
  *
  * @remarks
- * During server-side rendering (SSR), this function returns `true` to assume
- * WebGL support until client-side hydration can verify.
+ * The probe creates a throwaway context once per page and caches the result,
+ * so every scene after the first reads it for free. During server-side
+ * rendering (SSR) the capabilities are unknown and `null` is returned.
  *
- * @returns `true` if WebGL is supported or during SSR, `false` otherwise
+ * @returns The detected capabilities, or `null` during SSR
  *
  * @example
- * ```tsx
- * if (!isWebGLSupported()) {
- *   return <FallbackContent />;
+ * ```ts
+ * const capabilities = getWebGLCapabilities();
+ *
+ * if (capabilities && !capabilities.webgl2) {
+ *   useSimplerScene();
  * }
  * ```
  */
-export function isWebGLSupported(): boolean {
-  if (typeof window === "undefined") return true; // Assume supported during SSR
+export function getWebGLCapabilities(): UnicornWebGLCapabilities | null {
+  if (typeof window === "undefined") return null;
 
-  try {
-    const canvas = document.createElement("canvas");
-    const gl =
-      canvas.getContext("webgl") || canvas.getContext("experimental-webgl");
-    return !!gl;
-  } catch (e) {
-    return false;
+  cachedWebGLCapabilities ??= probeWebGLCapabilities();
+  return cachedWebGLCapabilities;
+}
+
+/**
+ * Checks detected WebGL capabilities against the minimum a scene needs.
+ *
+ * @param capabilities - Capabilities from `getWebGLCapabilities()`
+ * @param minCapabilities - The minimum required capabilities, if any
+ * @returns An error message naming the first unmet requirement, or `null` if
+ * the device meets them all
+ *
+ * @example
+ * ```ts
+ * validateWebGLCapabilities(capabilities, { webgl2: true });
+ * // "WebGL2 is not supported" on a WebGL1-only device
+ * ```
+ */
+export function validateWebGLCapabilities(
+  capabilities: UnicornWebGLCapabilities,
+  minCapabilities: UnicornMinWebGLCapabilities = {},
+): string | null {
+  if (!capabilities.supported) {
+    return "WebGL is not supported";
+  }
+  if (minCapabilities.webgl2 && !capabilities.webgl2) {
+    return "WebGL2 is not supported";
+  }
+  if (
+    minCapabilities.maxTextureSize !== undefined &&
+    capabilities.maxTextureSize < minCapabilities.maxTextureSize
+  ) {
+    return `Max texture size ${capabilities.maxTextureSize} is below the required ${minCapabilities.maxTextureSize}`;
+  }
+  if (minCapabilities.floatRenderTarget && !capabilities.floatRenderTarget) {
+    return "Float render targets are not supported";
+  }
+  if (
+    minCapabilities.halfFloatRenderTarget &&
+    !capabilities.halfFloatRenderTarget
+  ) {
+    return "Half-float render targets are not supported";
+  }
+  if (
+    minCapabilities.failIfMajorPerformanceCaveat &&
+    capabilities.majorPerformanceCaveat
+  ) {
+    return "WebGL is only available with a major performance caveat";
+  }
+
+  const renderer = capabilities.renderer ?? "";
+  const isBlocked = minCapabilities.blockedRenderers?.some((pattern) =>
+    typeof pattern === "string"
+      ? renderer.toLowerCase().includes(pattern.toLowerCase())
+      : pattern.test(renderer),
+  );
+  if (isBlocked) {
+    return `Renderer ${renderer} is blocked`;
   }
+
+  return null;
 }
 
 /**
@@ -87,3 +235,85 @@ export function validateParameters(scale: number, fps: number): string | null {
   }
   return null;
 }
+
+/**
+ * Validates adaptive quality tiers against the same ranges as the `scale` and
+ * `fps` props.
+ *
+ * @param tiers - The tiers to validate, ordered from highest to lowest
+ * @returns An error message naming the first invalid tier, or `null` if all
+ * tiers are valid
+ *
+ * @example
+ * ```ts
+ * validateQualityTiers([{ scale: 1, dpi: 1.5, fps: 60 }]); // null (valid)
+ * validateQualityTiers([]); // "Adaptive quality requires at least one tier"
+ * ```
+ */
+export function validateQualityTiers(
+  tiers: readonly UnicornQualityTier[],
+): string | null {
+  if (tiers.length === 0) {
+    return "Adaptive quality requires at least one tier";
+  }
+
+  for (const [index, tier] of tiers.entries()) {
+    const error =
+      validateParameters(tier.scale, tier.fps) ??
+      (tier.dpi > 0 ? null : `Invalid dpi: ${tier.dpi}. DPI must be positive`);
+
+    if (error) return `Invalid quality tier ${index}: ${error}`;
+  }
+
+  return null;
+}
+
+/**
+ * Wraps a promise with a timeout, rejecting if it doesn't resolve in time.
+ *
+ * @remarks
+ * The timer is always cleaned up, whether the promise settles or times out.
+ *
+ * @param promise - The promise to wrap
+ * @param ms - Timeout in milliseconds
+ * @param message - Message of the error thrown on timeout
+ * @returns A promise that settles like `promise`, or rejects after `ms`
+ *
+ * @example
+ * ```ts
+ * await withTimeout(loadUnicornStudioSdk(), 5000, "SDK load timeout");
+ * ```
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string,
+): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(message)), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Whether this is a production build, where the controls panel is left out
+ * unless forced.
+ *
+ * Bundlers replace `process.env.NODE_ENV` at build time but leave any guard
+ * around it, so the expression is read directly. Without a define there is
+ * no `process` in the browser, and the `ReferenceError` means "not
+ * production".
+ */
+export function isProductionBuild(): boolean {
+  try {
+    return process.env.NODE_ENV === "production";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,201 @@
+import type {
+  UnicornVariableDefinition,
+  UnicornVariables,
+  UnicornVariableValidationMode,
+  UnicornVariableValue,
+  UnicornVariableViolation,
+  UnicornVariableViolationReason,
+} from "./types";
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/** Tolerance for floating point error when checking `step` */
+const STEP_EPSILON = 1e-9;
+
+/**
+ * The result of validating variable values.
+ */
+export interface VariableValidationResult {
+  /** The values to apply */
+  values: UnicornVariables;
+  /** The values that failed validation */
+  violations: UnicornVariableViolation[];
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isVector(value: UnicornVariableValue, size: 2 | 3): boolean {
+  if (typeof value !== "object") return false;
+
+  const vector: Record<string, unknown> = { ...value };
+  if (vector.type !== undefined && vector.type !== `Vec${size}`) return false;
+
+  return (
+    isFiniteNumber(vector.x) &&
+    isFiniteNumber(vector.y) &&
+    (size === 2 || isFiniteNumber(vector.z))
+  );
+}
+
+/**
+ * Describes the values a variable type accepts, or returns `null` if `value`
+ * is one of them. Types the SDK doesn't document accept any value.
+ */
+function getExpectedType(
+  type: string,
+  value: UnicornVariableValue,
+): string | null {
+  switch (type) {
+    case "number":
+      return isFiniteNumber(value) ? null : "a finite number";
+    case "boolean":
+      return typeof value === "boolean" ? null : "a boolean";
+    case "string":
+      return typeof value === "string" ? null : "a string";
+    case "color":
+      return (typeof value === "string" && HEX_COLOR_PATTERN.test(value)) ||
+        isVector(value, 3)
+        ? null
+        : "a hex color or Vec3 color object";
+    case "vec2":
+      return isVector(value, 2) ? null : "a { type: 'Vec2', x, y } object";
+    case "vec3":
+      return isVector(value, 3) ? null : "a { type: 'Vec3', x, y, z } object";
+    case "texture":
+      return typeof value === "string" && value.trim() !== ""
+        ? null
+        : "a texture URL";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rounds away the floating point error left by snapping to a step.
+ */
+function roundToPrecision(value: number): number {
+  return Number.parseFloat(value.toPrecision(12));
+}
+
+type VariableConstraints = NonNullable<UnicornVariableDefinition["validation"]>;
+
+/**
+ * Clamps a number to the definition's range, snapped to its step from `min`.
+ */
+function clampNumber(
+  value: number,
+  { min = -Infinity, max = Infinity, step }: VariableConstraints,
+): number {
+  let clamped = Math.min(max, Math.max(min, value));
+
+  if (step !== undefined && step > 0) {
+    const base = Number.isFinite(min) ? min : 0;
+    clamped = roundToPrecision(
+      base + Math.round((clamped - base) / step) * step,
+    );
+    // Snapping may round past `max`
+    if (clamped > max) clamped = roundToPrecision(clamped - step);
+  }
+
+  return clamped;
+}
+
+/**
+ * Finds the range or step constraint a number violates, if any.
+ */
+function getConstraintViolation(
+  value: number,
+  { min, max, step }: VariableConstraints,
+): { reason: UnicornVariableViolationReason; expected: string } | null {
+  if (min !== undefined && value < min) {
+    return { reason: "range", expected: `at least ${min}` };
+  }
+  if (max !== undefined && value > max) {
+    return { reason: "range", expected: `at most ${max}` };
+  }
+  if (step !== undefined && step > 0) {
+    const steps = (value - (min ?? 0)) / step;
+    if (Math.abs(steps - Math.round(steps)) > STEP_EPSILON) {
+      return {
+        reason: "step",
+        expected: `a multiple of ${step}${min ? ` from ${min}` : ""}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates variable values against the scene's variable definitions.
+ *
+ * @param values - The values to validate
+ * @param definitions - The definitions published with the scene
+ * @param mode - How violating values are handled
+ * @returns The values to apply and the violations found
+ */
+export function validateVariables(
+  values: UnicornVariables,
+  definitions: UnicornVariableDefinition[],
+  mode: UnicornVariableValidationMode,
+): VariableValidationResult {
+  const definitionsByName = new Map(
+    definitions.map((definition) => [definition.name, definition]),
+  );
+  const validValues: UnicornVariables = {};
+  const violations: UnicornVariableViolation[] = [];
+
+  Object.entries(values).forEach(([name, value]) => {
+    const definition = definitionsByName.get(name);
+
+    const reject = (
+      reason: UnicornVariableViolationReason,
+      message: string,
+      appliedValue?: UnicornVariableValue,
+    ) => {
+      // Only `warn` applies the value as passed
+      const applied = mode === "warn" ? value : appliedValue;
+      if (applied !== undefined) validValues[name] = applied;
+      violations.push({
+        name,
+        value,
+        reason,
+        message,
+        definition,
+        appliedValue: applied,
+      });
+    };
+
+    if (!definition) {
+      reject("unknown", `Unknown variable "${name}"`);
+      return;
+    }
+
+    const expectedType = getExpectedType(definition.type, value);
+    if (expectedType) {
+      reject(
+        "type",
+        `Variable "${name}" expects ${expectedType}, got ${JSON.stringify(value)}`,
+      );
+      return;
+    }
+
+    const constraints = definition.validation;
+    if (typeof value === "number" && constraints) {
+      const violation = getConstraintViolation(value, constraints);
+      if (violation) {
+        reject(
+          violation.reason,
+          `Variable "${name}" expects ${violation.expected}, got ${value}`,
+          mode === "clamp" ? clampNumber(value, constraints) : undefined,
+        );
+        return;
+      }
+    }
+
+    validValues[name] = value;
+  });
+
+  return { values: validValues, violations };
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { subscribeSceneRef } from "./scene-ref";
+import type {
+  UnicornSceneSchema,
+  UnicornStudioScene,
+  UnicornVariables,
+  UnicornVariableValue,
+} from "./types";
+
+const NO_VARIABLES: UnicornVariables = {};
+
+/**
+ * Reads the scene held by `sceneRef`, re-rendering when `useUnicornScene`
+ * assigns a new scene or clears it.
+ */
+function useSceneFromRef(
+  sceneRef: React.RefObject<UnicornStudioScene | null>,
+): UnicornStudioScene | null {
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeSceneRef(sceneRef, listener),
+    [sceneRef],
+  );
+  const getScene = () => sceneRef.current;
+
+  return useSyncExternalStore(subscribe, getScene, () => null);
+}
+
+function readVariable(
+  scene: UnicornStudioScene | null,
+  name: string,
+): UnicornVariableValue | undefined {
+  return scene?.getVariable?.(name) ?? scene?.getVariables?.()[name];
+}
+
+/**
+ * Hook for reading and setting the variables of a scene.
+ *
+ * @remarks
+ * Binds to the `sceneRef` passed to a `UnicornScene`. The values follow
+ * changes made through `setVariable()`, `setVariables()`, presets, or the
+ * `variables` prop, and are re-read when the scene is re-created. While there
+ * is no scene, or the scene has no variables API, the values are empty and
+ * setting them does nothing.
+ *
+ * @typeParam TScene - The scene's generated {@link UnicornSceneSchema}
+ * @param sceneRef - The ref passed as the scene's `sceneRef`
+ * @returns The current values and a function that sets several at once
+ *
+ * @example
+ * ```tsx
+ * const sceneRef = useRef<UnicornStudioScene | null>(null);
+ * const [values, setVariables] = useUnicornVariables(sceneRef);
+ *
+ * return (
+ *   <>
+ *     <UnicornScene projectId="your-project-id" sceneRef={sceneRef} />
+ *     <button onClick={() => setVariables({ intensity: 1 })}>
+ *       Intensity: {String(values.intensity)}
+ *     </button>
+ *   </>
+ * );
+ * ```
+ */
+export function useUnicornVariables<
+  TScene extends UnicornSceneSchema = UnicornSceneSchema,
+>(
+  typedSceneRef: React.RefObject<UnicornStudioScene<TScene> | null>,
+): [TScene["variables"], (values: Partial<TScene["variables"]>) => void] {
+  const sceneRef = typedSceneRef as React.RefObject<UnicornStudioScene | null>;
+  const scene = useSceneFromRef(sceneRef);
+  const [values, setValues] = useState<UnicornVariables>(
+    () => scene?.getVariables?.() ?? NO_VARIABLES,
+  );
+
+  useEffect(() => {
+    setValues(scene?.getVariables?.() ?? NO_VARIABLES);
+    if (!scene?.onVariableChange) return;
+
+    return scene.onVariableChange((_name, _value, nextValues) => {
+      setValues({ ...nextValues });
+    });
+  }, [scene]);
+
+  const setVariables = useCallback(
+    (nextValues: Partial<TScene["variables"]>) => {
+      const current = sceneRef.current;
+      if (!current?.setVariables) return;
+
+      current.setVariables(nextValues as UnicornVariables);
+      // Without change events, re-read the values after setting them
+      if (!current.onVariableChange) {
+        setValues(current.getVariables?.() ?? NO_VARIABLES);
+      }
+    },
+    [sceneRef],
+  );
+
+  return [values as TScene["variables"], setVariables];
+}
+
+/**
+ * Hook for reading and setting a single variable of a scene.
+ *
+ * @remarks
+ * Like {@link useUnicornVariables}, but re-renders only when `name` changes.
+ * The value is `undefined` while there is no scene, the scene has no
+ * variables API, or the variable doesn't exist.
+ *
+ * @typeParam TScene - The scene's generated {@link UnicornSceneSchema}
+ * @param sceneRef - The ref passed as the scene's `sceneRef`
+ * @param name - The variable name
+ * @returns The current value and a function that sets it
+ *
+ * @example
+ * ```tsx
+ * const [intensity, setIntensity] = useUnicornVariable(sceneRef, "intensity");
+ *
+ * <input
+ *   type="range"
+ *   min={0}
+ *   max={1}
+ *   step={0.01}
+ *   value={Number(intensity ?? 0)}
+ *   onChange={(event) => setIntensity(Number(event.target.value))}
+ * />
+ * ```
+ */
+export function useUnicornVariable<
+  TScene extends UnicornSceneSchema = UnicornSceneSchema,
+  TName extends keyof TScene["variables"] & string = keyof TScene["variables"] &
+    string,
+>(
+  typedSceneRef: React.RefObject<UnicornStudioScene<TScene> | null>,
+  name: TName,
+): [
+  TScene["variables"][TName] | undefined,
+  (value: TScene["variables"][TName]) => void,
+] {
+  const sceneRef = typedSceneRef as React.RefObject<UnicornStudioScene | null>;
+  const scene = useSceneFromRef(sceneRef);
+  const [value, setValue] = useState(() => readVariable(scene, name));
+
+  useEffect(() => {
+    setValue(readVariable(scene, name));
+    if (!scene?.onVariableChange) return;
+
+    return scene.onVariableChange((changedName, changedValue) => {
+      if (changedName === name) setValue(changedValue);
+    });
+  }, [scene, name]);
+
+  const setVariable = useCallback(
+    (nextValue: TScene["variables"][TName]) => {
+      const current = sceneRef.current;
+      if (!current?.setVariable) return;
+
+      current.setVariable(name, nextValue);
+      if (!current.onVariableChange) {
+        setValue(readVariable(current, name));
+      }
+    },
+    [sceneRef, name],
+  );
+
+  return [value as TScene["variables"][TName] | undefined, setVariable];
+}
@@ -6,6 +6,9 @@ export default defineConfig({
     index: "src/index.tsx",
     // Next.js version
     next: "src/next/index.tsx",
+    // Scene type generator, programmatic API and CLI
+    codegen: "src/codegen/index.ts",
+    cli: "src/codegen/bin.ts",
   },
   format: ["cjs", "esm"],
   dts: true,